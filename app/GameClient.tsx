@@ -2,8 +2,22 @@
 
 import { useEffect, useMemo, useRef, useState } from "react";
 import { loadEngine, type GameEngineInstance } from "@/lib/wasmLoader";
+import { createReplayRecorder, type ReplayRecorder } from "@/lib/replay";
+import { DIFFICULTIES, type Difficulty } from "@/lib/difficulty";
 import { sdk } from "@farcaster/miniapp-sdk";
-import { hasScoreboard, readBestScore, submitScore, waitForReceipt } from "@/lib/chain";
+import { hasScoreboard, readBestScore, submitScores, walletChainId } from "@/lib/chain";
+import { chainConfig, DEFAULT_CHAIN_ID } from "@/lib/chains";
+import { readStoredTheme, storeTheme, THEME_IDS, THEMES, type ThemeId } from "@/lib/themes";
+import { createRenderer } from "@/lib/renderer";
+import { warnOnGameStateDrift, type GameState } from "@/lib/gameState";
+import { createStateReader, type FlatGameState, type StateReader } from "@/lib/stateBuffers";
+import { createEventDrain, createGameEventBus, type EventDrain } from "@/lib/gameEvents";
+import { trackRunStats, type RunStats, type RunStatsTracker } from "@/lib/runStats";
+import { trackAchievements } from "@/lib/achievements";
+import { attachHaptics } from "@/lib/haptics";
+import { addPendingSave, trackPendingSave, type PendingSave } from "@/lib/pendingSaves";
+import { addUnsavedRun, readUnsavedRuns, removeUnsavedRuns, type UnsavedRun } from "@/lib/unsavedRuns";
+import PendingSavesTray from "./components/PendingSavesTray";
 import {
   getEthereumProvider,
   getPreferredInjectedWalletId,
@@ -13,29 +27,48 @@ import {
 } from "@/lib/ethProvider";
 
 type Phase = "menu" | "play" | "over";
-type Difficulty = "easy" | "medium" | "hard";
+
+// Leaderboard row as served by /api/leaderboard (rank is 1-based). Profile
+// fields are resolved server-side (Farcaster / Basename) and null when unknown.
+type LbEntry = {
+  rank: number;
+  address: `0x${string}`;
+  score: number;
+  username?: string | null;
+  pfpUrl?: string | null;
+  basename?: string | null;
+};
+
+// One entry of GET /api/leaderboard/weeks.
+type LbWeekSummary = {
+  weekId: number;
+  weekStartMs: number;
+  weekEndMs: number;
+  totalPlayers: number;
+  winner: { address: `0x${string}`; score: number; username?: string | null; basename?: string | null } | null;
+};
 
 function clamp(n: number, a: number, b: number) {
   return Math.max(a, Math.min(b, n));
 }
 
-// Canvas round-rect helper (webview-safe)
-function roundRectPath(
-  ctx: CanvasRenderingContext2D,
-  x: number,
-  y: number,
-  w: number,
-  h: number,
-  r: number
-) {
-  const rr = Math.min(r, w / 2, h / 2);
-  ctx.beginPath();
-  ctx.moveTo(x + rr, y);
-  ctx.arcTo(x + w, y, x + w, y + h, rr);
-  ctx.arcTo(x + w, y + h, x, y + h, rr);
-  ctx.arcTo(x, y + h, x, y, rr);
-  ctx.arcTo(x, y, x + w, y, rr);
-  ctx.closePath();
+function newRunSeed() {
+  try {
+    return crypto.getRandomValues(new Uint32Array(1))[0];
+  } catch {
+    return Math.floor(Math.random() * 0xffffffff) >>> 0;
+  }
+}
+
+// Seed issued by the server (POST /api/replay/seed); only those runs' replays verify.
+async function fetchRunSeed(): Promise<number | null> {
+  try {
+    const r = await fetch("/api/replay/seed", { method: "POST", cache: "no-store" });
+    const d: any = await r.json();
+    return r.ok && Number.isInteger(d?.seed) ? d.seed : null;
+  } catch {
+    return null;
+  }
 }
 
 // Difficulty config — game-logic values now live in Rust; only UI labels remain here.
@@ -46,6 +79,8 @@ const DIFF: Record<Difficulty, { label: string }> = {
 };
 
 const SHOW_LEADERBOARD = process.env.NEXT_PUBLIC_SHOW_LEADERBOARD === "true";
+// Neighbours shown either side of the player's pinned leaderboard row.
+const LB_PIN_RADIUS = 2;
 
 // Simple audio synth for retro game feel (0 dependencies, works everywhere)
 let audioCtx: AudioContext | null = null;
@@ -115,15 +150,26 @@ export default function GameClient() {
     difficultyRef.current = difficulty;
   }, [difficulty]);
 
-  const [theme, setTheme] = useState<"glass" | "neon" | "scifi">("glass");
+  const [theme, setTheme] = useState<ThemeId>("glass");
   const themeRef = useRef(theme);
   useEffect(() => { themeRef.current = theme; }, [theme]);
+  // Stored choice is read after mount so the server render matches the first client one.
+  useEffect(() => {
+    const stored = readStoredTheme();
+    if (stored) setTheme(stored);
+  }, []);
+  const chooseTheme = (id: ThemeId) => {
+    setTheme(id);
+    storeTheme(id);
+  };
 
   const [scoreUi, setScoreUi] = useState(0);
   const [bestUi, setBestUi] = useState<number | null>(null);
   const [status, setStatus] = useState<string>("");
 
   const [account, setAccount] = useState<`0x${string}` | null>(null);
+  // Chain scores are saved on and leaderboards are read from: the wallet's chain when supported.
+  const [chainId, setChainId] = useState<number>(DEFAULT_CHAIN_ID);
   const [saving, setSaving] = useState(false);
 
   // Web-only: when multiple injected wallets are present (MetaMask + Rabby, etc.),
@@ -132,16 +178,26 @@ export default function GameClient() {
   const [injectedWalletOptions, setInjectedWalletOptions] = useState<InjectedWallet[]>([]);
 // Leaderboard UI (weekly top 100)
   const [lbOpen, setLbOpen] = useState(false);
+  // Inside a mini app the host already knows who the player is; used for their
+  // own row until the server has resolved a profile for the address.
+  const [miniUser, setMiniUser] = useState<{ username?: string; pfpUrl?: string } | null>(null);
   const [lbLoading, setLbLoading] = useState(false);
   const [lbErr, setLbErr] = useState("");
-  const [lbTop, setLbTop] = useState<Array<{ address: `0x${string}`; score: number }>>([]);
+  const [lbTop, setLbTop] = useState<LbEntry[]>([]);
   const [lbWeekId, setLbWeekId] = useState<number | null>(null);
   const [lbEndMs, setLbEndMs] = useState<number | null>(null);
   const [lbNow, setLbNow] = useState<number>(Date.now());
   const [lbMyRank, setLbMyRank] = useState<number | null>(null);
+  // The player's row with a few neighbours, pinned under the top list.
+  const [lbAround, setLbAround] = useState<{ rank: number; entries: LbEntry[] } | null>(null);
   const [lbKvEnabled, setLbKvEnabled] = useState<boolean | null>(null);
   const [lbUpdating, setLbUpdating] = useState(false);
   const [lbCurrentWeekId, setLbCurrentWeekId] = useState<number | null>(null);
+  const [lbDifficulty, setLbDifficulty] = useState<Difficulty>("easy");
+  // Week being browsed (null = current week) + snapshotted weeks for the picker.
+  const [lbViewWeek, setLbViewWeek] = useState<number | null>(null);
+  const [lbBoard, setLbBoard] = useState<"weekly" | "allTime">("weekly");
+  const [lbWeeks, setLbWeeks] = useState<LbWeekSummary[]>([]);
   const lbRolloverForEndRef = useRef<number | null>(null);
 
   // Avoid extra network refreshes caused by effect re-runs when lbEndMs changes.
@@ -161,7 +217,11 @@ export default function GameClient() {
     return `${m}m ${ss}s`;
   }
 
-  async function loadLeaderboard(weekOverride?: number) {
+  function fmtDay(ms: number) {
+    return new Date(ms).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+  }
+
+  async function loadLeaderboard(weekOverride: number | null = lbViewWeek) {
     try {
       setLbErr("");
       const initial = lbTop.length === 0;
@@ -169,7 +229,28 @@ export default function GameClient() {
       else setLbUpdating(true);
       lbLoadingRef.current = true;
       const params = new URLSearchParams();
-      if (account) params.set("account", account);
+      params.set("chainId", String(chainId));
+      if (account) {
+        params.set("account", account);
+        params.set("around", account);
+        params.set("radius", String(LB_PIN_RADIUS));
+      }
+
+      if (lbBoard === "allTime") {
+        const res = await fetch(`/api/leaderboard/all-time?${params.toString()}`, { cache: "no-store" });
+        const data: any = await res.json().catch(() => null);
+        if (!res.ok) {
+          throw new Error(data?.message || data?.error || `Failed to load leaderboard (HTTP ${res.status})`);
+        }
+        lbEndMsRef.current = null;
+        setLbTop(data?.top || []);
+        setLbMyRank(typeof data?.myRank === "number" ? data.myRank : null);
+        setLbAround(data?.around ?? null);
+        setLbKvEnabled(Boolean(data?.kvEnabled));
+        return;
+      }
+
+      params.set("difficulty", lbDifficulty);
       if (typeof weekOverride === "number" && Number.isFinite(weekOverride)) params.set("week", String(weekOverride));
       const qs = params.toString();
       const res = await fetch(`/api/leaderboard${qs ? `?${qs}` : ""}`, { cache: "no-store" });
@@ -189,6 +270,7 @@ export default function GameClient() {
       lbEndMsRef.current = typeof data.weekEndMs === "number" ? data.weekEndMs : null;
       setLbTop(data.top || []);
       setLbMyRank(typeof data.myRank === "number" ? data.myRank : null);
+      setLbAround(data.around ?? null);
       setLbKvEnabled(Boolean(data.kvEnabled));
     } catch (e: any) {
       setLbErr(e?.message || "Failed to load leaderboard");
@@ -205,12 +287,13 @@ export default function GameClient() {
     // Network refresh cadence: keep it gentle.
     const LB_REFRESH_MS = 15_000;
 
-    // Always start by loading the current week.
+    // Load the browsed week (current week unless picked otherwise).
     loadLeaderboard();
 
+    // Past weeks are immutable snapshots: only the current week (and all-time) auto-refresh.
+    const viewingCurrent = lbBoard === "allTime" || lbViewWeek == null;
+
     const refresh = setInterval(() => {
-      // Only auto-refresh when viewing the current week.
-      const viewingCurrent = lbCurrentWeekId == null || lbWeekId == null || lbCurrentWeekId === lbWeekId;
       if (viewingCurrent) loadLeaderboard();
     }, LB_REFRESH_MS);
 
@@ -218,7 +301,6 @@ export default function GameClient() {
     const tick = setInterval(() => {
       setLbNow(Date.now());
 
-      const viewingCurrent = lbCurrentWeekId == null || lbWeekId == null || lbCurrentWeekId === lbWeekId;
       if (!viewingCurrent) return;
 
       // When the week rolls over, refresh exactly once.
@@ -234,20 +316,154 @@ export default function GameClient() {
       clearInterval(tick);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [lbOpen, account, lbWeekId, lbCurrentWeekId]);
+  }, [lbOpen, account, chainId, lbViewWeek, lbDifficulty, lbBoard]);
+
+  useEffect(() => {
+    if (!lbOpen || lbBoard !== "weekly") return;
+    let cancelled = false;
+
+    // Week picker options. A failure just leaves the picker with "This week".
+    (async () => {
+      try {
+        const res = await fetch(`/api/leaderboard/weeks?chainId=${chainId}&difficulty=${lbDifficulty}`, { cache: "no-store" });
+        const data: any = await res.json();
+        if (!cancelled && res.ok && Array.isArray(data?.weeks)) setLbWeeks(data.weeks);
+      } catch {
+        // ignore
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+    // Re-fetch when the current week changes so a fresh snapshot shows up.
+  }, [lbOpen, chainId, lbDifficulty, lbCurrentWeekId, lbBoard]);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        if (!(await sdk.isInMiniApp())) return;
+        const user = (await sdk.context)?.user;
+        if (!cancelled && user) setMiniUser({ username: user.username, pfpUrl: user.pfpUrl });
+      } catch {
+        // not in a mini app
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  function openLeaderboard() {
+    // Start on this week's board for the difficulty the player is on.
+    if (lbDifficulty !== difficultyRef.current || lbViewWeek != null) {
+      setLbTop([]);
+      setLbDifficulty(difficultyRef.current);
+      setLbViewWeek(null);
+    }
+    setLbOpen(true);
+  }
+
+  function lbName(e: { address: string; username?: string | null; basename?: string | null }) {
+    if (e.username) return `@${e.username}`;
+    if (e.basename) return e.basename;
+    return `${e.address.slice(0, 6)}…${e.address.slice(-4)}`;
+  }
+
+  function renderLbRow(e: LbEntry) {
+    const isMe = account != null && e.address.toLowerCase() === account.toLowerCase();
+    const row = isMe && !e.username && miniUser ? { ...e, ...miniUser } : e;
+    return (
+      <div className={"dwLbRow" + (isMe ? " isMe" : "")} key={e.address}>
+        <span className="dwLbRank">{e.rank}</span>
+        <span className="dwLbAddr" title={e.address}>
+          {row.pfpUrl && <img className="dwLbPfp" src={row.pfpUrl} alt="" loading="lazy" />}
+          <span className="dwLbName">{lbName(row)}</span>
+        </span>
+        <span className="dwLbScore">{e.score}</span>
+      </div>
+    );
+  }
+
+  function selectLbBoard(board: "weekly" | "allTime") {
+    if (board === lbBoard) return;
+    setLbTop([]);
+    setLbMyRank(null);
+    setLbAround(null);
+    setLbBoard(board);
+  }
+
+  function selectLbWeek(weekId: number | null) {
+    if (weekId === lbViewWeek) return;
+    setLbTop([]);
+    setLbMyRank(null);
+    setLbAround(null);
+    setLbViewWeek(weekId);
+  }
+
+  // Prev/next step through snapshotted weeks (lbWeeks is newest first).
+  const lbPrevWeek = lbWeeks.find((w) => lbViewWeek == null || w.weekId < lbViewWeek)?.weekId ?? null;
+  const lbNextWeek =
+    lbViewWeek == null ? undefined : ([...lbWeeks].reverse().find((w) => w.weekId > lbViewWeek)?.weekId ?? null);
+
+  function selectLbDifficulty(d: Difficulty) {
+    if (d === lbDifficulty) return;
+    setLbTop([]);
+    setLbMyRank(null);
+    setLbAround(null);
+    setLbDifficulty(d);
+  }
 
 
 
   // Tracks whether the current run’s score has been saved at least once (UI only).
   const [savedThisRun, setSavedThisRun] = useState(false);
   const saveLockRef = useRef(false);
+  // Finished runs not saved onchain yet ("Save all" sends them in one batch).
+  const [unsavedRuns, setUnsavedRuns] = useState<UnsavedRun[]>([]);
+  // Sponsored (gas-free) saves left today; null when unknown or the chain has no paymaster.
+  const [freeSaves, setFreeSaves] = useState<{ remaining: number; limit: number } | null>(null);
+  const currentRunIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    setUnsavedRuns(readUnsavedRuns());
+  }, []);
 
   const canChain = useMemo(() => hasScoreboard(), []);
   const canSave = useMemo(() => canChain && Boolean(account), [canChain, account]);
 
-  // Difficulty picker (single button + dropdown for a clean top bar).
+  // Engine events (kills, bosses, power-ups, death), drained every frame and
+  // dispatched to sound, haptics, run stats and achievements.
+  const events = useMemo(() => createGameEventBus(), []);
+  const runStatsRef = useRef<RunStatsTracker | null>(null);
+  const [runStats, setRunStats] = useState<RunStats | null>(null);
+  useEffect(() => {
+    // Run stats subscribe first, so achievements see each event already counted.
+    const stats = trackRunStats(events);
+    runStatsRef.current = stats;
+    const offs = [
+      stats.detach,
+      trackAchievements(events, stats, (a) => setStatus(`Achievement unlocked: ${a.label} (${a.description})`)),
+      attachHaptics(events),
+      events.on("EnemyKilled", () => playSound("pop")),
+      events.on("BossKilled", () => {
+        playSound("powerup");
+        setTimeout(() => playSound("pop"), 150);
+      }),
+      events.on("PowerupCollected", () => playSound("powerup")),
+      events.on("Died", () => playSound("pop")),
+    ];
+    return () => {
+      offs.forEach((off) => off());
+      runStatsRef.current = null;
+    };
+  }, [events]);
+
+  // Difficulty and theme pickers (single button + dropdown for a clean top bar).
   const [diffOpen, setDiffOpen] = useState(false);
   const diffWrapRef = useRef<HTMLDivElement | null>(null);
+  const [themeOpen, setThemeOpen] = useState(false);
+  const themeWrapRef = useRef<HTMLDivElement | null>(null);
   useEffect(() => {
     const onPointerDown = (e: Event) => {
       const t = e.target as Node | null;
@@ -255,12 +471,18 @@ export default function GameClient() {
       if (diffWrapRef.current && !diffWrapRef.current.contains(t)) {
         setDiffOpen(false);
       }
+      if (themeWrapRef.current && !themeWrapRef.current.contains(t)) {
+        setThemeOpen(false);
+      }
     };
     window.addEventListener("pointerdown", onPointerDown);
     return () => window.removeEventListener("pointerdown", onPointerDown);
   }, []);
 
   const engineRef = useRef<GameEngineInstance | null>(null);
+  // Flat-buffer view of the engine state; null on engines without write_frame().
+  const stateReaderRef = useRef<StateReader | null>(null);
+  const eventDrainRef = useRef<EventDrain | null>(null);
   // Lightweight TS-side ref for canvas dimensions, pointer tracking, and score (synced from WASM).
   const g = useRef({
     w: 0,
@@ -269,8 +491,29 @@ export default function GameClient() {
     tx: 0,
     dragging: false,
     score: 0,
+    // Engine time is ms since the last reset, quantised so replays are exact.
+    runStart: 0,
+    runT: 0,
   });
 
+  // Replay of the run in progress, and the encoded replay of the last finished run.
+  const recorderRef = useRef<ReplayRecorder | null>(null);
+  const lastReplayRef = useRef<string | null>(null);
+  // Server-issued seed for the next run, fetched ahead so starting never waits on it.
+  const nextSeedRef = useRef<number | null>(null);
+  // Difficulty of the last started run (the picker can change after game over).
+  const runDifficultyRef = useRef<Difficulty>("easy");
+
+  async function prefetchRunSeed() {
+    const seed = await fetchRunSeed();
+    if (seed !== null && nextSeedRef.current === null) nextSeedRef.current = seed;
+  }
+
+  useEffect(() => {
+    void prefetchRunSeed();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   function setPhaseSafe(p: Phase) {
     phaseRef.current = p;
     setPhase(p);
@@ -284,9 +527,11 @@ export default function GameClient() {
     if (!a) throw new Error("No account");
     setAccount(a);
     setStatus("Wallet connected");
+    const c = await walletChainId(eth);
+    setChainId(c);
 
     if (canChain) {
-      const b = await readBestScore(a);
+      const b = await readBestScore(a, c);
       if (typeof b === "number") setBestUi(b);
     }
   }
@@ -340,7 +585,42 @@ export default function GameClient() {
   }
 
   async function saveScoreOnchain(score: number, restartAfter: boolean) {
-    if (!canChain) return;
+    // The finished run is normally in the unsaved buffer (with its replay).
+    const buffered = unsavedRuns.find((r) => r.id === currentRunIdRef.current);
+    const run: UnsavedRun = buffered ?? {
+      id: "",
+      score,
+      difficulty: runDifficultyRef.current,
+      replay: lastReplayRef.current,
+      endedAt: Date.now(),
+    };
+    await saveRunsOnchain([run], restartAfter);
+  }
+
+  // "Save all": every unsaved run in one sponsored batch when the wallet supports it.
+  async function saveAllOnchain() {
+    await saveRunsOnchain(readUnsavedRuns(), false);
+  }
+
+  async function loadFreeSaves() {
+    if (!account) return setFreeSaves(null);
+    try {
+      const r = await fetch(`/api/paymaster/quota?chainId=${chainId}&account=${account}`, { cache: "no-store" });
+      const d: any = await r.json();
+      setFreeSaves(r.ok && d?.enabled ? { remaining: d.remaining, limit: d.limit } : null);
+    } catch {
+      setFreeSaves(null);
+    }
+  }
+
+  useEffect(() => {
+    if (phase !== "over" || !canChain) return;
+    loadFreeSaves();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [phase, canChain, account, chainId]);
+
+  async function saveRunsOnchain(runs: UnsavedRun[], restartAfter: boolean) {
+    if (!canChain || runs.length === 0) return;
     if (!account) {
       setStatus("Connect wallet to save your score onchain.");
       return;
@@ -351,40 +631,99 @@ export default function GameClient() {
     saveLockRef.current = true;
 
     setSaving(true);
-    setStatus("Saving score onchain…");
+    setStatus(runs.length > 1 ? `Saving ${runs.length} runs onchain…` : "Saving score onchain…");
     try {
-      const { hash } = await submitScore(score);
+      // Hand the replays to the server first so the scores are verified by the time
+      // the ScoreSubmitted events are ingested (leaderboard POST or the chain sync).
+      for (const run of runs) {
+        if (!run.replay) continue;
+        try {
+          const r = await fetch("/api/replay/verify", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ account, score: run.score, replay: run.replay, chainId }),
+          });
+          if (!r.ok) console.warn("[replay] verification failed", await r.text());
+        } catch {
+          // ignore: the onchain save still goes through
+        }
+      }
+
+      const { hashes, savedRuns, chainId: savedOn } = await submitScores(
+        runs.map((r) => ({ score: r.score, difficulty: r.difficulty })),
+        // Each run takes one free save: when they don't cover the batch, go straight to a
+        // regular transaction instead of a rejected sponsorship.
+        { gasless: !freeSaves || freeSaves.remaining >= runs.length }
+      );
+      setChainId(savedOn);
+      const saved = runs.slice(0, savedRuns);
+      removeUnsavedRuns(saved.map((r) => r.id));
+      setUnsavedRuns(readUnsavedRuns());
+
+      // The queue confirms each tx and updates the leaderboard, and survives a reload.
+      // An atomic batch is one tx; without batching every run got its own. A wallet
+      // may also split a batch into fewer txs than runs without saying which run
+      // went where: runs are then shared out in order (the server reads each tx's
+      // own events, so this only affects what the pending list shows). Hashes beyond
+      // one per run (e.g. a wallet's own setup tx) carry no run and aren't queued.
+      const share = (i: number) => Math.floor((i * saved.length) / hashes.length);
+      const txs = hashes
+        .map((hash, i) => ({ hash, runs: saved.slice(share(i), share(i + 1)) }))
+        .filter((tx) => tx.runs.length > 0);
+      for (const tx of txs) {
+        const best = tx.runs.reduce((a, b) => (b.score > a.score ? b : a));
+        addPendingSave({
+          txHash: tx.hash,
+          chainId: savedOn,
+          account,
+          score: best.score,
+          difficulty: best.difficulty,
+          runs: tx.runs.length,
+        });
+      }
+      for (const tx of txs.slice(1)) void trackPendingSave(tx.hash);
+
+      const hash = txs[0].hash;
       setStatus(`Tx sent ✓ (${hash.slice(0, 10)}…) • Confirming…`);
-      await waitForReceipt(hash);
 
-      setSavedThisRun(true);
-      setStatus(`Score saved onchain ✓ (${hash.slice(0, 10)}…)`);
+      // This call only waits for the first outcome of the first tx: confirmed, failed or a slow receipt.
+      let firstOutcome!: (s: PendingSave) => void;
+      const settled = new Promise<PendingSave>((r) => (firstOutcome = r));
+      const tracked = trackPendingSave(hash, (s) => {
+        if (s.state !== "sent" || s.error) firstOutcome(s);
+      });
+      void tracked.then((s) => s && firstOutcome(s));
 
-      // Refresh best score from the contract.
-      const b = await readBestScore(account);
+      const first = await settled;
+      if (first.state === "failed") throw new Error(first.error || "Transaction failed");
+      if (first.state === "sent") {
+        setStatus(`Tx sent ✓ (${hash.slice(0, 10)}…) • Still confirming (see pending saves)`);
+        return;
+      }
+
+      if (!currentRunIdRef.current || saved.some((r) => r.id === currentRunIdRef.current)) setSavedThisRun(true);
+      setStatus(
+        saved.length > 1
+          ? `${saved.length} runs saved onchain ✓ (${hash.slice(0, 10)}…)`
+          : `Score saved onchain ✓ (${hash.slice(0, 10)}…)`
+      );
+
+      // Refresh best score from the contract, and the free saves left.
+      const b = await readBestScore(account, savedOn);
       if (typeof b === "number") setBestUi(b);
+      void loadFreeSaves();
 
-      // Update weekly leaderboard (server verifies the tx event).
-      try {
-        const r = await fetch("/api/leaderboard", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ txHash: hash }),
-        });
-        const d = await r.json();
-        if (r.ok && d?.status === "ok") {
-          const rank = typeof d?.myRank === "number" ? d.myRank : null;
-          setStatus(
-            rank
-              ? `Score saved ✓ • Weekly rank #${rank}`
-              : "Score saved ✓ • Leaderboard updated"
-          );
-          // If the leaderboard is open, refresh it.
-          if (lbOpen) loadLeaderboard();
+      // Weekly leaderboard update (server verifies the tx events); retried by the queue while pending.
+      void tracked.then((s) => {
+        if (s?.state !== "indexed") return;
+        if (s.heldForReview) {
+          setStatus("Score saved onchain ✓ • Held for leaderboard review");
+          return;
         }
-      } catch {
-        // ignore leaderboard update errors (score is still onchain)
-      }
+        setStatus(s.rank ? `Score saved ✓ • Weekly rank #${s.rank}` : "Score saved ✓ • Leaderboard updated");
+        // If the leaderboard is open, refresh it.
+        if (lbOpen) loadLeaderboard();
+      });
 
       if (restartAfter) {
         // auto restart after a short beat
@@ -422,8 +761,32 @@ export default function GameClient() {
   }
 
   function resetCore(targetPhase: Phase) {
+    const gg = g.current;
+    // Without a server seed (offline, fetch failed) the run plays fine but its replay won't verify.
+    const seed = targetPhase === "play" && nextSeedRef.current !== null ? nextSeedRef.current : newRunSeed();
+    if (targetPhase === "play") {
+      nextSeedRef.current = null;
+      void prefetchRunSeed();
+    }
+    gg.runStart = performance.now();
+    gg.runT = 0;
+    recorderRef.current = null;
+    lastReplayRef.current = null;
+    currentRunIdRef.current = null;
+    runStatsRef.current?.reset();
+    setRunStats(null);
     if (engineRef.current) {
-      engineRef.current.reset(targetPhase, difficultyRef.current, performance.now());
+      engineRef.current.reset(targetPhase, difficultyRef.current, 0, seed);
+      if (targetPhase === "play") {
+        runDifficultyRef.current = difficultyRef.current;
+        recorderRef.current = createReplayRecorder({
+          seed,
+          difficulty: difficultyRef.current,
+          w: gg.w,
+          h: gg.h,
+          dpr: gg.dpr,
+        });
+      }
     }
     saveLockRef.current = false;
     setSavedThisRun(false);
@@ -445,8 +808,26 @@ export default function GameClient() {
 
   function endGame() {
     if (phaseRef.current !== "play") return;
-    playSound("pop");
     setPhaseSafe("over");
+    setRunStats(runStatsRef.current ? { ...runStatsRef.current.get() } : null);
+
+    // Show the exact final score (the HUD is throttled) and seal the replay.
+    setScoreUi(Math.floor(g.current.score));
+    lastReplayRef.current = recorderRef.current?.encode() ?? null;
+    recorderRef.current = null;
+
+    // Buffer the run so it can still be saved later, alone or with others.
+    const finalScore = Math.floor(g.current.score);
+    if (canChain && finalScore > 0) {
+      const run = addUnsavedRun({
+        score: finalScore,
+        difficulty: runDifficultyRef.current,
+        replay: lastReplayRef.current,
+        endedAt: Date.now(),
+      });
+      currentRunIdRef.current = run.id;
+      setUnsavedRuns(readUnsavedRuns());
+    }
 
     // Manual onchain save: user chooses when to save (avoids forced tx prompts).
     if (canChain) {
@@ -476,6 +857,7 @@ export default function GameClient() {
         if (engineRef.current) {
           try {
             engineRef.current.resize(gg.w, gg.h, gg.dpr);
+            recorderRef.current?.resize(gg.w, gg.h, gg.dpr);
           } catch (e) {
             console.warn("WASM Resize Error:", e);
           }
@@ -487,16 +869,22 @@ export default function GameClient() {
 
     // Load WASM engine asynchronously, then do initial resize + start loop.
     let cancelled = false;
-    loadEngine().then(({ GameEngine }) => {
+    loadEngine().then(({ GameEngine, memory }) => {
       if (cancelled) return;
       if (!engineRef.current) {
         try {
           engineRef.current = new GameEngine();
-          engineRef.current.reset(phaseRef.current, difficultyRef.current, performance.now());
+          gg.runStart = performance.now();
+          gg.runT = 0;
+          engineRef.current.reset(phaseRef.current, difficultyRef.current, 0, newRunSeed());
           engineRef.current.resize(gg.w, gg.h, gg.dpr);
+          stateReaderRef.current = createStateReader(engineRef.current, memory);
+          eventDrainRef.current = createEventDrain(engineRef.current, memory);
         } catch (e) {
           console.error("WASM Init Error:", e);
           engineRef.current = null;
+          stateReaderRef.current = null;
+          eventDrainRef.current = null;
         }
       }
     });
@@ -535,298 +923,55 @@ export default function GameClient() {
     window.addEventListener("pointermove", onMove);
     window.addEventListener("pointerup", onUp);
 
-    // Rendering helpers
-    const drawStars = (ctx: CanvasRenderingContext2D, t: number, starColor: string) => {
-      ctx.save();
-      ctx.fillStyle = starColor;
-      for (let i = 0; i < 30; i++) {
-        const x = (((i * 97) % 1013) / 1013) * gg.w;
-        const y = (((i * 173 + t * 0.03) % 997) / 997) * gg.h;
-        // Draw tiny random marker dots / pluses
-        ctx.fillRect(x, y, 4 * gg.dpr, 4 * gg.dpr);
-      }
-      ctx.restore();
-    };
-
-    const drawPlane = (
-      ctx: CanvasRenderingContext2D,
-      x: number,
-      y: number,
-      scale: number,
-      fill: string,
-      outline: string,
-      flame: boolean,
-      tilt: number,
-      facingDown: boolean
-    ) => {
-      ctx.save();
-      ctx.translate(x, y);
-      ctx.rotate((facingDown ? Math.PI : 0) + tilt);
-      ctx.scale(scale, scale);
-
-      // Jet silhouette (Doodle Style)
-      ctx.fillStyle = fill;
-      ctx.strokeStyle = outline;
-      ctx.lineWidth = 3;
-      ctx.lineJoin = "round";
-
-      ctx.beginPath();
-      ctx.moveTo(0, -30);
-      ctx.lineTo(8, -18);
-      ctx.lineTo(10, -8);
-      ctx.lineTo(28, 0);
-      ctx.lineTo(10, 6);
-      ctx.lineTo(8, 16);
-      ctx.lineTo(8, 22);
-      ctx.lineTo(14, 26);
-      ctx.lineTo(0, 22);
-      ctx.lineTo(-14, 26);
-      ctx.lineTo(-8, 22);
-      ctx.lineTo(-8, 16);
-      ctx.lineTo(-10, 6);
-      ctx.lineTo(-28, 0);
-      ctx.lineTo(-10, -8);
-      ctx.lineTo(-8, -18);
-      ctx.closePath();
-      ctx.fill();
-      ctx.stroke();
-
-      // Fun little cockpit
-      ctx.fillStyle = "#FFF";
-      ctx.beginPath();
-      ctx.ellipse(0, -13, 5, 8, 0, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.stroke();
-
-      // Thruster doodle
-      if (flame) {
-        ctx.fillStyle = "#FFE600";
-        ctx.beginPath();
-        ctx.ellipse(0, 25, 6, 8, 0, 0, Math.PI * 2);
-        ctx.fill();
-        ctx.stroke();
-      }
-
-      ctx.restore();
-    };
-
-    const drawBullet = (ctx: CanvasRenderingContext2D, b: { x: number; y: number }) => {
-      ctx.save();
-      ctx.translate(b.x, b.y);
-
-      // Simple fat bullet doodle
-      ctx.fillStyle = "#FFF";
-      ctx.strokeStyle = "#000";
-      ctx.lineWidth = 3;
-
-      ctx.beginPath();
-      ctx.ellipse(0, 0, 4, 12, 0, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.stroke();
-      
-      ctx.restore();
-    };
+    // Created once per effect run; holds the sprite cache and player trail.
+    const renderer = createRenderer(canvas);
 
-    
     // UI throttle
     let lastUi = performance.now();
 
-    const getThemeColors = () => {
-      return {
-        stars: "#000",
-        bossFill: "#FF3B7C", bossStroke: "#000", bossHp: "#FF3B7C",
-        scoutFill: "#3BEFFF", scoutStroke: "#000",
-        zigzagFill: "#FF9B3B", zigzagStroke: "#000",
-        tankFill: "#9DFF3B", tankStroke: "#000",
-        playerFill: "#FFF", playerStroke: "#000",
-      };
-    };
-
     let raf = 0;
     const loop = (t: number) => {
       raf = requestAnimationFrame(loop);
-      const ctx = canvas.getContext("2d");
-      if (!ctx) return;
-
       if (!engineRef.current) return;
-      let state: any;
+      let state: GameState | FlatGameState;
       try {
+        // Whole-ms, monotonic run time and whole-pixel target: exactly what the replay stores.
+        gg.runT = Math.max(gg.runT, Math.round(t - gg.runStart));
         if (phaseRef.current === "play") {
-          engineRef.current.set_target_x(gg.tx);
+          const tx = Math.round(gg.tx);
+          engineRef.current.set_target_x(tx);
+          recorderRef.current?.frame(gg.runT, tx);
+        }
+        engineRef.current.update(gg.runT);
+        if (stateReaderRef.current) {
+          state = stateReaderRef.current.read();
+        } else {
+          state = engineRef.current.get_state();
+          warnOnGameStateDrift(state);
         }
-        engineRef.current.update(t);
-        state = engineRef.current.get_state();
       } catch (e) {
         console.error("WASM Error:", e);
         return;
       }
       
-      // detect events via score diff
-      const scoreDiff = state.score - (gg.score || 0);
-      if (scoreDiff >= 20 && scoreDiff < 500) {
-        playSound("pop");
-      } else if (scoreDiff >= 500) {
-        playSound("powerup"); // boss kill
-        setTimeout(() => playSound("pop"), 150);
-      } else if (scoreDiff === 50) {
-        playSound("powerup");
-      }
-      
+      // Before endGame(), so the run's stats include how it ended.
+      eventDrainRef.current?.drain(state, gg.runT, events.emit);
+
       // sync internal score
       gg.score = state.score;
 
-      // Rust serde serializes unit enum variants as plain strings
+      // Both paths give the phase as its variant name (see lib/gameState.generated.ts)
       if (state.phase === "Over" && phaseRef.current === "play") {
          endGame();
       }
 
-      ctx.clearRect(0, 0, gg.w, gg.h);
-      canvas.style.backgroundColor = `hsl(${54 - (Math.min(1, state.score / 5000) * 80)}, 87%, 73%)`;
-ctx.save();
-      const shakeAmt = state.shake || 0;
-      if (shakeAmt > 0) {
-        ctx.translate((Math.random() - 0.5) * shakeAmt, (Math.random() - 0.5) * shakeAmt);
-      }
-      
-      const tc = getThemeColors();
-      drawStars(ctx, t, tc.stars);
-      
-      // Powerups
-      if (state.powerups) {
-        ctx.lineWidth = 2.5;
-        ctx.strokeStyle = "#000";
-        for (const p of state.powerups) {
-            ctx.save();
-            ctx.translate(p.x, p.y);
-            const sz = 14 * gg.dpr;
-            
-            ctx.fillStyle = p.t === "Overdrive" ? "#3BEFFF" : "#9DFF3B";
-            
-            ctx.beginPath();
-            ctx.rect(-sz/2, -sz/2, sz, sz);
-            ctx.fill();
-            ctx.stroke();
-            
-            ctx.fillStyle = "#000";
-            ctx.font = "900 " + (10 * gg.dpr) + "px sans-serif";
-            ctx.textAlign = "center";
-            ctx.textBaseline = "middle";
-            ctx.fillText(p.t === "Overdrive" ? "O" : "M", 0, 2 * gg.dpr);
-            ctx.restore();
-        }
-      }
-
-      // Particles (Comic explosions)
-      if (state.particles) {
-        ctx.lineWidth = 2.5;
-        ctx.strokeStyle = "#000";
-        for (const p of state.particles) {
-            const ratio = p.life / p.max_life;
-            const sz = ratio * 12 * gg.dpr;
-            ctx.fillStyle = Math.random() > 0.5 ? "#FF9B3B" : "#FF3B7C";
-            ctx.save();
-            ctx.translate(p.x, p.y);
-            ctx.rotate(p.life * 15);
-            ctx.beginPath();
-            ctx.moveTo(sz, 0);
-            ctx.lineTo(sz/3, sz/3);
-            ctx.lineTo(0, sz);
-            ctx.lineTo(-sz/3, sz/3);
-            ctx.lineTo(-sz, 0);
-            ctx.lineTo(-sz/3, -sz/3);
-            ctx.lineTo(0, -sz);
-            ctx.lineTo(sz/3, -sz/3);
-            ctx.closePath();
-            ctx.fill();
-            ctx.stroke();
-            ctx.restore();
-        }
-      }
-
-      // enemies
-      for (const e of state.enemies) {
-        const isBoss = e.t === "Boss";
-        const isScout = e.t === "Scout";
-        const isZigzag = e.t === "Zigzag";
-        const isTank = e.t === "Tank";
-
-        const tilt = isZigzag ? Math.sin(t * 0.01) * 0.18 : 0;
-
-        if (isBoss) {
-          drawPlane(ctx, e.x, e.y, 1.35 * gg.dpr, tc.bossFill, tc.bossStroke, false, tilt, true);
-          const w = 150 * gg.dpr;
-          const h = 10 * gg.dpr;
-          const x = e.x - w / 2;
-          const y = e.y - 60 * gg.dpr;
-          ctx.save();
-          ctx.globalAlpha = 0.9;
-          ctx.fillStyle = "rgba(255,255,255,.10)";
-          roundRectPath(ctx, x, y, w, h, 999);
-          ctx.fill();
-          const frac = Math.max(0, Math.min(1, e.hp / e.max_hp));
-          ctx.fillStyle = tc.bossHp;
-          roundRectPath(ctx, x, y, w * frac, h, 999);
-          ctx.fill();
-          ctx.restore();
-        } else {
-          let fill = tc.scoutFill;
-          let stroke = tc.scoutStroke;
-          if (isScout) {
-            fill = tc.scoutFill; stroke = tc.scoutStroke;
-          } else if (isZigzag) {
-            fill = tc.zigzagFill; stroke = tc.zigzagStroke;
-          } else if (isTank) {
-            fill = tc.tankFill; stroke = tc.tankStroke;
-          }
-          drawPlane(ctx, e.x, e.y, 1.05 * gg.dpr, fill, stroke, false, tilt, true);
-        }
-      }
-
-      // bullets
-      for (const b of state.bullets) {
-         drawBullet(ctx, b);
-      }
-
-      // Player Trail
-      (gg as any).trail = (gg as any).trail || [];
-      (gg as any).trail.push({x: state.px, y: state.py + 15 * gg.dpr});
-      if ((gg as any).trail.length > 15) (gg as any).trail.shift();
-      
-      ctx.save();
-      ctx.lineWidth = 2 * gg.dpr;
-      ctx.strokeStyle = "rgba(0,0,0,0.4)";
-      ctx.beginPath();
-      for (let i = 0; i < (gg as any).trail.length; i++) {
-          const pt = (gg as any).trail[i];
-          if (i === 0) ctx.moveTo(pt.x, pt.y);
-          else ctx.lineTo(pt.x, pt.y);
-      }
-      ctx.stroke();
-      ctx.restore();
-
-      // player plane
-      const playerTilt = (gg.tx - state.px) / (gg.w * 0.45);
-      const clampTilt = Math.max(-0.22, Math.min(0.22, playerTilt));
-      drawPlane(
-        ctx,
-        state.px,
-        state.py,
-        1.15 * gg.dpr,
-        tc.playerFill,
-        tc.playerStroke,
-        state.flame,
-        clampTilt,
-        false
-      );
-      
-      // Ally Drones
-      if (state.drones) {
-         drawPlane(ctx, state.px - 36 * gg.dpr, state.py + 10 * gg.dpr, 0.6 * gg.dpr, "#9DFF3B", "#000", state.flame, clampTilt, false);
-         drawPlane(ctx, state.px + 36 * gg.dpr, state.py + 10 * gg.dpr, 0.6 * gg.dpr, "#9DFF3B", "#000", state.flame, clampTilt, false);
-      }
-      
-
-      ctx.restore(); // Ensure we restore translation for shake
+      renderer.render({
+        state,
+        theme: THEMES[themeRef.current],
+        viewport: { w: gg.w, h: gg.h, dpr: gg.dpr },
+        t,
+        targetX: gg.tx,
+      });
       
       if (t - lastUi >= 90) {
         lastUi = t;
@@ -865,8 +1010,10 @@ ctx.save();
         const a = accounts?.[0] as `0x${string}` | undefined;
         if (!a) return;
         setAccount(a);
+        const c = await walletChainId(eth);
+        setChainId(c);
         if (canChain) {
-          const b = await readBestScore(a);
+          const b = await readBestScore(a, c);
           if (typeof b === "number") setBestUi(b);
         }
       } catch {
@@ -875,6 +1022,42 @@ ctx.save();
     })();
   }, [canChain]);
 
+  // Follow wallet network switches (an unsupported chain falls back to the default one).
+  useEffect(() => {
+    let eth: Awaited<ReturnType<typeof getEthereumProvider>> = null;
+    let disposed = false;
+    const onChainChanged = async () => {
+      const c = await walletChainId(eth);
+      if (disposed) return;
+      setChainId(c);
+      setLbTop([]);
+      setLbMyRank(null);
+      setLbAround(null);
+    };
+    (async () => {
+      eth = await getEthereumProvider();
+      if (!disposed) eth?.on?.("chainChanged", onChainChanged);
+    })();
+    return () => {
+      disposed = true;
+      eth?.removeListener?.("chainChanged", onChainChanged);
+    };
+  }, [account]);
+
+  // Refresh the onchain best when the chain changes.
+  useEffect(() => {
+    if (!canChain || !account) return;
+    let cancelled = false;
+    readBestScore(account, chainId)
+      .then((b) => {
+        if (!cancelled) setBestUi(typeof b === "number" ? b : null);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [canChain, account, chainId]);
+
   const topBestText = bestUi === null ? "—" : String(bestUi);
   const acctShort = account ? `${account.slice(0, 6)}…${account.slice(-4)}` : "";
 
@@ -889,7 +1072,46 @@ ctx.save();
           
         </div>
         
-        <div className="dwRight">
+        <div className="dwRight dwPickers">
+          {/* Theme (dropdown) */}
+          <div className="dwDiffMenu" ref={themeWrapRef}>
+            <button
+              className="dwBtn dwDiffSelect dwThemeSelect"
+              type="button"
+              onClick={(e) => { e.stopPropagation(); setThemeOpen((v) => !v); }}
+              aria-haspopup="menu"
+              aria-expanded={themeOpen}
+              aria-label="Select theme"
+              title="Theme"
+            >
+              {THEMES[theme].label} <span className="dwCaret">▾</span>
+            </button>
+
+            {themeOpen && (
+              <div className="dwDiffList" role="menu" aria-label="Theme">
+                {THEME_IDS.map((id) => (
+                  <button
+                    key={id}
+                    type="button"
+                    className={"dwDiffItem " + (theme === id ? "isOn" : "")}
+                    role="menuitemradio"
+                    aria-checked={theme === id}
+                    onClick={() => {
+                      chooseTheme(id);
+                      setThemeOpen(false);
+                    }}
+                  >
+                    <div className="dwDiffItemTop">
+                      <div className="dwDiffItemTitle">{THEMES[id].label}</div>
+                      {theme === id && <div className="dwCheck">✓</div>}
+                    </div>
+                    <div className="dwDiffItemSub">{THEMES[id].description}</div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
           {/* Difficulty (dropdown) */}
           <div className="dwDiffMenu" ref={diffWrapRef}>
             <button
@@ -906,7 +1128,7 @@ ctx.save();
 
             {diffOpen && (
               <div className="dwDiffList" role="menu" aria-label="Difficulty">
-                {(["easy", "medium", "hard"] as Difficulty[]).map((d) => (
+                {DIFFICULTIES.map((d) => (
                   <button
                     key={d}
                     type="button"
@@ -982,6 +1204,15 @@ ctx.save();
                 </div>
               </div>
 
+              {runStats && (
+                <div className="dwNote">
+                  {runStats.kills} {runStats.kills === 1 ? "kill" : "kills"}
+                  {runStats.bossesKilled > 0 && ` • ${runStats.bossesKilled} ${runStats.bossesKilled === 1 ? "boss" : "bosses"}`}
+                  {` • ${Object.values(runStats.powerups).reduce((n, c) => n + (c ?? 0), 0)} power-ups`}
+                  {runStats.killedBy && ` • hit by a ${runStats.killedBy}`}
+                </div>
+              )}
+
               <div className="dwRow">
                 <button className="dwBtn dwPrimary" onClick={start} type="button">
                   Play again
@@ -993,7 +1224,7 @@ ctx.save();
 
               {SHOW_LEADERBOARD && (
                 <div className="dwRow">
-                  <button className="dwBtn" onClick={() => setLbOpen(true)} type="button">
+                  <button className="dwBtn" onClick={openLeaderboard} type="button">
                     Leaderboard
                   </button>
                 </div>
@@ -1017,13 +1248,28 @@ ctx.save();
                   )}
                 </div>
               )}
+              {phase === "over" && canChain && account && unsavedRuns.length > 1 && (
+                <div className="dwRow">
+                  <button className="dwBtn" onClick={saving ? () => {} : saveAllOnchain} type="button" disabled={saving}>
+                    Save all ({unsavedRuns.length} runs)
+                  </button>
+                </div>
+              )}
               <div className="dwNote">
                 {canChain ? (
                   <>
                     You can save your score <b>onchain</b> after game over. {account ? "" : "Connect to save."}
+                    {account && freeSaves && (
+                      <>
+                        {" "}
+                        {freeSaves.remaining > 0
+                          ? `${freeSaves.remaining} free ${freeSaves.remaining === 1 ? "save" : "saves"} left today.`
+                          : "No free saves left today; saving costs gas."}
+                      </>
+                    )}
                   </>
                 ) : (
-                  <>Onchain saving is disabled (set NEXT_PUBLIC_SCOREBOARD_ADDRESS).</>
+                  <>Onchain saving is disabled (set NEXT_PUBLIC_SCOREBOARD_ADDRESS or another chain's scoreboard address).</>
                 )}
               </div>
             </div>
@@ -1033,36 +1279,108 @@ ctx.save();
 {SHOW_LEADERBOARD && lbOpen && (
           <div className="dwOverlay dwOverlayTop" onClick={() => setLbOpen(false)}>
             <div className="dwModal" onClick={(e) => e.stopPropagation()}>
-              <div className="dwModalTitle">Weekly Leaderboard</div>
+              <div className="dwModalTitle">
+                {lbBoard === "allTime" ? "All-time Leaderboard" : "Weekly Leaderboard"}
+                {chainConfig(chainId)?.testnet ? ` · ${chainConfig(chainId)?.name}` : ""}
+              </div>
 
-              <div className="dwLbMeta">
-                <div>
-                  <span>Week</span>
-                  <b>#{lbWeekId ?? "—"}</b>
-                  {lbCurrentWeekId != null && lbWeekId != null && lbWeekId !== lbCurrentWeekId && (
-                    <em className="dwLbTag">Snapshot</em>
-                  )}
-                </div>
-                <div style={{ textAlign: "right" }}>
-                  <span>
-                    {lbCurrentWeekId != null && lbWeekId != null && lbWeekId !== lbCurrentWeekId ? "Ended" : "Resets in"}
-                  </span>
-                  <b>
-                    {lbCurrentWeekId != null && lbWeekId != null && lbWeekId !== lbCurrentWeekId
-                      ? "—"
-                      : lbEndMs
-                        ? fmtLeft(lbEndMs - lbNow)
-                        : "…"}
-                  </b>
-                </div>
+              <div className="dwLbTabs" role="tablist" aria-label="Board">
+                {(["weekly", "allTime"] as const).map((b) => (
+                  <button
+                    key={b}
+                    type="button"
+                    role="tab"
+                    aria-selected={lbBoard === b}
+                    className={"dwLbTab " + (lbBoard === b ? "isOn" : "")}
+                    onClick={() => selectLbBoard(b)}
+                  >
+                    {b === "weekly" ? "Weekly" : "All-time"}
+                  </button>
+                ))}
               </div>
 
+              {lbBoard === "weekly" && (
+                <>
+                  <div className="dwLbTabs" role="tablist" aria-label="Difficulty">
+                    {DIFFICULTIES.map((d) => (
+                      <button
+                        key={d}
+                        type="button"
+                        role="tab"
+                        aria-selected={lbDifficulty === d}
+                        className={"dwLbTab " + (lbDifficulty === d ? "isOn" : "")}
+                        onClick={() => selectLbDifficulty(d)}
+                      >
+                        {DIFF[d].label}
+                      </button>
+                    ))}
+                  </div>
+
+                  <div className="dwLbMeta">
+                    <div>
+                      <span>Week</span>
+                      <b>#{lbWeekId ?? "—"}</b>
+                      {lbCurrentWeekId != null && lbWeekId != null && lbWeekId !== lbCurrentWeekId && (
+                        <em className="dwLbTag">Snapshot</em>
+                      )}
+                    </div>
+                    <div style={{ textAlign: "right" }}>
+                      <span>
+                        {lbCurrentWeekId != null && lbWeekId != null && lbWeekId !== lbCurrentWeekId ? "Ended" : "Resets in"}
+                      </span>
+                      <b>
+                        {lbCurrentWeekId != null && lbWeekId != null && lbWeekId !== lbCurrentWeekId
+                          ? lbEndMs
+                            ? fmtDay(lbEndMs)
+                            : "—"
+                          : lbEndMs
+                            ? fmtLeft(lbEndMs - lbNow)
+                            : "…"}
+                      </b>
+                    </div>
+                  </div>
+
+                  <div className="dwLbWeekNav">
+                    <button
+                      className="dwBtn"
+                      type="button"
+                      aria-label="Previous week"
+                      disabled={lbPrevWeek == null}
+                      onClick={() => lbPrevWeek != null && selectLbWeek(lbPrevWeek)}
+                    >
+                      ‹
+                    </button>
+                    <select
+                      className="dwLbWeekSelect"
+                      aria-label="Week"
+                      value={lbViewWeek == null ? "current" : String(lbViewWeek)}
+                      onChange={(e) => selectLbWeek(e.target.value === "current" ? null : Number(e.target.value))}
+                    >
+                      <option value="current">This week</option>
+                      {lbViewWeek != null && !lbWeeks.some((w) => w.weekId === lbViewWeek) && (
+                        <option value={String(lbViewWeek)}>Week #{lbViewWeek}</option>
+                      )}
+                      {lbWeeks.map((w) => (
+                        <option key={w.weekId} value={String(w.weekId)}>
+                          #{w.weekId} · {fmtDay(w.weekStartMs)}–{fmtDay(w.weekEndMs)} ·{" "}
+                          {w.winner ? `${lbName(w.winner)} ${w.winner.score}` : "no scores"} ({w.totalPlayers})
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      className="dwBtn"
+                      type="button"
+                      aria-label="Next week"
+                      disabled={lbNextWeek === undefined}
+                      onClick={() => lbNextWeek !== undefined && selectLbWeek(lbNextWeek)}
+                    >
+                      ›
+                    </button>
+                  </div>
+                </>
+              )}
+
               <div className="dwLbSwitch">
-                {lbCurrentWeekId != null && lbWeekId != null && lbWeekId !== lbCurrentWeekId && (
-                  <button className="dwBtn" onClick={() => loadLeaderboard()}>
-                    This week
-                  </button>
-                )}
                 {process.env.NODE_ENV !== "production" && (
                   <button
                     className="dwBtn"
@@ -1103,15 +1421,13 @@ ctx.save();
                   ) : lbTop.length === 0 ? (
                     <div className="dwLbEmpty">No scores yet. Be the first.</div>
                   ) : (
-                    lbTop.map((e, i) => (
-                      <div className="dwLbRow" key={e.address + i}>
-                        <span className="dwLbRank">{i + 1}</span>
-                        <span className="dwLbAddr">{e.address.slice(0, 6)}…{e.address.slice(-4)}</span>
-                        <span className="dwLbScore">{e.score}</span>
-                      </div>
-                    ))
+                    lbTop.map(renderLbRow)
                   )}
                 </div>
+
+                {!lbLoading && !lbErr && lbAround && lbAround.rank > lbTop.length && (
+                  <div className="dwLbPinned">{lbAround.entries.map(renderLbRow)}</div>
+                )}
               </div>
 
               <div className="dwRow">
@@ -1120,10 +1436,7 @@ ctx.save();
                 </button>
                 <button
                   className="dwBtn"
-                  onClick={() => {
-                    const viewingPast = lbCurrentWeekId != null && lbWeekId != null && lbCurrentWeekId !== lbWeekId;
-                    loadLeaderboard(viewingPast ? lbWeekId! : undefined);
-                  }}
+                  onClick={() => loadLeaderboard()}
                   type="button"
                 >
                   Refresh
@@ -1171,6 +1484,7 @@ ctx.save();
         )}
 
         <div className="dwBottom">
+          <PendingSavesTray />
           <div className="dwStatus">
             {saving ? "Saving…" : status}
           </div>
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/server/adminAuth";
+import { parseChainId } from "@/lib/chains";
+import { readAttributionStats } from "@/lib/server/attribution";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function json(data: any, status = 200) {
+  return NextResponse.json(data, { status });
+}
+
+/**
+ * Ingested scores by ERC-8021 attribution: per source (app, third_party,
+ * direct, unknown) and per builder code.
+ * Query: chainId (default NEXT_PUBLIC_DEFAULT_CHAIN_ID)
+ */
+export async function GET(req: Request) {
+  if (!isAdminRequest(req)) return json({ ok: false, error: "Unauthorized" }, 401);
+
+  const chainId = parseChainId(new URL(req.url).searchParams.get("chainId"));
+  if (chainId === null) return json({ ok: false, error: "Unsupported chainId" }, 400);
+
+  const stats = await readAttributionStats(chainId);
+  const total = Object.values(stats.sources).reduce((n, c) => n + c, 0);
+  return json({ ok: true, chainId, total, ...stats });
+}
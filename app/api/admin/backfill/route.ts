@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/server/adminAuth";
+import { readBackfillState, resetBackfill, startBackfill, stepBackfill } from "@/lib/server/backfill";
+import { parseChainId } from "@/lib/chains";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+function json(data: any, status = 200) {
+  return NextResponse.json(data, { status });
+}
+
+function unauthorized() {
+  return json({ ok: false, error: "Unauthorized" }, 401);
+}
+
+/**
+ * Current backfill progress (null when none was started).
+ * Query: chainId (default NEXT_PUBLIC_DEFAULT_CHAIN_ID)
+ */
+export async function GET(req: Request) {
+  if (!isAdminRequest(req)) return unauthorized();
+  const chainId = parseChainId(new URL(req.url).searchParams.get("chainId"));
+  if (chainId === null) return json({ ok: false, error: "Unsupported chainId" }, 400);
+  return json({ ok: true, state: await readBackfillState(chainId) });
+}
+
+/**
+ * Drives the historical backfill.
+ * Body: { action: "start" | "step" | "reset", chainId?, fromBlock?, maxMs? }
+ * - start: plan a backfill from `fromBlock` (default: the chain's deploy block)
+ * - step:  process ranges for up to `maxMs`; repeat until `state.done`
+ * - reset: forget the current backfill
+ */
+export async function POST(req: Request) {
+  if (!isAdminRequest(req)) return unauthorized();
+
+  let body: any = null;
+  try {
+    body = await req.json();
+  } catch {
+    body = null;
+  }
+
+  const action = body?.action;
+  const chainId = parseChainId(body?.chainId);
+  if (chainId === null) return json({ ok: false, error: "Unsupported chainId" }, 400);
+
+  if (action === "start") {
+    const raw = body?.fromBlock;
+    let fromBlock: bigint | undefined;
+    if (raw !== undefined && raw !== null) {
+      if (!/^\d+$/.test(String(raw))) return json({ ok: false, error: "Invalid fromBlock" }, 400);
+      fromBlock = BigInt(String(raw));
+    }
+    const res = await startBackfill({ chainId, fromBlock });
+    return json(res, res.ok ? 200 : res.state ? 409 : 400);
+  }
+
+  if (action === "step") {
+    const maxMs = Number(body?.maxMs);
+    const res = await stepBackfill({ chainId, maxMs: Number.isFinite(maxMs) && maxMs > 0 ? maxMs : undefined });
+    return json(res, res.ok ? 200 : res.state ? 502 : 400);
+  }
+
+  if (action === "reset") {
+    await resetBackfill(chainId);
+    return json({ ok: true, state: null });
+  }
+
+  return json({ ok: false, error: "Invalid action" }, 400);
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/server/adminAuth";
+import { parseChainId } from "@/lib/chains";
+import { globalDailyLimit, senderDailyLimit } from "@/lib/server/paymasterPolicy";
+import { readPaymasterStats } from "@/lib/server/paymasterStats";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_DAYS = 31;
+
+function json(data: any, status = 200) {
+  return NextResponse.json(data, { status });
+}
+
+/**
+ * Paymaster sponsorship per UTC day, today first: request outcomes, rejection
+ * reasons, estimated gas and the top sponsored senders.
+ * Query: chainId (default NEXT_PUBLIC_DEFAULT_CHAIN_ID), days (default 7, max 31)
+ */
+export async function GET(req: Request) {
+  if (!isAdminRequest(req)) return json({ ok: false, error: "Unauthorized" }, 401);
+
+  const url = new URL(req.url);
+  const chainId = parseChainId(url.searchParams.get("chainId"));
+  if (chainId === null) return json({ ok: false, error: "Unsupported chainId" }, 400);
+  const days = Number(url.searchParams.get("days") ?? 7);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) return json({ ok: false, error: "Invalid days" }, 400);
+
+  const stats = await readPaymasterStats(chainId, days);
+  return json({
+    ok: true,
+    chainId,
+    limits: { perSenderPerDay: senderDailyLimit(), perDay: globalDailyLimit() },
+    totals: {
+      requests: stats.reduce((n, d) => n + d.requests, 0),
+      sponsored: stats.reduce((n, d) => n + (d.outcomes.sponsored ?? 0), 0),
+      rejected: stats.reduce((n, d) => n + (d.outcomes.rejected ?? 0), 0),
+      gasUnits: stats.reduce((n, d) => n + d.gasUnits, 0),
+      estCostGwei: stats.reduce((n, d) => n + d.estCostGwei, 0),
+    },
+    days: stats,
+  });
+}
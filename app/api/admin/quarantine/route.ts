@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { base } from "viem/chains";
+import { isAdminRequest } from "@/lib/server/adminAuth";
+import { listQuarantine, readQuarantined, releaseQuarantined } from "@/lib/server/quarantine";
+import { addToDenylist } from "@/lib/server/antiCheat";
+import { removeAllTimeEntry, upsertAllTimeBest, upsertWeeklyBest } from "@/lib/leaderboard";
+import { supportedChains } from "@/lib/chains";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function json(data: any, status = 200) {
+  return NextResponse.json(data, { status });
+}
+
+function unauthorized() {
+  return json({ ok: false, error: "Unauthorized" }, 401);
+}
+
+/**
+ * Lists scores held back by the anti-cheat pipeline, oldest first.
+ */
+export async function GET(req: Request) {
+  if (!isAdminRequest(req)) return unauthorized();
+
+  const entries = await listQuarantine();
+  entries.sort((a, b) => a.quarantinedAt - b.quarantinedAt);
+  return json({ ok: true, count: entries.length, entries });
+}
+
+/**
+ * Reviews one entry.
+ * Body: { id, action: "approve" | "reject" | "deny" }
+ * - approve: ingest the score as-is
+ * - reject:  drop it
+ * - deny:    drop it, add the address to the denylist and take it off every all-time board
+ */
+export async function POST(req: Request) {
+  if (!isAdminRequest(req)) return unauthorized();
+
+  let body: any = null;
+  try {
+    body = await req.json();
+  } catch {
+    body = null;
+  }
+
+  const id = typeof body?.id === "string" ? body.id : "";
+  const action = body?.action;
+  if (!id) return json({ ok: false, error: "Missing id" }, 400);
+  if (action !== "approve" && action !== "reject" && action !== "deny") {
+    return json({ ok: false, error: "Invalid action" }, 400);
+  }
+
+  const entry = await readQuarantined(id);
+  if (!entry) return json({ ok: false, error: "Not found" }, 404);
+
+  // Approved too late for its week: only the all-time board takes it.
+  let weekClosed = false;
+  if (action === "approve") {
+    const { address, score, tsMs, txHash, difficulty } = entry.candidate;
+    // Entries quarantined before chain tagging all came from Base mainnet.
+    const chainId = entry.candidate.chainId ?? base.id;
+    ({ weekClosed } = await upsertWeeklyBest({ chainId, tsMs, address, score, txHash, difficulty }));
+    await upsertAllTimeBest({ chainId, tsMs, address, score, txHash });
+  } else if (action === "deny") {
+    await addToDenylist(entry.candidate.address);
+    for (const c of supportedChains()) await removeAllTimeEntry(c.id, entry.candidate.address);
+  }
+
+  await releaseQuarantined(id);
+  return json({ ok: true, id, action, weekClosed });
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/server/adminAuth";
+import { publicClientFor } from "@/lib/server/chainClient";
+import { parseChainId } from "@/lib/chains";
+import { rpcMetrics } from "@/lib/rpc";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function json(data: any, status = 200) {
+  return NextResponse.json(data, { status });
+}
+
+/**
+ * Per-endpoint RPC health and usage for this server instance.
+ * `?probe=1` makes one eth_blockNumber call through the failover client first
+ * (`chainId` picks the chain, default NEXT_PUBLIC_DEFAULT_CHAIN_ID).
+ */
+export async function GET(req: Request) {
+  if (!isAdminRequest(req)) return json({ ok: false, error: "Unauthorized" }, 401);
+
+  const url = new URL(req.url);
+  let blockNumber: string | null = null;
+  if (url.searchParams.get("probe") === "1") {
+    const chainId = parseChainId(url.searchParams.get("chainId"));
+    if (chainId === null) return json({ ok: false, error: "Unsupported chainId" }, 400);
+    try {
+      blockNumber = String(await publicClientFor(chainId).getBlockNumber({ cacheTime: 0 }));
+    } catch (err) {
+      return json({ ok: false, error: err instanceof Error ? err.message : String(err), endpoints: rpcMetrics() }, 502);
+    }
+  }
+
+  return json({ ok: true, blockNumber, endpoints: rpcMetrics() });
+}
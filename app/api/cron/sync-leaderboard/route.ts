@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getRedis } from "@/lib/server/redis";
-import { syncLeaderboardFromChain } from "@/lib/server/syncLeaderboard";
+import { syncAllChains } from "@/lib/server/syncLeaderboard";
 import { rolloverIfNeeded, currentWeekId } from "@/lib/leaderboard";
+import { supportedChains } from "@/lib/chains";
 
 export const dynamic = "force-dynamic";
 
@@ -10,8 +10,8 @@ function unauthorized() {
 }
 
 /**
- * Cron endpoint: scans recent blockchain blocks for ScoreSubmitted events
- * and ingests them into the weekly leaderboard.
+ * Cron endpoint: scans recent blocks of every supported chain for
+ * ScoreSubmitted events and ingests them into that chain's leaderboards.
  *
  * Auth: if CRON_SECRET is set, requires Authorization: Bearer <secret>.
  * QStash / Vercel Cron both send this automatically.
@@ -21,25 +21,15 @@ export async function GET(req: NextRequest) {
   const auth = req.headers.get("authorization");
   if (secret && auth !== `Bearer ${secret}`) return unauthorized();
 
-  const redis = getRedis();
-  if (!redis) {
-    return NextResponse.json(
-      {
-        ok: false,
-        error: "Upstash Redis is not configured. Set UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN.",
-      },
-      { status: 500 }
-    );
-  }
-
   // Sync blockchain events into leaderboard
-  const result = await syncLeaderboardFromChain(redis, { maxBlocks: 1200n });
+  const chains = await syncAllChains({ maxBlocks: 1200n });
 
   // Rollover completed weeks (cron-less snapshot)
-  await rolloverIfNeeded(currentWeekId(Date.now()));
+  for (const c of supportedChains()) await rolloverIfNeeded(c.id, currentWeekId(Date.now()));
 
   return NextResponse.json({
-    ...result,
+    ok: chains.every((r) => r.ok),
+    chains,
   });
 }
 
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import {
+  allTimeEntries,
+  allTimeEntriesAround,
+  allTimeRankOf,
+  countAllTimePlayers,
+  isStorageEnabled,
+} from "@/lib/leaderboard";
+import { autoSyncIfDue } from "@/lib/server/syncLeaderboard";
+import { withProfiles } from "@/lib/server/profiles";
+import { parseChainId } from "@/lib/chains";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 100;
+const MAX_RADIUS = 25;
+
+function json(data: any, status = 200) {
+  return NextResponse.json(data, { status });
+}
+
+function intParam(url: URL, name: string, fallback: number) {
+  const raw = url.searchParams.get(name);
+  if (raw === null || raw === "") return fallback;
+  const n = Number(raw);
+  return Number.isInteger(n) ? n : NaN;
+}
+
+/**
+ * All-time board: every player's onchain best, across difficulties.
+ * Query: chainId, offset (default 0), limit (1..100, default 100), account (rank lookup),
+ *        around=<address>&radius=N (window centred on that player, N <= 25)
+ */
+export async function GET(req: Request) {
+  try {
+    // The all-time board is maintained by the chain sync.
+    await autoSyncIfDue();
+
+    const url = new URL(req.url);
+    const chainId = parseChainId(url.searchParams.get("chainId"));
+    if (chainId === null) return json({ error: "Unsupported chainId" }, 400);
+    const offset = intParam(url, "offset", 0);
+    const limit = intParam(url, "limit", DEFAULT_LIMIT);
+    if (!(offset >= 0)) return json({ error: "Invalid offset" }, 400);
+    if (!(limit >= 1 && limit <= MAX_LIMIT)) return json({ error: "Invalid limit" }, 400);
+    const radius = intParam(url, "radius", 5);
+    if (!(radius >= 0 && radius <= MAX_RADIUS)) return json({ error: "Invalid radius" }, 400);
+
+    const around = url.searchParams.get("around");
+    if (around !== null && !/^0x[0-9a-fA-F]{40}$/.test(around)) return json({ error: "Invalid around" }, 400);
+
+    const account = url.searchParams.get("account");
+
+    const entries = await allTimeEntries(chainId, limit, offset);
+    const me = account ? await allTimeRankOf(chainId, account) : null;
+    const win = around ? await allTimeEntriesAround(chainId, around, radius) : null;
+
+    return json({
+      kind: "all-time",
+      chainId,
+      offset,
+      limit,
+      totalPlayers: await countAllTimePlayers(chainId),
+      top: await withProfiles(entries.map((e, i) => ({ rank: offset + i + 1, address: e.address, score: e.score }))),
+      myRank: me?.rank ?? null,
+      myScore: me?.score ?? null,
+      around: win
+        ? {
+            rank: win.rank,
+            entries: await withProfiles(win.entries.map((e) => ({ rank: e.rank, address: e.address, score: e.score }))),
+          }
+        : null,
+      kvEnabled: isStorageEnabled(),
+    });
+  } catch (err) {
+    console.error("[leaderboard:all-time]", err);
+    return json({ error: "Internal error", message: err instanceof Error ? err.message.slice(0, 200) : String(err) }, 500);
+  }
+}
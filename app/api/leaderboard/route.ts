@@ -1,6 +1,5 @@
 import { NextResponse } from "next/server";
-import { createPublicClient, decodeEventLog, http } from "viem";
-import { base } from "viem/chains";
+import { decodeEventLog } from "viem";
 import { scoreboardAbi } from "@/lib/scoreboardAbi";
 import { storageDebugInfo } from "@/lib/storage";
 import {
@@ -10,15 +9,20 @@ import {
   rankOf,
   rolloverIfNeeded,
   topEntries,
-  upsertWeeklyBest,
+  type RankedEntry,
+  weekIdFromTs,
   weekWindowFromId,
 } from "@/lib/leaderboard";
 import { autoSyncIfDue } from "@/lib/server/syncLeaderboard";
+import { publicClientFor, scoreboardAddressFor } from "@/lib/server/chainClient";
+import { ingestScoreLog } from "@/lib/server/scoreLogs";
+import { withProfiles } from "@/lib/server/profiles";
+import { isDifficulty, type Difficulty } from "@/lib/difficulty";
+import { parseChainId } from "@/lib/chains";
 
 export const runtime = "nodejs";
 
-const RPC_URL = process.env.NEXT_PUBLIC_BASE_RPC_URL || "https://mainnet.base.org";
-const SCOREBOARD_ADDRESS = process.env.NEXT_PUBLIC_SCOREBOARD_ADDRESS as `0x${string}` | undefined;
+const DEFAULT_DIFFICULTY: Difficulty = "easy";
 
 function json(data: any, status = 200) {
   return NextResponse.json(data, { status });
@@ -50,12 +54,25 @@ function errorJson(where: string, err: unknown) {
   );
 }
 
-function rankInTop(top: Array<{ address: string }>, account: string) {
-  const a = account.toLowerCase();
-  const idx = top.findIndex((e) => e.address.toLowerCase() === a);
-  return idx >= 0 ? idx + 1 : null;
+const MAX_LIMIT = 100;
+const MAX_RADIUS = 25;
+
+function intParam(url: URL, name: string, fallback: number) {
+  const raw = url.searchParams.get(name);
+  if (raw === null || raw === "") return fallback;
+  const n = Number(raw);
+  return Number.isInteger(n) ? n : NaN;
+}
+
+function publicEntry(e: RankedEntry) {
+  return { rank: e.rank, address: e.address, score: e.score };
 }
 
+/**
+ * Query: chainId (default NEXT_PUBLIC_DEFAULT_CHAIN_ID), difficulty, week, account (rank lookup),
+ *        offset/limit (page through the ranking, limit <= 100),
+ *        around=<address>&radius=N (window centred on that player, N <= 25)
+ */
 export async function GET(req: Request) {
   try {
     // Auto-sync: every 3 minutes, scan recent blocks for ScoreSubmitted events.
@@ -66,46 +83,85 @@ export async function GET(req: Request) {
     const nowMs = Date.now();
     const nowWeek = currentWeekId(nowMs);
 
+    const chainId = parseChainId(url.searchParams.get("chainId"));
+    if (chainId === null) return json({ error: "Unsupported chainId" }, 400);
+
     const weekParam = url.searchParams.get("week");
     const requestedWeek = weekParam ? Number(weekParam) : nowWeek;
     if (!Number.isFinite(requestedWeek) || requestedWeek < 0) return json({ error: "Invalid week" }, 400);
 
+    const difficultyParam = url.searchParams.get("difficulty") ?? DEFAULT_DIFFICULTY;
+    if (!isDifficulty(difficultyParam)) return json({ error: "Invalid difficulty" }, 400);
+    const difficulty = difficultyParam;
+
     const account = url.searchParams.get("account");
 
-    const view = await getWeekLeaderboardView({ weekId: requestedWeek, nowWeekId: nowWeek });
+    const offset = intParam(url, "offset", 0);
+    const limit = intParam(url, "limit", MAX_LIMIT);
+    const radius = intParam(url, "radius", 5);
+    if (!(offset >= 0)) return json({ error: "Invalid offset" }, 400);
+    if (!(limit >= 1 && limit <= MAX_LIMIT)) return json({ error: "Invalid limit" }, 400);
+    if (!(radius >= 0 && radius <= MAX_RADIUS)) return json({ error: "Invalid radius" }, 400);
+
+    const around = url.searchParams.get("around");
+    if (around !== null && !/^0x[0-9a-fA-F]{40}$/.test(around)) return json({ error: "Invalid around" }, 400);
+
+    const view = await getWeekLeaderboardView({
+      chainId,
+      difficulty,
+      weekId: requestedWeek,
+      nowWeekId: nowWeek,
+      offset,
+      limit,
+      around,
+      radius,
+      account,
+    });
+    const top = await withProfiles(view.top.map(publicEntry));
+    const aroundJson = view.around
+      ? { rank: view.around.rank, entries: await withProfiles(view.around.entries.map(publicEntry)) }
+      : null;
 
     if (view.kind === "snapshot") {
       return json({
         kind: view.kind,
+        chainId,
+        difficulty,
         weekId: view.weekId,
         currentWeekId: nowWeek,
         weekStartMs: view.weekStartMs,
         weekEndMs: view.weekEndMs,
         nowMs,
         secondsRemaining: 0,
-        top: view.top.map((e) => ({ address: e.address, score: e.score })),
-        myRank: account ? rankInTop(view.top, account) : null,
+        offset,
+        limit,
+        top,
+        myRank: view.myRank,
+        around: aroundJson,
         totalPlayers: view.totalPlayers,
         kvEnabled: isStorageEnabled(),
       });
     }
 
-    // live
+    // live: rank comes from the sorted set, so players outside the top 100 get one too
     const { startMs, endMs } = weekWindowFromId(view.weekId);
-    const top = topEntries(view.store, 100).map((e) => ({ address: e.address, score: e.score }));
-    const myRank = account ? rankOf(view.store, account) : null;
 
     return json({
       kind: view.kind,
+      chainId,
+      difficulty,
       weekId: view.weekId,
       currentWeekId: nowWeek,
       weekStartMs: startMs,
       weekEndMs: endMs,
       nowMs,
       secondsRemaining: Math.max(0, Math.floor((endMs - nowMs) / 1000)),
+      offset,
+      limit,
       top,
-      myRank,
-      totalPlayers: Object.keys(view.store.entries).length,
+      myRank: view.myRank,
+      around: aroundJson,
+      totalPlayers: view.totalPlayers,
       kvEnabled: isStorageEnabled(),
     });
   } catch (err) {
@@ -113,10 +169,15 @@ export async function GET(req: Request) {
   }
 }
 
+/**
+ * Body: { txHash, chainId? } — chainId is the chain the tx was sent on
+ * (default NEXT_PUBLIC_DEFAULT_CHAIN_ID); the score lands on that chain's boards.
+ * Every ScoreSubmitted log of the tx is ingested (batched saves carry several);
+ * `scores` lists each one's outcome ("ok", "quarantined", or "week_closed" for an
+ * accepted score whose week was already closed), the rest describes the best accepted one.
+ */
 export async function POST(req: Request) {
   try {
-    if (!SCOREBOARD_ADDRESS) return json({ error: "Scoreboard not configured" }, 400);
-
     let body: any = null;
     try {
       body = await req.json();
@@ -124,14 +185,17 @@ export async function POST(req: Request) {
       body = null;
     }
 
+    const chainId = parseChainId(body?.chainId);
+    if (chainId === null) return json({ error: "Unsupported chainId" }, 400);
+    const scoreboard = scoreboardAddressFor(chainId);
+    if (!scoreboard) return json({ error: "Scoreboard not configured" }, 400);
+
     const txHash = (body?.txHash || "").toString() as `0x${string}`;
     if (!/^0x[0-9a-fA-F]{64}$/.test(txHash)) return json({ error: "Invalid txHash" }, 400);
 
-    const client = createPublicClient({ chain: base, transport: http(RPC_URL) });
-
     let receipt: any;
     try {
-      receipt = await client.getTransactionReceipt({ hash: txHash });
+      receipt = await publicClientFor(chainId).getTransactionReceipt({ hash: txHash });
     } catch {
       // Pending or not found yet.
       return json({ status: "pending", message: "Transaction not found yet. Try again in a few seconds." }, 202);
@@ -141,14 +205,13 @@ export async function POST(req: Request) {
       return json({ error: "Transaction failed" }, 400);
     }
 
-    // Find ScoreSubmitted event emitted by the scoreboard.
-    let player: `0x${string}` | null = null;
-    let score: number | null = null;
-    let tsSec: number | null = null;
+    // Every ScoreSubmitted event emitted by the scoreboard: a batched save
+    // (wallet_sendCalls) carries one per run.
+    const events: Array<{ player: `0x${string}`; score: number; newBest: number; tsSec: number; logIndex: number }> = [];
 
     for (const log of receipt.logs || []) {
       if (!log?.address) continue;
-      if (log.address.toLowerCase() !== SCOREBOARD_ADDRESS.toLowerCase()) continue;
+      if (log.address.toLowerCase() !== scoreboard.toLowerCase()) continue;
 
       try {
         const decoded = decodeEventLog({
@@ -159,44 +222,87 @@ export async function POST(req: Request) {
 
         if (decoded.eventName === "ScoreSubmitted") {
           const args: any = decoded.args;
-          player = args.player as `0x${string}`;
-          score = Number(args.score);
-          tsSec = Number(args.timestamp);
-          break;
+          events.push({
+            player: args.player as `0x${string}`,
+            score: Number(args.score),
+            newBest: Number(args.newBest),
+            tsSec: Number(args.timestamp),
+            logIndex: Number(log.logIndex),
+          });
         }
       } catch {
         // ignore non-matching logs
       }
     }
 
-    if (!player || score == null || tsSec == null) {
+    if (events.length === 0) {
       return json({ error: "No ScoreSubmitted event found in tx" }, 400);
     }
 
-    const tsMs = tsSec * 1000;
+    // 1) Ingest each score into the week implied by the onchain timestamp (idempotent
+    //    per log, shared with the chain sync). Anti-cheat runs first: rejected scores
+    //    go to quarantine for admin review. The board (difficulty) comes from a
+    //    verified replay or the calldata tag.
+    const results = [];
+    for (const e of events) {
+      const tsMs = e.tsSec * 1000;
+      const ingested = await ingestScoreLog(
+        {
+          chainId,
+          txHash,
+          logIndex: e.logIndex,
+          blockNumber: Number(receipt.blockNumber),
+          player: e.player,
+          score: e.score,
+          newBest: e.newBest,
+          tsMs,
+        },
+        "post"
+      );
+      results.push({ ...e, tsMs, ingested });
+    }
 
-    // 1) Ingest the score into the week implied by the onchain timestamp.
-    const { weekId, store } = await upsertWeeklyBest({
-      tsMs,
-      address: player,
-      score,
-      txHash,
-    });
+    // The response describes the best accepted score of the tx.
+    const accepted = results
+      .filter((r) => r.ingested.outcome !== "quarantined")
+      .sort((a, b) => b.score - a.score);
+    const scores = results.map((r) => ({
+      logIndex: r.logIndex,
+      score: r.score,
+      difficulty: r.ingested.difficulty,
+      weekId: r.ingested.weekId,
+      status: r.ingested.outcome === "quarantined" ? "quarantined" : r.ingested.weekClosed ? "week_closed" : "ok",
+      reason: r.ingested.reason,
+      attribution: r.ingested.attribution?.source,
+    }));
+    if (accepted.length === 0) {
+      return json(
+        { status: "quarantined", error: "Score held for review", reason: results[0].ingested.reason, scores },
+        422
+      );
+    }
+    const best = accepted[0];
+    const { player, score, tsMs } = best;
+    const { difficulty } = best.ingested;
+    const weekId = weekIdFromTs(tsMs);
 
     // 2) Then rollover/snapshot based on *server now* (cron-less), AFTER ingestion.
-    await rolloverIfNeeded(currentWeekId(Date.now()));
+    await rolloverIfNeeded(chainId, currentWeekId(Date.now()));
 
     const { startMs, endMs } = weekWindowFromId(weekId);
 
     return json({
       status: "ok",
+      chainId,
+      difficulty,
       weekId,
       currentWeekId: currentWeekId(Date.now()),
       weekStartMs: startMs,
       weekEndMs: endMs,
-      top: topEntries(store, 100).map((e) => ({ address: e.address, score: e.score })),
-      myRank: rankOf(store, player),
-      saved: { address: player, score, tsMs, txHash },
+      top: (await topEntries(chainId, difficulty, weekId, 100)).map((e) => ({ address: e.address, score: e.score })),
+      myRank: await rankOf(chainId, difficulty, weekId, player),
+      saved: { address: player, score, tsMs, txHash, difficulty, chainId },
+      scores,
     });
   } catch (err) {
     return errorJson("POST", err);
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { currentWeekId, listWeekSnapshots, rolloverIfNeeded, weekWindowFromId } from "@/lib/leaderboard";
+import { isDifficulty, type Difficulty } from "@/lib/difficulty";
+import { resolveProfiles } from "@/lib/server/profiles";
+import { parseChainId } from "@/lib/chains";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const DEFAULT_DIFFICULTY: Difficulty = "easy";
+const MAX_LIMIT = 520;
+
+function json(data: any, status = 200) {
+  return NextResponse.json(data, { status });
+}
+
+/**
+ * Past weeks available for a board (the snapshot index), newest first.
+ * Query: chainId, difficulty=easy|medium|hard, limit (default 52)
+ */
+export async function GET(req: Request) {
+  try {
+    const url = new URL(req.url);
+
+    const chainId = parseChainId(url.searchParams.get("chainId"));
+    if (chainId === null) return json({ error: "Unsupported chainId" }, 400);
+
+    const difficultyParam = url.searchParams.get("difficulty") ?? DEFAULT_DIFFICULTY;
+    if (!isDifficulty(difficultyParam)) return json({ error: "Invalid difficulty" }, 400);
+    const difficulty = difficultyParam;
+
+    const limitParam = url.searchParams.get("limit");
+    const limit = limitParam ? Number(limitParam) : 52;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) return json({ error: "Invalid limit" }, 400);
+
+    const nowWeek = currentWeekId();
+    await rolloverIfNeeded(chainId, nowWeek);
+
+    const weeks = await listWeekSnapshots(chainId, difficulty, limit);
+    const profiles = await resolveProfiles(weeks.flatMap((w) => (w.winner ? [w.winner.address] : [])));
+    const { startMs, endMs } = weekWindowFromId(nowWeek);
+
+    return json({
+      chainId,
+      difficulty,
+      currentWeekId: nowWeek,
+      currentWeekStartMs: startMs,
+      currentWeekEndMs: endMs,
+      weeks: weeks.map((w) => ({
+        weekId: w.weekId,
+        weekStartMs: w.weekStartMs,
+        weekEndMs: w.weekEndMs,
+        totalPlayers: w.totalPlayers,
+        winner: w.winner
+          ? { address: w.winner.address, score: w.winner.score, ...profiles[w.winner.address.toLowerCase()] }
+          : null,
+      })),
+    });
+  } catch (err) {
+    console.error("[leaderboard:weeks]", err);
+    return json({ error: "Internal error", message: err instanceof Error ? err.message.slice(0, 200) : String(err) }, 500);
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { parseChainId } from "@/lib/chains";
+import { paymasterUpstreamFor } from "@/lib/server/chainClient";
+import { readSponsorQuota } from "@/lib/server/paymasterPolicy";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function json(data: any, status = 200) {
+  return NextResponse.json(data, { status });
+}
+
+/**
+ * Free (sponsored) saves an account has left today: one per submitted run, so a
+ * batch of runs takes as many as it carries.
+ * Query: account, chainId (default NEXT_PUBLIC_DEFAULT_CHAIN_ID)
+ * `enabled` is false when this chain has no paymaster configured.
+ */
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const chainId = parseChainId(url.searchParams.get("chainId"));
+  if (chainId === null) return json({ error: "Unsupported chainId" }, 400);
+  const account = url.searchParams.get("account") || "";
+  if (!/^0x[0-9a-fA-F]{40}$/.test(account)) return json({ error: "Invalid account" }, 400);
+
+  if (!paymasterUpstreamFor(chainId)) return json({ chainId, account, enabled: false });
+
+  const quota = await readSponsorQuota(chainId, account);
+  return json({ chainId, account, enabled: true, ...quota });
+}
@@ -0,0 +1,274 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { encodeFunctionData, parseAbi, type Hex } from "viem";
+import { createMemoryBackend, setStorageBackend } from "@/lib/storage";
+
+// The chain registry reads the scoreboard address when it loads.
+const SCOREBOARD = vi.hoisted(() => {
+  const address = "0x1111111111111111111111111111111111111111";
+  process.env.NEXT_PUBLIC_SCOREBOARD_ADDRESS = address;
+  return address as `0x${string}`;
+});
+
+const CHAIN_ID = 8453;
+const SENDER = "0x2222222222222222222222222222222222222222";
+const OTHER = "0x3333333333333333333333333333333333333333";
+
+const accountAbi = parseAbi([
+  "function execute(address target, uint256 value, bytes data)",
+  "function executeBatch((address target, uint256 value, bytes data)[] calls)",
+  "function executeCall(address target, uint256 value, bytes data)",
+]);
+const scoreboardAbi = parseAbi(["function submitScore(uint256 score)", "function transferOwnership(address owner)"]);
+
+const submitScore = encodeFunctionData({ abi: scoreboardAbi, functionName: "submitScore", args: [1234n] });
+
+function execute(target: Hex, data: Hex = submitScore, value = 0n) {
+  return encodeFunctionData({ abi: accountAbi, functionName: "execute", args: [target, value, data] });
+}
+
+// Stub CDP upstream: answers every request with `reply`, and counts them.
+let reply: (body: any) => { status: number; json: unknown };
+let upstreamCalls: any[] = [];
+const upstream = http.createServer((req, res) => {
+  let raw = "";
+  req.on("data", (c) => (raw += c));
+  req.on("end", () => {
+    const body = JSON.parse(raw);
+    upstreamCalls.push(body);
+    const { status, json } = reply(body);
+    res.writeHead(status, { "content-type": "application/json" });
+    res.end(JSON.stringify(json));
+  });
+});
+
+const sponsor = (body: any) => ({
+  status: 200,
+  json: { jsonrpc: "2.0", id: body.id, result: { paymasterAndData: "0xpm", sponsor: { name: "DriftWing" } } },
+});
+
+let POST: (req: Request) => Promise<Response>;
+let readSponsorQuota: typeof import("@/lib/server/paymasterPolicy").readSponsorQuota;
+
+beforeAll(async () => {
+  await new Promise<void>((r) => upstream.listen(0, "127.0.0.1", r));
+  const { port } = upstream.address() as AddressInfo;
+  process.env.CDP_PAYMASTER_URL = `http://127.0.0.1:${port}/rpc`;
+  ({ POST } = await import("./route"));
+  ({ readSponsorQuota } = await import("@/lib/server/paymasterPolicy"));
+});
+
+afterAll(async () => {
+  await new Promise((r) => upstream.close(r));
+});
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  setStorageBackend(createMemoryBackend());
+  upstreamCalls = [];
+  reply = sponsor;
+});
+
+afterEach(() => {
+  setStorageBackend(null);
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+let nextId = 1;
+
+async function call(
+  method: "pm_getPaymasterStubData" | "pm_getPaymasterData",
+  op: { sender?: string; nonce?: string; callData: Hex }
+) {
+  const userOp = { sender: op.sender ?? SENDER, nonce: op.nonce ?? "0x1", callData: op.callData };
+  const req = new Request(`http://localhost/api/paymaster?chainId=${CHAIN_ID}`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({
+      jsonrpc: "2.0",
+      id: nextId++,
+      method,
+      params: [userOp, "0x0000000071727De22E5E9d8BAf0edAc6f37da032", `0x${CHAIN_ID.toString(16)}`, {}],
+    }),
+  });
+  const res = await POST(req);
+  return (await res.json()) as { result?: unknown; error?: { code: number; message: string; data?: { reason: string } } };
+}
+
+const signed = (op: Parameters<typeof call>[1]) => call("pm_getPaymasterData", op);
+const stub = (op: Parameters<typeof call>[1]) => call("pm_getPaymasterStubData", op);
+
+describe("POST /api/paymaster policy", () => {
+  it("forwards submitScore calls to the scoreboard", async () => {
+    const res = await signed({ callData: execute(SCOREBOARD) });
+    expect(res.result).toEqual({ paymasterAndData: "0xpm", sponsor: { name: "DriftWing" } });
+    expect(upstreamCalls).toHaveLength(1);
+    expect(upstreamCalls[0].method).toBe("pm_getPaymasterData");
+  });
+
+  it("rejects calls to another contract", async () => {
+    const res = await signed({ callData: execute("0x4444444444444444444444444444444444444444") });
+    expect(res.error?.code).toBe(-32003);
+    expect(res.error?.data?.reason).toBe("target_not_allowed");
+    expect(upstreamCalls).toHaveLength(0);
+  });
+
+  it("rejects another scoreboard function", async () => {
+    const data = encodeFunctionData({ abi: scoreboardAbi, functionName: "transferOwnership", args: [OTHER] });
+    const res = await signed({ callData: execute(SCOREBOARD, data) });
+    expect(res.error?.data?.reason).toBe("selector_not_allowed");
+    expect(upstreamCalls).toHaveLength(0);
+  });
+
+  it("rejects calls that send value", async () => {
+    const res = await signed({ callData: execute(SCOREBOARD, submitScore, 1n) });
+    expect(res.error?.data?.reason).toBe("value_not_allowed");
+    expect(upstreamCalls).toHaveLength(0);
+  });
+
+  it("rejects a batch when any call is off-policy", async () => {
+    const callData = encodeFunctionData({
+      abi: accountAbi,
+      functionName: "executeBatch",
+      args: [
+        [
+          { target: SCOREBOARD, value: 0n, data: submitScore },
+          { target: OTHER, value: 0n, data: submitScore },
+        ],
+      ],
+    });
+    const res = await signed({ callData });
+    expect(res.error?.data?.reason).toBe("target_not_allowed");
+  });
+
+  it("rejects an unknown execute shape", async () => {
+    const callData = encodeFunctionData({
+      abi: accountAbi,
+      functionName: "executeCall",
+      args: [SCOREBOARD, 0n, submitScore],
+    });
+    const res = await signed({ callData });
+    expect(res.error?.data?.reason).toBe("unsupported_account_call");
+    expect(upstreamCalls).toHaveLength(0);
+  });
+});
+
+describe("POST /api/paymaster quotas", () => {
+  it("stops sponsoring a sender at the per-sender limit", async () => {
+    vi.stubEnv("PAYMASTER_MAX_SPONSORED_PER_SENDER_PER_DAY", "2");
+    expect((await signed({ nonce: "0x1", callData: execute(SCOREBOARD) })).result).toBeTruthy();
+    expect((await signed({ nonce: "0x2", callData: execute(SCOREBOARD) })).result).toBeTruthy();
+    const third = await signed({ nonce: "0x3", callData: execute(SCOREBOARD) });
+    expect(third.error?.code).toBe(-32005);
+    expect(third.error?.data?.reason).toBe("sender_quota_exceeded");
+    expect(upstreamCalls).toHaveLength(2);
+
+    // Other senders still get theirs.
+    expect((await signed({ sender: OTHER, nonce: "0x1", callData: execute(SCOREBOARD) })).result).toBeTruthy();
+  });
+
+  it("stops sponsoring anyone at the global limit", async () => {
+    vi.stubEnv("PAYMASTER_MAX_SPONSORED_PER_DAY", "2");
+    expect((await signed({ sender: SENDER, callData: execute(SCOREBOARD) })).result).toBeTruthy();
+    expect((await signed({ sender: OTHER, callData: execute(SCOREBOARD) })).result).toBeTruthy();
+    const third = await signed({ sender: "0x5555555555555555555555555555555555555555", callData: execute(SCOREBOARD) });
+    expect(third.error?.data?.reason).toBe("global_quota_exceeded");
+    expect(upstreamCalls).toHaveLength(2);
+  });
+
+  it("counts signed sponsorships but not stub requests", async () => {
+    vi.stubEnv("PAYMASTER_MAX_SPONSORED_PER_SENDER_PER_DAY", "1");
+    for (let i = 0; i < 3; i++) {
+      expect((await stub({ nonce: "0x1", callData: execute(SCOREBOARD) })).result).toBeTruthy();
+    }
+    expect((await readSponsorQuota(CHAIN_ID, SENDER)).used).toBe(0);
+
+    expect((await signed({ nonce: "0x1", callData: execute(SCOREBOARD) })).result).toBeTruthy();
+    expect((await readSponsorQuota(CHAIN_ID, SENDER)).used).toBe(1);
+
+    // Stub requests are still checked against the quota.
+    const next = await stub({ nonce: "0x2", callData: execute(SCOREBOARD) });
+    expect(next.error?.data?.reason).toBe("sender_quota_exceeded");
+  });
+
+  it("counts a repeated nonce once", async () => {
+    vi.stubEnv("PAYMASTER_MAX_SPONSORED_PER_SENDER_PER_DAY", "1");
+    expect((await signed({ nonce: "0x7", callData: execute(SCOREBOARD) })).result).toBeTruthy();
+    // The wallet asks again for the same operation: still sponsored, not counted again.
+    expect((await signed({ nonce: "0x7", callData: execute(SCOREBOARD) })).result).toBeTruthy();
+    expect((await readSponsorQuota(CHAIN_ID, SENDER)).used).toBe(1);
+    expect(upstreamCalls).toHaveLength(2);
+
+    expect((await signed({ nonce: "0x8", callData: execute(SCOREBOARD) })).error?.data?.reason).toBe(
+      "sender_quota_exceeded"
+    );
+  });
+
+  it("never sponsors past the limit under concurrent requests", async () => {
+    vi.stubEnv("PAYMASTER_MAX_SPONSORED_PER_SENDER_PER_DAY", "2");
+    const results = await Promise.all(
+      Array.from({ length: 6 }, (_, i) => signed({ nonce: `0x${(i + 1).toString(16)}`, callData: execute(SCOREBOARD) }))
+    );
+    expect(results.filter((r) => r.result)).toHaveLength(2);
+    expect(results.filter((r) => r.error?.data?.reason === "sender_quota_exceeded")).toHaveLength(4);
+    expect((await readSponsorQuota(CHAIN_ID, SENDER)).used).toBe(2);
+  });
+
+  it("counts every call of a batch against the quotas", async () => {
+    vi.stubEnv("PAYMASTER_MAX_SPONSORED_PER_SENDER_PER_DAY", "3");
+    const batch = (n: number) =>
+      encodeFunctionData({
+        abi: accountAbi,
+        functionName: "executeBatch",
+        args: [Array.from({ length: n }, () => ({ target: SCOREBOARD, value: 0n, data: submitScore }))],
+      });
+    expect((await signed({ nonce: "0x1", callData: batch(2) })).result).toBeTruthy();
+    expect((await readSponsorQuota(CHAIN_ID, SENDER)).used).toBe(2);
+
+    // Two more saves don't fit in the one slot left, in the stub check or the signed one.
+    expect((await stub({ nonce: "0x2", callData: batch(2) })).error?.data?.reason).toBe("sender_quota_exceeded");
+    expect((await signed({ nonce: "0x2", callData: batch(2) })).error?.data?.reason).toBe("sender_quota_exceeded");
+    expect((await signed({ nonce: "0x2", callData: batch(1) })).result).toBeTruthy();
+    expect((await readSponsorQuota(CHAIN_ID, SENDER)).used).toBe(3);
+    expect(upstreamCalls).toHaveLength(2);
+  });
+
+  it("hands the slot back when the upstream doesn't sponsor", async () => {
+    vi.stubEnv("PAYMASTER_MAX_SPONSORED_PER_SENDER_PER_DAY", "1");
+    reply = (body) => ({ status: 200, json: { jsonrpc: "2.0", id: body.id, error: { code: -32000, message: "nope" } } });
+    expect((await signed({ nonce: "0x1", callData: execute(SCOREBOARD) })).error?.message).toBe("nope");
+    expect((await readSponsorQuota(CHAIN_ID, SENDER)).used).toBe(0);
+
+    reply = sponsor;
+    expect((await signed({ nonce: "0x1", callData: execute(SCOREBOARD) })).result).toBeTruthy();
+    expect((await readSponsorQuota(CHAIN_ID, SENDER)).used).toBe(1);
+  });
+
+  it("answers a JSON-RPC error with CORS headers when the upstream is unreachable", async () => {
+    vi.stubEnv("PAYMASTER_MAX_SPONSORED_PER_SENDER_PER_DAY", "1");
+    vi.spyOn(globalThis, "fetch").mockRejectedValueOnce(new TypeError("fetch failed"));
+    const res = await POST(
+      new Request(`http://localhost/api/paymaster?chainId=${CHAIN_ID}`, {
+        method: "POST",
+        headers: { "content-type": "application/json", origin: "https://wallet.example" },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          id: 42,
+          method: "pm_getPaymasterData",
+          params: [{ sender: SENDER, nonce: "0x1", callData: execute(SCOREBOARD) }, "0x", "0x2105", {}],
+        }),
+      })
+    );
+    expect(res.status).toBe(200);
+    expect(res.headers.get("access-control-allow-origin")).toBe("https://wallet.example");
+    expect(await res.json()).toMatchObject({
+      jsonrpc: "2.0",
+      id: 42,
+      error: { code: -32603, data: { reason: "upstream_unavailable" } },
+    });
+    // The slot was handed back.
+    expect((await readSponsorQuota(CHAIN_ID, SENDER)).used).toBe(0);
+  });
+});
@@ -4,11 +4,26 @@
 // - The Paymaster & Bundler endpoint from CDP includes an API key.
 // - Wallets must be able to call a `paymasterService.url` over the public internet.
 // - We keep the secret URL on the server (CDP_PAYMASTER_URL) and expose only this proxy.
+// - `?chainId=` picks the chain's upstream (BASE_SEPOLIA_CDP_PAYMASTER_URL on Base Sepolia).
+// - Only Scoreboard.submitScore user operations are sponsored, within daily quotas
+//   (lib/server/paymasterPolicy.ts); anything else gets a JSON-RPC error and never
+//   reaches CDP. CORS stays open because wallets call this from their own origins.
 //
 // See:
 // - Base gasless cookbook (paymaster + wallet_sendCalls)
 // - CDP Paymaster guide (wagmi/viem integration + proxy recommendation)
 
+import { parseChainId } from '@/lib/chains';
+import { paymasterUpstreamFor } from '@/lib/server/chainClient';
+import {
+  checkSponsorship,
+  PAYMASTER_METHODS,
+  releaseSponsorship,
+  reserveSponsorship,
+  type PaymasterMethod,
+} from '@/lib/server/paymasterPolicy';
+import { estimateUserOpGas, recordPaymasterRequest, type PaymasterOutcome } from '@/lib/server/paymasterStats';
+
 export const runtime = 'nodejs';
 
 function corsHeaders(origin?: string) {
@@ -20,6 +35,28 @@ function corsHeaders(origin?: string) {
   };
 }
 
+async function recordRequest(params: Parameters<typeof recordPaymasterRequest>[0]) {
+  // Stats never get in the way of a sponsorship.
+  try {
+    await recordPaymasterRequest(params);
+  } catch (err) {
+    console.warn('[paymaster] stats failed:', err instanceof Error ? err.message : err);
+  }
+}
+
+function rpcError(id: unknown, code: number, message: string, origin?: string, data?: Record<string, unknown>) {
+  return new Response(
+    JSON.stringify({ jsonrpc: '2.0', id: id ?? null, error: { code, message, ...(data ? { data } : {}) } }),
+    {
+      status: 200,
+      headers: {
+        'content-type': 'application/json',
+        ...corsHeaders(origin),
+      },
+    }
+  );
+}
+
 export async function OPTIONS(req: Request) {
   const origin = req.headers.get('origin') ?? undefined;
   return new Response(null, { status: 204, headers: corsHeaders(origin) });
@@ -27,12 +64,18 @@ export async function OPTIONS(req: Request) {
 
 export async function POST(req: Request) {
   const origin = req.headers.get('origin') ?? undefined;
-  const target = process.env.CDP_PAYMASTER_URL;
+  const chainId = parseChainId(new URL(req.url).searchParams.get('chainId'));
+  const target = chainId === null ? undefined : paymasterUpstreamFor(chainId);
   if (!target) {
     return new Response(
-      JSON.stringify({ error: 'CDP_PAYMASTER_URL is not set on the server.' }),
+      JSON.stringify({
+        error:
+          chainId === null
+            ? 'Unsupported chainId.'
+            : `No CDP paymaster URL is set on the server for chain ${chainId}.`,
+      }),
       {
-        status: 500,
+        status: chainId === null ? 400 : 500,
         headers: {
           'content-type': 'application/json',
           ...corsHeaders(origin),
@@ -41,17 +84,86 @@ export async function POST(req: Request) {
     );
   }
 
-  // Forward the raw JSON-RPC body.
-  const bodyText = await req.text();
-  const upstream = await fetch(target, {
-    method: 'POST',
-    headers: {
-      'content-type': 'application/json',
-    },
-    body: bodyText,
-  });
+  let body: any = null;
+  try {
+    body = await req.json();
+  } catch {
+    return rpcError(null, -32700, 'Parse error', origin);
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body) || typeof body.method !== 'string') {
+    return rpcError(body?.id, -32600, 'Expected a single JSON-RPC request', origin);
+  }
+  if (!PAYMASTER_METHODS.includes(body.method as PaymasterMethod)) {
+    return rpcError(body.id, -32601, `Method ${body.method} is not available on this paymaster`, origin);
+  }
+
+  const userOp = Array.isArray(body.params) ? body.params[0] : null;
+  const sender = typeof userOp?.sender === 'string' ? userOp.sender : null;
+  const verdict = await checkSponsorship(chainId!, body.params);
+  if (!verdict.ok) {
+    const { code, message, reason } = verdict.rejection;
+    console.warn(`[paymaster] rejected ${body.method} on chain ${chainId}: ${reason} — ${message}`);
+    await recordRequest({ chainId: chainId!, method: body.method, sender, outcome: 'rejected', reason });
+    return rpcError(body.id, code, message, origin, { reason });
+  }
+
+  // A signed sponsorship takes its quota slot before it reaches CDP, so
+  // concurrent requests can't overshoot the limits.
+  const reservation = body.method === 'pm_getPaymasterData' ? await reserveSponsorship(verdict.op) : null;
+  if (reservation && !reservation.ok) {
+    const { code, message, reason } = reservation.rejection;
+    console.warn(`[paymaster] rejected ${body.method} on chain ${chainId}: ${reason} — ${message}`);
+    await recordRequest({ chainId: chainId!, method: body.method, sender, outcome: 'rejected', reason });
+    return rpcError(body.id, code, message, origin, { reason });
+  }
+
+  // Forward the JSON-RPC body.
+  const bodyText = JSON.stringify(body);
+  let upstream: Response;
+  try {
+    upstream = await fetch(target, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+      },
+      body: bodyText,
+    });
+  } catch (err) {
+    // CDP unreachable: the slot goes back and the wallet gets a JSON-RPC error it can show.
+    if (reservation?.ok && !reservation.repeat) await releaseSponsorship(verdict.op, reservation.day);
+    console.warn(`[paymaster] upstream for chain ${chainId} failed:`, err instanceof Error ? err.message : err);
+    await recordRequest({ chainId: chainId!, method: body.method, sender, outcome: 'upstream_error', reason: 'fetch' });
+    return rpcError(body.id, -32603, 'Paymaster service is unavailable; try again shortly', origin, {
+      reason: 'upstream_unavailable',
+    });
+  }
 
   const respText = await upstream.text();
+
+  let result: any = null;
+  try {
+    result = JSON.parse(respText);
+  } catch {
+    result = null;
+  }
+  let outcome: PaymasterOutcome = 'upstream_error';
+  if (upstream.ok && result && !result.error && result.result) {
+    // Only a signed sponsorship counts against the quotas.
+    if (reservation) outcome = reservation.repeat ? 'repeat' : 'sponsored';
+    else outcome = 'stub';
+  } else if (reservation?.ok && !reservation.repeat) {
+    // CDP didn't sponsor it: the slot goes back.
+    await releaseSponsorship(verdict.op, reservation.day);
+  }
+  await recordRequest({
+    chainId: chainId!,
+    method: body.method,
+    sender,
+    outcome,
+    reason: outcome === 'upstream_error' ? String(result?.error?.code ?? upstream.status) : undefined,
+    gas: outcome === 'sponsored' ? estimateUserOpGas(userOp) : undefined,
+  });
+
   return new Response(respText, {
     status: upstream.status,
     headers: {
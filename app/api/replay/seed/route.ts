@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { issueReplaySeed } from "@/lib/server/replayVerify";
+
+export const runtime = "nodejs";
+
+function json(data: any, status = 200) {
+  return NextResponse.json(data, { status });
+}
+
+/**
+ * Issues the seed for the next run. /api/replay/verify only accepts replays of
+ * seeds issued here, each once.
+ *
+ * Response: { ok: true, seed: number, expiresAt: number }
+ */
+export async function POST() {
+  try {
+    const { seed, expiresAt } = await issueReplaySeed();
+    return json({ ok: true, seed, expiresAt });
+  } catch (err) {
+    console.error("[replay:seed]", err);
+    return json({ ok: false, error: "Internal error" }, 500);
+  }
+}
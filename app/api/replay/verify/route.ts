@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { parseChainId } from "@/lib/chains";
+import { verifyReplay } from "@/lib/server/replayVerify";
+
+export const runtime = "nodejs";
+
+function json(data: any, status = 200) {
+  return NextResponse.json(data, { status });
+}
+
+/**
+ * Re-simulates a recorded run and, if it reproduces the claimed score, marks
+ * (account, score) as verified on `chainId` for leaderboard ingestion. The
+ * replay's seed must come from POST /api/replay/seed and is used up.
+ *
+ * Body: { account: "0x…", score: number, replay: "<base64>", chainId?: number }
+ */
+export async function POST(req: Request) {
+  try {
+    let body: any = null;
+    try {
+      body = await req.json();
+    } catch {
+      body = null;
+    }
+
+    const account = (body?.account || "").toString() as `0x${string}`;
+    if (!/^0x[0-9a-fA-F]{40}$/.test(account)) return json({ ok: false, error: "Invalid account" }, 400);
+
+    const score = Number(body?.score);
+    if (!Number.isSafeInteger(score) || score < 0) return json({ ok: false, error: "Invalid score" }, 400);
+
+    const replay = typeof body?.replay === "string" ? body.replay : "";
+    if (!replay) return json({ ok: false, error: "Missing replay" }, 400);
+
+    const chainId = parseChainId(body?.chainId);
+    if (chainId === null) return json({ ok: false, error: "Unsupported chainId" }, 400);
+
+    const result = await verifyReplay({ chainId, address: account, score, replayB64: replay });
+    if (!result.ok) {
+      return json({ ok: false, error: result.error, recomputed: result.recomputed ?? null }, result.unavailable ? 503 : 422);
+    }
+
+    return json({
+      ok: true,
+      score: result.record.score,
+      difficulty: result.record.difficulty,
+      durationMs: result.record.durationMs,
+    });
+  } catch (err) {
+    console.error("[replay:verify]", err);
+    return json({ ok: false, error: "Internal error" }, 500);
+  }
+}
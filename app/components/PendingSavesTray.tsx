@@ -0,0 +1,82 @@
+"use client";
+import { useEffect, useState } from "react";
+import {
+  dismissPendingSave,
+  readPendingSaves,
+  resumePendingSaves,
+  retryPendingSave,
+  subscribePendingSaves,
+  type PendingSave,
+} from "@/lib/pendingSaves";
+
+// Indexed saves stay in the tray briefly, then only unfinished and failed ones show.
+const SHOW_INDEXED_MS = 8_000;
+
+function label(s: PendingSave) {
+  switch (s.state) {
+    case "sent":
+      return "Confirming…";
+    case "confirmed":
+      return "Updating leaderboard…";
+    case "indexed":
+      if (s.heldForReview) return "Held for review";
+      return s.rank ? `Saved ✓ #${s.rank}` : "Saved ✓";
+    case "failed":
+      return s.error || "Failed";
+  }
+}
+
+export default function PendingSavesTray() {
+  const [saves, setSaves] = useState<PendingSave[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    setSaves(readPendingSaves());
+    const unsubscribe = subscribePendingSaves(setSaves);
+    // Pick up saves left unfinished by a reload or a closed tab.
+    resumePendingSaves();
+    return unsubscribe;
+  }, []);
+
+  const shown = saves.filter((s) => s.state !== "indexed" || now - s.updatedAt < SHOW_INDEXED_MS);
+
+  useEffect(() => {
+    if (!saves.some((s) => s.state === "indexed" && Date.now() - s.updatedAt < SHOW_INDEXED_MS)) return;
+    const t = setTimeout(() => setNow(Date.now()), 1_000);
+    return () => clearTimeout(t);
+  }, [saves, now]);
+
+  if (shown.length === 0) return null;
+
+  return (
+    <div className="dwTray" aria-label="pending saves">
+      <div className="dwTrayTitle">Pending saves</div>
+      {shown.map((s) => (
+        <div key={s.txHash} className={`dwTrayRow dwTray-${s.state}`}>
+          <span className="dwTrayScore">
+            {s.score}
+            {s.runs && s.runs > 1 ? ` +${s.runs - 1}` : ""}
+          </span>
+          <span className="dwTrayState" title={s.txHash}>
+            {label(s)}
+          </span>
+          {s.state === "failed" && (
+            <button className="dwTrayBtn" type="button" onClick={() => void retryPendingSave(s.txHash)}>
+              Retry
+            </button>
+          )}
+          {(s.state === "failed" || s.state === "indexed") && (
+            <button
+              className="dwTrayBtn"
+              type="button"
+              aria-label="dismiss"
+              onClick={() => dismissPendingSave(s.txHash)}
+            >
+              ✕
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import type { GameEvent, GameEventBus } from "./gameEvents";
+import type { RunStats, RunStatsTracker } from "./runStats";
+
+// Local achievements, unlocked from the game event stream and kept in
+// localStorage. Each is checked against the current run's stats after every
+// event, so it unlocks the moment it's earned rather than at game over.
+
+export type AchievementId = "boss_slayer" | "double_boss" | "collector" | "centurion" | "survivor";
+
+export type Achievement = {
+  id: AchievementId;
+  label: string;
+  description: string;
+  earned(stats: RunStats, event: GameEvent): boolean;
+};
+
+export const ACHIEVEMENTS: readonly Achievement[] = [
+  {
+    id: "boss_slayer",
+    label: "Boss Slayer",
+    description: "Destroy a boss",
+    earned: (s) => s.bossesKilled >= 1,
+  },
+  {
+    id: "double_boss",
+    label: "Encore",
+    description: "Destroy two bosses in one run",
+    earned: (s) => s.bossesKilled >= 2,
+  },
+  {
+    id: "collector",
+    label: "Collector",
+    description: "Pick up both power-up types in one run",
+    earned: (s) => Boolean(s.powerups.Overdrive && s.powerups.Drones),
+  },
+  {
+    id: "centurion",
+    label: "Centurion",
+    description: "Destroy 100 enemies in one run",
+    earned: (s) => s.kills >= 100,
+  },
+  {
+    id: "survivor",
+    label: "Survivor",
+    description: "Stay alive for three minutes",
+    // Event times are run time, which starts at 0 each run.
+    earned: (_s, e) => e.t >= 180_000,
+  },
+];
+
+const STORAGE_KEY = "dw:achievements";
+
+export function readUnlockedAchievements(): AchievementId[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const list = raw ? JSON.parse(raw) : [];
+    return Array.isArray(list) ? list.filter((id) => ACHIEVEMENTS.some((a) => a.id === id)) : [];
+  } catch {
+    return [];
+  }
+}
+
+function storeUnlocked(ids: AchievementId[]) {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(ids));
+  } catch {
+    // ignore
+  }
+}
+
+/** Unlocks achievements as events arrive; `onUnlock` runs once per newly earned one. */
+export function trackAchievements(
+  bus: GameEventBus,
+  stats: RunStatsTracker,
+  onUnlock: (achievement: Achievement) => void
+): () => void {
+  const unlocked = new Set(readUnlockedAchievements());
+  // Subscribed after run stats, so `stats` already includes this event.
+  return bus.onAny((event) => {
+    if (unlocked.size === ACHIEVEMENTS.length) return;
+    const s = stats.get();
+    for (const a of ACHIEVEMENTS) {
+      if (unlocked.has(a.id) || !a.earned(s, event)) continue;
+      unlocked.add(a.id);
+      storeUnlocked(Array.from(unlocked));
+      onUnlock(a);
+    }
+  });
+}
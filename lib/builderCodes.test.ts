@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { builderCodesToDataSuffix, decodeErc8021Suffix, findErc8021Suffixes } from "./builderCodes";
+
+const MARKER = "8021".repeat(8);
+// submitScore(1234): selector + one ABI word.
+const CALL = `0x2fbebd38${(1234).toString(16).padStart(64, "0")}`;
+
+const hex = (s: string) => Buffer.from(s, "utf8").toString("hex");
+
+describe("decodeErc8021Suffix", () => {
+  it("reads the codes of a valid suffix", () => {
+    const suffix = builderCodesToDataSuffix(["bc_drift", "bc_wing"])!;
+    expect(suffix).toBe(`0x${hex("bc_drift,bc_wing")}1000${MARKER}`);
+
+    const res = decodeErc8021Suffix(`${CALL}${suffix.slice(2)}` as `0x${string}`);
+    expect(res).toEqual({
+      ok: true,
+      suffix: { schemaId: 0, codes: ["bc_drift", "bc_wing"], start: 36, end: 36 + 16 + 2 + 16 },
+    });
+  });
+
+  it("rejects a truncated suffix", () => {
+    // The length byte claims more payload than there is.
+    expect(decodeErc8021Suffix(`0x${hex("bc")}0500${MARKER}`)).toEqual({ ok: false, reason: "truncated" });
+    // No room for the length and schema bytes.
+    expect(decodeErc8021Suffix(`0x00${MARKER}`)).toEqual({ ok: false, reason: "truncated" });
+    // Half a byte.
+    expect(decodeErc8021Suffix(`0x${hex("bc")}020${MARKER}`)).toEqual({ ok: false, reason: "truncated" });
+  });
+
+  it("rejects a wrong marker", () => {
+    const wrong = `${"8021".repeat(7)}8022`;
+    expect(decodeErc8021Suffix(`0x${hex("bc")}0200${wrong}`)).toEqual({ ok: false, reason: "no_marker" });
+    expect(decodeErc8021Suffix(CALL as `0x${string}`)).toEqual({ ok: false, reason: "no_marker" });
+  });
+
+  it("rejects other schemas and unreadable codes", () => {
+    expect(decodeErc8021Suffix(`0x${hex("bc")}0201${MARKER}`)).toEqual({ ok: false, reason: "unsupported_schema" });
+    expect(decodeErc8021Suffix(`0x${hex("a,,b")}0400${MARKER}`)).toEqual({ ok: false, reason: "invalid_codes" });
+    expect(decodeErc8021Suffix(`0xfffe0200${MARKER}`)).toEqual({ ok: false, reason: "invalid_codes" });
+  });
+});
+
+describe("findErc8021Suffixes", () => {
+  it("finds a suffix followed by ABI padding", () => {
+    const suffix = builderCodesToDataSuffix(["bc_drift"])!.slice(2);
+    const wrapped = `${CALL}${suffix}${"00".repeat(6)}` as `0x${string}`;
+    expect(decodeErc8021Suffix(wrapped).ok).toBe(false);
+    expect(findErc8021Suffixes(wrapped)).toEqual([
+      { schemaId: 0, codes: ["bc_drift"], start: 36, end: 36 + 8 + 2 + 16 },
+    ]);
+  });
+
+  it("skips malformed candidates", () => {
+    expect(findErc8021Suffixes(`0x${hex("bc")}0500${MARKER}`)).toEqual([]);
+  });
+});
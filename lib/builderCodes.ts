@@ -79,3 +79,82 @@ export function appendBuilderCodesSuffix(data: Hex): Hex {
   if (hasErc8021Suffix(data)) return data;
   return (`0x${strip0x(data)}${strip0x(suffix)}`) as Hex;
 }
+
+export type Erc8021Suffix = {
+  schemaId: number;
+  codes: string[];
+  // Byte offset in the input where the suffix starts (codes payload first).
+  start: number;
+  // Byte offset just past the marker.
+  end: number;
+};
+
+export type Erc8021DecodeResult =
+  | { ok: true; suffix: Erc8021Suffix }
+  | { ok: false; reason: 'no_marker' | 'truncated' | 'unsupported_schema' | 'invalid_codes' };
+
+const MARKER_BYTES = ERC8021_MARKER_HEX.length / 2;
+
+function hexToBytes(hex: string): Uint8Array | null {
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) return null;
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) out[i] = Number.parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return out;
+}
+
+function decodeCodes(payload: Uint8Array): string[] | null {
+  let csv: string;
+  try {
+    csv = new TextDecoder('utf-8', { fatal: true }).decode(payload);
+  } catch {
+    return null;
+  }
+  const codes = csv.split(',');
+  // Every code non-empty and printable: a stray 0x8021 run in ABI data won't pass.
+  if (codes.some((c) => c.length === 0 || c !== c.trim() || /[\u0000-\u001f\u007f]/.test(c))) return null;
+  return codes;
+}
+
+function decodeEndingAt(bytes: Uint8Array, end: number): Erc8021DecodeResult {
+  // <codes> <1-byte length> <1-byte schemaId> <marker>, read backwards from the marker.
+  const markerStart = end - MARKER_BYTES;
+  if (markerStart < 2) return { ok: false, reason: 'truncated' };
+  const schemaId = bytes[markerStart - 1];
+  if (schemaId !== 0) return { ok: false, reason: 'unsupported_schema' };
+  const length = bytes[markerStart - 2];
+  const start = markerStart - 2 - length;
+  if (length === 0 || start < 0) return { ok: false, reason: 'truncated' };
+  const codes = decodeCodes(bytes.subarray(start, markerStart - 2));
+  if (!codes) return { ok: false, reason: 'invalid_codes' };
+  return { ok: true, suffix: { schemaId, codes, start, end } };
+}
+
+/** Decodes the ERC-8021 suffix at the very end of `data` (Schema 0 only). */
+export function decodeErc8021Suffix(data: Hex): Erc8021DecodeResult {
+  if (!hasErc8021Suffix(data)) return { ok: false, reason: 'no_marker' };
+  const bytes = hexToBytes(strip0x(data));
+  if (!bytes) return { ok: false, reason: 'truncated' };
+  return decodeEndingAt(bytes, bytes.length);
+}
+
+/**
+ * Every ERC-8021 suffix in `data`, wherever it sits. Sponsored saves are wrapped
+ * by the smart account and bundler, so a call's suffix ends mid-input (followed
+ * by ABI padding). Malformed candidates are left out.
+ */
+export function findErc8021Suffixes(data: Hex): Erc8021Suffix[] {
+  const hex = strip0x(data).toLowerCase();
+  const bytes = hexToBytes(hex);
+  if (!bytes) return [];
+  const out: Erc8021Suffix[] = [];
+  for (let i = hex.indexOf(ERC8021_MARKER_HEX); i >= 0; i = hex.indexOf(ERC8021_MARKER_HEX, i + 2)) {
+    if (i % 2 !== 0) continue; // must be byte-aligned
+    const res = decodeEndingAt(bytes, i / 2 + MARKER_BYTES);
+    if (res.ok) {
+      out.push(res.suffix);
+      // Skip the rest of this marker (a longer 0x8021 run would match again).
+      i += ERC8021_MARKER_HEX.length - 2;
+    }
+  }
+  return out;
+}
@@ -1,58 +1,77 @@
-import {
-  createPublicClient,
-  createWalletClient,
-  custom,
-  encodeFunctionData,
-  http,
-} from "viem";
-import { base } from "viem/chains";
+import { createWalletClient, custom, encodeFunctionData } from "viem";
 import { scoreboardAbi } from "./scoreboardAbi";
-import { getEthereumProvider } from "./ethProvider";
-import {
-  getPaymasterProxyUrl,
-  sendSponsoredCallsAndGetTxHash,
-  supportsPaymaster,
-} from "./gasless";
+import { getEthereumProvider, type EIP1193Provider } from "./ethProvider";
+import { getPaymasterProxyUrl, sendCallsAndGetTxHashes, supportsPaymaster } from "./gasless";
+import { isUnsupportedMethod } from "./walletCapabilities";
 import { appendBuilderCodesSuffix } from "./builderCodes";
-
-const RPC_URL = process.env.NEXT_PUBLIC_BASE_RPC_URL || "https://mainnet.base.org";
-const SCOREBOARD_ADDRESS = process.env.NEXT_PUBLIC_SCOREBOARD_ADDRESS as `0x${string}` | undefined;
+import { appendDifficultyTag } from "./difficultyTag";
+import type { Difficulty } from "./difficulty";
+import { createRpcClient } from "./rpc";
+import { chainConfig, DEFAULT_CHAIN_ID, isSupportedChainId, supportedChains } from "./chains";
 
 export function hasScoreboard() {
-  return Boolean(SCOREBOARD_ADDRESS);
+  return supportedChains().length > 0;
 }
 
-export function getPublicClient() {
-  return createPublicClient({ chain: base, transport: http(RPC_URL) });
+const publicClients = new Map<number, ReturnType<typeof createRpcClient>>();
+
+export function getPublicClient(chainId: number = DEFAULT_CHAIN_ID) {
+  // One client per chain and tab, so endpoint health carries over between calls.
+  let client = publicClients.get(chainId);
+  if (!client) {
+    const config = chainConfig(chainId);
+    if (!config) throw new Error(`Unknown chain ${chainId}`);
+    client = createRpcClient(config.chain, config.rpcUrls);
+    publicClients.set(chainId, client);
+  }
+  return client;
 }
 
+/** The wallet's chain when it has a scoreboard, else DEFAULT_CHAIN_ID. */
+export async function walletChainId(eth?: EIP1193Provider | null): Promise<number> {
+  const provider = eth ?? (await getEthereumProvider());
+  if (!provider) return DEFAULT_CHAIN_ID;
+  try {
+    const id = Number(await provider.request({ method: "eth_chainId" }));
+    return isSupportedChainId(id) ? id : DEFAULT_CHAIN_ID;
+  } catch {
+    return DEFAULT_CHAIN_ID;
+  }
+}
 
-export async function waitForReceipt(hash: `0x${string}`) {
-  const client = getPublicClient();
-  const receipt = await client.waitForTransactionReceipt({ hash });
+export async function waitForReceipt(
+  hash: `0x${string}`,
+  chainId: number = DEFAULT_CHAIN_ID,
+  opts?: { timeoutMs?: number }
+) {
+  const client = getPublicClient(chainId);
+  const receipt = await client.waitForTransactionReceipt({ hash, timeout: opts?.timeoutMs });
   return receipt;
 }
 
 
-export async function getWalletClient() {
+export async function getWalletClient(chainId: number = DEFAULT_CHAIN_ID) {
   const eth = await getEthereumProvider();
   if (!eth) return null;
-  const wallet = createWalletClient({ chain: base, transport: custom(eth) });
+  const config = chainConfig(chainId);
+  if (!config) return null;
+  const wallet = createWalletClient({ chain: config.chain, transport: custom(eth) });
 
-  // Best-effort: ensure the wallet is on Base.
+  // Best-effort: ensure the wallet is on the target chain.
   try {
-    await wallet.switchChain({ id: base.id });
+    await wallet.switchChain({ id: chainId });
   } catch {
     // Some providers don't support switching or may prompt the user.
   }
   return wallet;
 }
 
-export async function readBestScore(player: `0x${string}`) {
-  if (!SCOREBOARD_ADDRESS) return null;
-  const client = getPublicClient();
+export async function readBestScore(player: `0x${string}`, chainId: number = DEFAULT_CHAIN_ID) {
+  const address = chainConfig(chainId)?.scoreboardAddress;
+  if (!address) return null;
+  const client = getPublicClient(chainId);
   const best = await client.readContract({
-    address: SCOREBOARD_ADDRESS,
+    address,
     abi: scoreboardAbi,
     functionName: "bestScore",
     args: [player]
@@ -60,12 +79,33 @@ export async function readBestScore(player: `0x${string}`) {
   return Number(best);
 }
 
-export async function submitScore(score: number) {
-  if (!SCOREBOARD_ADDRESS) throw new Error("Scoreboard contract address not set");
+export async function submitScore(score: number, difficulty: Difficulty) {
+  const { hashes, account, chainId } = await submitScores([{ score, difficulty }]);
+  return { hash: hashes[0], account, chainId };
+}
+
+/**
+ * Saves several runs at once. With a paymaster-capable wallet every run is one
+ * call of a single sponsored wallet_sendCalls batch (one prompt; one tx hash,
+ * or several if the wallet runs the calls one by one); otherwise each run is
+ * its own transaction. `savedRuns` counts the runs (from
+ * the start of `runs`) that went out: a rejected prompt midway keeps the earlier ones.
+ * `gasless: false` skips the paymaster (e.g. when today's free saves are used up).
+ */
+export async function submitScores(
+  runs: Array<{ score: number; difficulty: Difficulty }>,
+  opts?: { gasless?: boolean }
+) {
+  if (runs.length === 0) throw new Error("Nothing to save");
 
   const eth = await getEthereumProvider();
   if (!eth) throw new Error("No wallet provider found");
 
+  // Save on the wallet's chain when it has a scoreboard; otherwise on the default chain.
+  const chainId = await walletChainId(eth);
+  const address = chainConfig(chainId)?.scoreboardAddress;
+  if (!address) throw new Error("Scoreboard contract address not set");
+
   // Use the connected account.
   const accounts = (await eth.request({ method: "eth_accounts" })) as string[];
   const from = accounts?.[0] as `0x${string}` | undefined;
@@ -73,36 +113,57 @@ export async function submitScore(score: number) {
 
   // Prefer paymaster (gasless) only when the wallet advertises support.
   // This avoids breaking Farcaster clients that don't support ERC-7677.
-  const chainIdHex = (await eth.request({ method: "eth_chainId" })) as `0x${string}`;
-  const paymasterUrl = getPaymasterProxyUrl();
-
-  const data = encodeFunctionData({
-    abi: scoreboardAbi,
-    functionName: "submitScore",
-    args: [BigInt(score)],
-  });
+  const chainIdHex = `0x${chainId.toString(16)}` as `0x${string}`;
+  const paymasterUrl = opts?.gasless === false ? null : getPaymasterProxyUrl(chainId);
+
+  // The difficulty tag rides after the ABI args so the leaderboard knows which board to rank on.
+  const calldata = runs.map((r) =>
+    appendDifficultyTag(
+      encodeFunctionData({
+        abi: scoreboardAbi,
+        functionName: "submitScore",
+        args: [BigInt(r.score)],
+      }),
+      r.difficulty
+    )
+  );
 
   if (paymasterUrl && (await supportsPaymaster(eth, chainIdHex, from))) {
-    const hash = await sendSponsoredCallsAndGetTxHash({
-      eth,
-      chainIdHex,
-      from,
-      calls: [{ to: SCOREBOARD_ADDRESS, data, value: "0x0" }],
-      paymasterServiceUrl: paymasterUrl,
-    });
-
-    return { hash, account: from };
+    try {
+      // Falls back to an unsponsored wallet_sendCalls itself if the paymaster is refused.
+      const { hashes } = await sendCallsAndGetTxHashes({
+        eth,
+        chainIdHex,
+        from,
+        calls: calldata.map((data) => ({ to: address, data, value: "0x0" as const })),
+        paymasterServiceUrl: paymasterUrl,
+      });
+      return { hashes, savedRuns: runs.length, account: from, chainId };
+    } catch (e) {
+      // A wallet that advertised capabilities but can't send calls after all gets plain transactions.
+      if (!isUnsupportedMethod(e)) throw e;
+    }
   }
 
   // Fallback: normal writeContract (works in Farcaster, and in any wallet without paymaster).
-  const wallet = await getWalletClient();
+  const wallet = await getWalletClient(chainId);
   if (!wallet) throw new Error("No wallet provider found");
-  const hash = await wallet.sendTransaction({
-    to: SCOREBOARD_ADDRESS,
-    data: appendBuilderCodesSuffix(data),
-    value: 0n,
-    account: from,
-  });
+  const hashes: `0x${string}`[] = [];
+  for (const data of calldata) {
+    try {
+      hashes.push(
+        await wallet.sendTransaction({
+          to: address,
+          data: appendBuilderCodesSuffix(data),
+          value: 0n,
+          account: from,
+        })
+      );
+    } catch (e) {
+      if (hashes.length === 0) throw e;
+      break;
+    }
+  }
 
-  return { hash, account: from };
+  return { hashes, savedRuns: hashes.length, account: from, chainId };
 }
@@ -0,0 +1,92 @@
+import type { Chain } from "viem";
+import { base, baseSepolia } from "viem/chains";
+
+// Chain registry: every chain the game can save scores on.
+// A chain is supported once its scoreboard address is configured. Leaderboards
+// are kept per chain, so testnet and staging runs never reach mainnet rankings.
+// Server-only settings (private RPCs, CDP paymaster, deploy block) live in
+// lib/server/chainClient.ts.
+
+type Addr = `0x${string}`;
+
+export type ChainConfig = {
+  id: number;
+  slug: string;
+  name: string;
+  chain: Chain;
+  testnet: boolean;
+  scoreboardAddress: Addr | undefined;
+  // Browser-safe RPC endpoints, in failover order (the server adds its own first).
+  rpcUrls: string[];
+  // Where wallets reach the paymaster proxy; defaults to /api/paymaster on this origin.
+  paymasterProxyUrl: string | undefined;
+};
+
+function list(raw: string | undefined) {
+  return (raw || "")
+    .split(",")
+    .map((u) => u.trim())
+    .filter(Boolean);
+}
+
+function address(raw: string | undefined) {
+  return raw && /^0x[0-9a-fA-F]{40}$/.test(raw) ? (raw as Addr) : undefined;
+}
+
+// NEXT_PUBLIC_* values must be read literally to be inlined into the browser bundle.
+const REGISTRY: ChainConfig[] = [
+  {
+    id: base.id,
+    slug: "base",
+    name: "Base",
+    chain: base,
+    testnet: false,
+    scoreboardAddress: address(process.env.NEXT_PUBLIC_SCOREBOARD_ADDRESS),
+    rpcUrls: [...list(process.env.NEXT_PUBLIC_BASE_RPC_URLS), ...list(process.env.NEXT_PUBLIC_BASE_RPC_URL)],
+    paymasterProxyUrl: process.env.NEXT_PUBLIC_PAYMASTER_PROXY_SERVER_URL || undefined,
+  },
+  {
+    id: baseSepolia.id,
+    slug: "base-sepolia",
+    name: "Base Sepolia",
+    chain: baseSepolia,
+    testnet: true,
+    scoreboardAddress: address(process.env.NEXT_PUBLIC_BASE_SEPOLIA_SCOREBOARD_ADDRESS),
+    rpcUrls: [
+      ...list(process.env.NEXT_PUBLIC_BASE_SEPOLIA_RPC_URLS),
+      ...list(process.env.NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL),
+    ],
+    paymasterProxyUrl: process.env.NEXT_PUBLIC_BASE_SEPOLIA_PAYMASTER_PROXY_SERVER_URL || undefined,
+  },
+];
+
+export function chainConfig(chainId: number): ChainConfig | null {
+  return REGISTRY.find((c) => c.id === chainId) ?? null;
+}
+
+/** Chains with a scoreboard configured. */
+export function supportedChains(): ChainConfig[] {
+  return REGISTRY.filter((c) => c.scoreboardAddress);
+}
+
+export function isSupportedChainId(chainId: unknown): chainId is number {
+  return typeof chainId === "number" && supportedChains().some((c) => c.id === chainId);
+}
+
+/**
+ * Chain used when the wallet's chain isn't supported (and for leaderboards by
+ * default): NEXT_PUBLIC_DEFAULT_CHAIN_ID if supported, else the first supported
+ * chain, else Base.
+ */
+export const DEFAULT_CHAIN_ID: number = (() => {
+  const wanted = Number(process.env.NEXT_PUBLIC_DEFAULT_CHAIN_ID);
+  if (isSupportedChainId(wanted)) return wanted;
+  return supportedChains()[0]?.id ?? base.id;
+})();
+
+/** Parses a `chainId` query/body value; missing → DEFAULT_CHAIN_ID, unsupported → null. */
+export function parseChainId(raw: unknown): number | null {
+  if (raw === undefined || raw === null || raw === "") return DEFAULT_CHAIN_ID;
+  const n = typeof raw === "number" ? raw : /^\d+$/.test(String(raw)) ? Number(raw) : NaN;
+  return isSupportedChainId(n) ? n : null;
+}
@@ -0,0 +1,10 @@
+// Difficulty ids shared by the client, the replay codec and the server.
+// Gameplay values for each level live in the Rust engine (DiffConfig).
+
+export type Difficulty = "easy" | "medium" | "hard";
+
+export const DIFFICULTIES: readonly Difficulty[] = ["easy", "medium", "hard"];
+
+export function isDifficulty(v: unknown): v is Difficulty {
+  return typeof v === "string" && (DIFFICULTIES as readonly string[]).includes(v);
+}
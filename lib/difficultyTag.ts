@@ -0,0 +1,49 @@
+// Carries the run's difficulty to the server inside the submitScore calldata.
+//
+// Solidity ignores bytes after the ABI-encoded arguments, so we append a short
+// tag right after them (and before the ERC-8021 builder-code suffix):
+//   submitScore(score) ‖ "dwd" ‖ u8 difficultyIndex
+//
+// Sponsored saves are wrapped by the smart account / bundler, but the inner call
+// stays a contiguous byte run in the tx input, so the server finds it by
+// searching for the exact `selector ‖ score ‖ "dwd"` sequence.
+
+import { encodeFunctionData } from "viem";
+import { scoreboardAbi } from "./scoreboardAbi";
+import { DIFFICULTIES, type Difficulty } from "./difficulty";
+
+type Hex = `0x${string}`;
+
+const TAG_MAGIC_HEX = "647764"; // utf8("dwd")
+
+function strip0x(hex: string): string {
+  return hex.startsWith("0x") ? hex.slice(2) : hex;
+}
+
+export function difficultyTagHex(difficulty: Difficulty): string {
+  return TAG_MAGIC_HEX + DIFFICULTIES.indexOf(difficulty).toString(16).padStart(2, "0");
+}
+
+export function appendDifficultyTag(data: Hex, difficulty: Difficulty): Hex {
+  return `0x${strip0x(data)}${difficultyTagHex(difficulty)}` as Hex;
+}
+
+/**
+ * Finds the tag for a given submitScore(score) call anywhere in a tx input.
+ * Returns null for untagged calls (e.g. direct contract calls).
+ */
+export function findDifficultyTag(input: Hex, score: number | bigint): Difficulty | null {
+  const hay = strip0x(input).toLowerCase();
+  const call = strip0x(
+    encodeFunctionData({ abi: scoreboardAbi, functionName: "submitScore", args: [BigInt(score)] })
+  ).toLowerCase();
+  const needle = call + TAG_MAGIC_HEX;
+
+  for (let i = hay.indexOf(needle); i >= 0; i = hay.indexOf(needle, i + 1)) {
+    if (i % 2 !== 0) continue; // must be byte-aligned
+    const idxHex = hay.slice(i + needle.length, i + needle.length + 2);
+    const d = DIFFICULTIES[Number.parseInt(idxHex, 16)];
+    if (d) return d;
+  }
+  return null;
+}
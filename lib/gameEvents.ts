@@ -0,0 +1,202 @@
+// Gameplay events (kills, bosses, power-ups, death) and the small pub/sub that
+// fans them out to sound, haptics, run stats and achievements. The engine
+// queues them during update(); the game loop drains them once per frame with
+// an EventDrain and emits each one on a GameEventBus.
+//
+// Temporary: engines built before drain_events() existed (the one committed in
+// public/wasm among them) get the events inferred from consecutive states
+// instead (see createInferredDrain). Delete that fallback once public/wasm is
+// rebuilt with `npm run build:wasm`.
+
+import type { EnemyType, GameState, Powerup, PowerupType } from "./gameState";
+import { ENEMY_TYPES, isFlatFrame, POWERUP_TYPES, type FlatGameState } from "./stateBuffers";
+import type { GameEngineInstance } from "./wasmLoader";
+
+// Same order as GameEventKind in wasm-engine/src/lib.rs (the engine sends the index).
+export const GAME_EVENT_KINDS = [
+  "EnemyKilled",
+  "BossSpawned",
+  "BossKilled",
+  "PowerupCollected",
+  "PlayerHit",
+  "Died",
+] as const;
+
+export type GameEventKind = (typeof GAME_EVENT_KINDS)[number];
+
+// `t` is the engine run time (ms) the event happened at. A boss kill is only
+// BossKilled, not also EnemyKilled.
+export type GameEvent =
+  | { kind: "EnemyKilled"; enemy: EnemyType; t: number }
+  | { kind: "BossSpawned"; t: number }
+  | { kind: "BossKilled"; t: number }
+  | { kind: "PowerupCollected"; powerup: PowerupType; t: number }
+  | { kind: "PlayerHit"; enemy: EnemyType; t: number }
+  | { kind: "Died"; t: number };
+
+export type GameEventOf<K extends GameEventKind> = Extract<GameEvent, { kind: K }>;
+
+export type GameEventBus = {
+  // Both return an unsubscribe function.
+  on<K extends GameEventKind>(kind: K, handler: (event: GameEventOf<K>) => void): () => void;
+  onAny(handler: (event: GameEvent) => void): () => void;
+  emit(event: GameEvent): void;
+};
+
+export function createGameEventBus(): GameEventBus {
+  const byKind = new Map<GameEventKind, Set<(event: GameEvent) => void>>();
+  const any = new Set<(event: GameEvent) => void>();
+
+  // A throwing handler (e.g. audio blocked) mustn't stop the others or the frame.
+  const call = (handler: (event: GameEvent) => void, event: GameEvent) => {
+    try {
+      handler(event);
+    } catch (e) {
+      console.error(`[gameEvents] ${event.kind} handler failed:`, e);
+    }
+  };
+
+  return {
+    on(kind, handler) {
+      let set = byKind.get(kind);
+      if (!set) byKind.set(kind, (set = new Set()));
+      const h = handler as (event: GameEvent) => void;
+      set.add(h);
+      return () => {
+        set!.delete(h);
+      };
+    },
+    onAny(handler) {
+      any.add(handler);
+      return () => {
+        any.delete(handler);
+      };
+    },
+    emit(event) {
+      const set = byKind.get(event.kind);
+      if (set) for (const h of Array.from(set)) call(h, event);
+      for (const h of Array.from(any)) call(h, event);
+    },
+  };
+}
+
+export type EventDrain = {
+  // "engine": the engine's own queue; "inferred": diffed from states (stale engines, temporary).
+  source: "engine" | "inferred";
+  // Call once per frame after update(), with that frame's state and update() time.
+  drain(state: GameState | FlatGameState, time: number, emit: (event: GameEvent) => void): void;
+};
+
+// f32s per queued event: kind, detail, time.
+const EVENT_STRIDE = 3;
+
+function toEvent(kind: GameEventKind | undefined, detail: number, t: number): GameEvent | null {
+  switch (kind) {
+    case "EnemyKilled":
+    case "PlayerHit": {
+      const enemy = ENEMY_TYPES[detail];
+      return enemy ? { kind, enemy, t } : null;
+    }
+    case "PowerupCollected": {
+      const powerup = POWERUP_TYPES[detail];
+      return powerup ? { kind, powerup, t } : null;
+    }
+    case "BossSpawned":
+    case "BossKilled":
+    case "Died":
+      return { kind, t };
+    default:
+      return null;
+  }
+}
+
+export function createEventDrain(engine: GameEngineInstance, memory: WebAssembly.Memory | undefined): EventDrain {
+  if (!memory || typeof engine.drain_events !== "function" || typeof engine.events_ptr !== "function") {
+    if (process.env.NODE_ENV !== "production") {
+      console.warn("[gameEvents] engine has no event queue; inferring events from state (run `npm run build:wasm`)");
+    }
+    return createInferredDrain();
+  }
+  const drainEvents = engine.drain_events.bind(engine);
+  const eventsPtr = engine.events_ptr.bind(engine);
+  return {
+    source: "engine",
+    drain(_state, _time, emit) {
+      const n = drainEvents();
+      if (n === 0) return;
+      const buf = new Float32Array(memory.buffer, eventsPtr(), n * EVENT_STRIDE);
+      for (let i = 0, o = 0; i < n; i++, o += EVENT_STRIDE) {
+        const event = toEvent(GAME_EVENT_KINDS[buf[o]], buf[o + 1], buf[o + 2]);
+        if (event) emit(event);
+      }
+    },
+  };
+}
+
+// Player collision radius used by the engine (13px at dpr 1), plus some slack
+// since the state we see is after the frame that ended the run.
+const PLAYER_HIT_R = 16;
+
+/**
+ * Temporary fallback, to be removed with the stale public/wasm build: events
+ * reconstructed from successive states, for engines without an event queue.
+ * It is approximate (events land on the frame they're noticed in, and a hit is
+ * guessed from proximity), so nothing new should depend on it. During play an enemy only leaves the list by being destroyed (reaching
+ * the bottom ends the run), and a power-up above the bottom edge only by being
+ * collected, so vanished ids are kills and pickups. Flat frames only carry
+ * enough for Died.
+ */
+function createInferredDrain(): EventDrain {
+  let prevPhase: GameState["phase"] | null = null;
+  let prevScore = 0;
+  let enemies = new Map<number, EnemyType>();
+  let powerups = new Map<number, Powerup>();
+
+  return {
+    source: "inferred",
+    drain(state, t, emit) {
+      const playing = prevPhase === "Play";
+      // A lower score means a new run: nothing from the old lists is an event.
+      const sameRun = playing && state.score >= prevScore;
+      prevPhase = state.phase;
+      prevScore = state.score;
+
+      if (isFlatFrame(state)) {
+        if (sameRun && state.phase === "Over") emit({ kind: "Died", t });
+        enemies.clear();
+        powerups.clear();
+        return;
+      }
+
+      const nextEnemies = new Map<number, EnemyType>();
+      for (const e of state.enemies) nextEnemies.set(e.id, e.t);
+      // Older engines may not report power-ups at all.
+      const nextPowerups = new Map<number, Powerup>();
+      for (const p of state.powerups ?? []) nextPowerups.set(p.id, p);
+
+      if (sameRun) {
+        nextEnemies.forEach((type, id) => {
+          if (type === "Boss" && !enemies.has(id)) emit({ kind: "BossSpawned", t });
+        });
+        enemies.forEach((type, id) => {
+          if (nextEnemies.has(id)) return;
+          emit(type === "Boss" ? { kind: "BossKilled", t } : { kind: "EnemyKilled", enemy: type, t });
+        });
+        powerups.forEach((p, id) => {
+          if (!nextPowerups.has(id) && p.y < state.h) emit({ kind: "PowerupCollected", powerup: p.t, t });
+        });
+        if (state.phase === "Over") {
+          const hit = state.enemies.find((e) => {
+            const rr = e.r + PLAYER_HIT_R * state.dpr;
+            return (e.x - state.px) ** 2 + (e.y - state.py) ** 2 <= rr * rr;
+          });
+          if (hit) emit({ kind: "PlayerHit", enemy: hit.t, t });
+          emit({ kind: "Died", t });
+        }
+      }
+
+      enemies = nextEnemies;
+      powerups = nextPowerups;
+    },
+  };
+}
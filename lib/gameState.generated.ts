@@ -0,0 +1,123 @@
+// Generated by scripts/gen-state-types.mjs from wasm-engine/src/lib.rs. Do not edit.
+// Regenerate after changing the engine's serde types: npm run gen:state-types
+
+export type GameState = {
+  phase: Phase;
+  score: number;
+  px: number;
+  py: number;
+  tx: number;
+  w: number;
+  h: number;
+  dpr: number;
+  enemies: Enemy[];
+  particles: Particle[];
+  powerups: Powerup[];
+  shake: number;
+  bullets: Bullet[];
+  flame: boolean;
+  drones: boolean;
+};
+
+export type Phase = "Menu" | "Play" | "Over";
+
+export type Enemy = {
+  id: number;
+  t: EnemyType;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  r: number;
+  hp: number;
+  max_hp: number;
+};
+
+export type EnemyType = "Scout" | "Zigzag" | "Tank" | "Boss" | "Kamikaze" | "Bomb";
+
+export type Particle = {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  life: number;
+  max_life: number;
+};
+
+export type Powerup = {
+  id: number;
+  x: number;
+  y: number;
+  vy: number;
+  t: PowerupType;
+};
+
+export type PowerupType = "Overdrive" | "Drones";
+
+export type Bullet = {
+  id: number;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+};
+
+// Field types per struct ("number", "boolean", "string", a type name, or "<type>[]").
+export const GAME_STATE_STRUCTS = {
+  GameState: {
+    phase: "Phase",
+    score: "number",
+    px: "number",
+    py: "number",
+    tx: "number",
+    w: "number",
+    h: "number",
+    dpr: "number",
+    enemies: "Enemy[]",
+    particles: "Particle[]",
+    powerups: "Powerup[]",
+    shake: "number",
+    bullets: "Bullet[]",
+    flame: "boolean",
+    drones: "boolean",
+  },
+  Enemy: {
+    id: "number",
+    t: "EnemyType",
+    x: "number",
+    y: "number",
+    vx: "number",
+    vy: "number",
+    r: "number",
+    hp: "number",
+    max_hp: "number",
+  },
+  Particle: {
+    x: "number",
+    y: "number",
+    vx: "number",
+    vy: "number",
+    life: "number",
+    max_life: "number",
+  },
+  Powerup: {
+    id: "number",
+    x: "number",
+    y: "number",
+    vy: "number",
+    t: "PowerupType",
+  },
+  Bullet: {
+    id: "number",
+    x: "number",
+    y: "number",
+    vx: "number",
+    vy: "number",
+  },
+} as const;
+
+export const GAME_STATE_ENUMS = {
+  Phase: ["Menu", "Play", "Over"],
+  EnemyType: ["Scout", "Zigzag", "Tank", "Boss", "Kamikaze", "Bomb"],
+  PowerupType: ["Overdrive", "Drones"],
+} as const;
@@ -0,0 +1,92 @@
+// Engine state as returned by GameEngine.get_state() (serde output of the Rust
+// GameState). The types are generated from wasm-engine/src/lib.rs; this module
+// adds a dev-mode check that the WASM actually in use still matches them, so a
+// rebuilt engine with renamed fields or new variants is flagged instead of
+// silently drawing nothing.
+
+import { GAME_STATE_ENUMS, GAME_STATE_STRUCTS } from "./gameState.generated";
+
+export type {
+  Bullet,
+  Enemy,
+  EnemyType,
+  GameState,
+  Particle,
+  Phase,
+  Powerup,
+  PowerupType,
+} from "./gameState.generated";
+
+type StructName = keyof typeof GAME_STATE_STRUCTS;
+type EnumName = keyof typeof GAME_STATE_ENUMS;
+
+function describe(v: unknown) {
+  if (v === null) return "null";
+  if (Array.isArray(v)) return "array";
+  return typeof v === "string" ? JSON.stringify(v) : typeof v;
+}
+
+function checkValue(value: unknown, type: string, path: string, problems: string[]) {
+  if (type.endsWith("[]")) {
+    if (!Array.isArray(value)) {
+      problems.push(`${path}: expected array, got ${describe(value)}`);
+      return;
+    }
+    // The first element is enough to catch a shape change, and keeps this cheap per frame.
+    if (value.length > 0) checkValue(value[0], type.slice(0, -2), `${path}[0]`, problems);
+    return;
+  }
+  if (type === "number" || type === "boolean" || type === "string") {
+    if (typeof value !== type) problems.push(`${path}: expected ${type}, got ${describe(value)}`);
+    return;
+  }
+  if (type in GAME_STATE_ENUMS) {
+    const variants = GAME_STATE_ENUMS[type as EnumName] as readonly string[];
+    if (typeof value !== "string" || !variants.includes(value)) {
+      problems.push(`${path}: expected ${type} (${variants.join(" | ")}), got ${describe(value)}`);
+    }
+    return;
+  }
+  checkStruct(value, type as StructName, path, problems);
+}
+
+function checkStruct(value: unknown, name: StructName, path: string, problems: string[]) {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    problems.push(`${path}: expected ${name} object, got ${describe(value)}`);
+    return;
+  }
+  const fields = GAME_STATE_STRUCTS[name] as Record<string, string>;
+  const obj = value as Record<string, unknown>;
+  for (const [field, type] of Object.entries(fields)) {
+    if (!(field in obj)) problems.push(`${path}.${field}: missing`);
+    else checkValue(obj[field], type, `${path}.${field}`, problems);
+  }
+  for (const field of Object.keys(obj)) {
+    if (!(field in fields)) problems.push(`${path}.${field}: not in the generated ${name} type`);
+  }
+}
+
+/** Differences between a get_state() result and the generated GameState type (empty when they match). */
+export function validateGameState(state: unknown): string[] {
+  const problems: string[] = [];
+  checkStruct(state, "GameState", "state", problems);
+  return problems;
+}
+
+const reported = new Set<string>();
+
+/**
+ * Dev builds only: validates `state` and warns once per distinct problem.
+ * Cheap enough to run every frame (arrays are sampled by their first element).
+ */
+export function warnOnGameStateDrift(state: unknown) {
+  if (process.env.NODE_ENV === "production") return;
+  for (const p of validateGameState(state)) {
+    if (reported.has(p)) continue;
+    reported.add(p);
+    console.warn(
+      `[gameState] engine state doesn't match lib/gameState.generated.ts (${p}). ` +
+        "Rebuild the WASM and run npm run gen:state-types."
+    );
+  }
+}
@@ -1,66 +1,44 @@
 import type { EIP1193Provider } from './ethProvider';
 import { appendBuilderCodesSuffix } from './builderCodes';
+import { chainConfig } from './chains';
+import {
+  getWalletCapabilities,
+  isUserRejection,
+  parseCallsStatus,
+  walletErrorCode,
+  WALLET_ERRORS,
+  type CallsStatus,
+} from './walletCapabilities';
 
 type Hex = `0x${string}`;
 
-type PaymasterCapabilities = Record<Hex, { paymasterService?: { supported?: boolean } }>;
-
 type SendCall = { to: Hex; data: Hex; value?: Hex };
 
-type CallsStatus = {
-  status?: 'PENDING' | 'CONFIRMED' | 'FAILED';
-  receipts?: Array<{ transactionHash?: Hex }>; // wallet implementations vary
-  transactionHash?: Hex; // some wallets return this directly
+export type CallsPollOptions = {
+  // How long to wait for the wallet to report a tx hash.
+  timeoutMs?: number;
+  intervalMs?: number;
 };
 
-function isHexString(x: unknown): x is Hex {
-  return typeof x === 'string' && x.startsWith('0x');
-}
+const DEFAULT_POLL_TIMEOUT_MS = 60_000;
+const DEFAULT_POLL_INTERVAL_MS = 800;
+
+// wallet_sendCalls versions, newest first; a wallet that rejects one gets the next.
+const SEND_CALLS_VERSIONS = ['2.0.0', '1.0'] as const;
 
 function sleep(ms: number) {
   return new Promise((r) => setTimeout(r, ms));
 }
 
 /**
- * Returns an absolute URL that wallets can reach.
- * Prefer NEXT_PUBLIC_PAYMASTER_PROXY_SERVER_URL; fallback to same-origin /api/paymaster.
+ * Returns an absolute URL that wallets can reach for `chainId`.
+ * Prefer the chain's configured proxy URL; fallback to same-origin /api/paymaster.
  */
-export function getPaymasterProxyUrl(): string | null {
-  const envUrl = process.env.NEXT_PUBLIC_PAYMASTER_PROXY_SERVER_URL;
+export function getPaymasterProxyUrl(chainId: number): string | null {
+  const envUrl = chainConfig(chainId)?.paymasterProxyUrl;
   if (envUrl && envUrl.startsWith('http')) return envUrl;
   if (typeof window === 'undefined') return null;
-  return `${window.location.origin}/api/paymaster`;
-}
-
-async function walletGetCapabilities(
-  eth: EIP1193Provider,
-  account?: Hex,
-  chainIds?: Hex[]
-): Promise<PaymasterCapabilities | null> {
-  // Wallets differ on params shape. Try a few harmless variants.
-  // Per EIP-5792, the canonical form is: [account, [chainId1, chainId2, ...]].
-  const variants: any[] = [
-    [],
-    account && chainIds?.length ? [account, chainIds] : null,
-    account ? [account] : null,
-    account ? [{ account }] : null,
-    account && chainIds?.length ? [{ account, chainIds }] : null,
-  ].filter(Boolean);
-
-  for (const params of variants) {
-    try {
-      const res = (await eth.request({
-        method: 'wallet_getCapabilities',
-        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-        params,
-      })) as any;
-      if (res && typeof res === 'object') return res as PaymasterCapabilities;
-    } catch {
-      // try next variant
-    }
-  }
-
-  return null;
+  return `${window.location.origin}/api/paymaster?chainId=${chainId}`;
 }
 
 export async function supportsPaymaster(
@@ -68,17 +46,13 @@ export async function supportsPaymaster(
   chainIdHex: Hex,
   account?: Hex
 ): Promise<boolean> {
-  // Query only the chain we care about first (some wallets require this param).
-  const caps = await walletGetCapabilities(eth, account, [chainIdHex]);
-  if (!caps) return false;
-  // Some stacks (e.g. wrapper libs) return numeric chain IDs instead of hex keys.
-  const chainIdNum = Number.parseInt(chainIdHex, 16);
-  const anyCaps = caps as any;
-  const entry =
-    (anyCaps?.[chainIdHex] as any) ??
-    (anyCaps?.[chainIdNum] as any) ??
-    (anyCaps?.['0x0'] as any);
-  return Boolean(entry?.paymasterService?.supported);
+  const caps = await getWalletCapabilities(eth, account, chainIdHex);
+  return Boolean(caps?.paymasterService);
+}
+
+/** Whether the wallet implements wallet_sendCalls at all (it advertises capabilities). */
+export async function supportsSendCalls(eth: EIP1193Provider, chainIdHex: Hex, account?: Hex) {
+  return (await getWalletCapabilities(eth, account, chainIdHex)) !== null;
 }
 
 function normalizeCallsId(callsIdRaw: unknown): string | null {
@@ -89,89 +63,152 @@ function normalizeCallsId(callsIdRaw: unknown): string | null {
   return typeof v === 'string' ? v : null;
 }
 
-async function walletGetCallsStatus(
-  eth: EIP1193Provider,
-  callsId: string
-): Promise<CallsStatus | null> {
+async function walletGetCallsStatus(eth: EIP1193Provider, callsId: string): Promise<CallsStatus | null> {
   try {
-    const res = (await eth.request({
-      method: 'wallet_getCallsStatus',
-      params: [callsId],
-    })) as any;
-    if (res && typeof res === 'object') return res as CallsStatus;
-    return null;
+    return parseCallsStatus(await eth.request({ method: 'wallet_getCallsStatus', params: [callsId] }));
   } catch {
     return null;
   }
 }
 
-function extractTxHash(status: CallsStatus | null): Hex | null {
-  if (!status) return null;
-  const direct = status.transactionHash;
-  if (isHexString(direct)) return direct;
+/** A bundle the wallet reported as failed (400: nothing went onchain). */
+export class CallsFailedError extends Error {
+  constructor(
+    readonly statusCode: 400 | 500 | 600,
+    message: string
+  ) {
+    super(message);
+    this.name = 'CallsFailedError';
+  }
+}
 
-  const receiptHash = status.receipts?.[0]?.transactionHash;
-  if (isHexString(receiptHash)) return receiptHash;
+/**
+ * Polls wallet_getCallsStatus until the bundle's tx hashes are known; throws on
+ * 400/500/600. An atomic bundle is one tx, so its first hash is enough. A
+ * non-atomic one may land as several txs, reported as they go out, so it waits
+ * for the final status to have them all.
+ */
+export async function waitForCallsTxHashes(
+  eth: EIP1193Provider,
+  callsId: string,
+  opts?: CallsPollOptions
+): Promise<Hex[]> {
+  const timeoutMs = opts?.timeoutMs ?? DEFAULT_POLL_TIMEOUT_MS;
+  const intervalMs = opts?.intervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const deadline = Date.now() + timeoutMs;
+  let seen: Hex[] = [];
+
+  for (;;) {
+    const status = await walletGetCallsStatus(eth, callsId);
+    if (status?.code === 400) throw new CallsFailedError(400, 'The wallet could not submit the calls');
+    if (status?.code === 500) throw new CallsFailedError(500, 'The calls reverted onchain');
+    if (status?.code === 600) throw new CallsFailedError(600, 'Some of the calls reverted onchain');
+    if (status?.txHashes.length) {
+      seen = status.txHashes;
+      if (!status.pending || status.atomic === true) return seen;
+    }
+    if (Date.now() >= deadline) break;
+    await sleep(intervalMs);
+  }
 
-  return null;
+  // Still pending, but some txs are out: hand those back rather than lose them.
+  if (seen.length) {
+    console.warn('[gasless] calls still pending; returning the tx hashes seen so far', seen);
+    return seen;
+  }
+  throw new Error('Timed out waiting for transaction hash');
 }
 
 /**
- * Sends ERC-5792 calls with a paymasterService capability (ERC-7677).
- * Returns the onchain transaction hash.
+ * Sends EIP-5792 calls, optionally with a paymasterService capability (ERC-7677),
+ * and returns the bundle id. Tries the v2 request shape, then v1.
  */
-export async function sendSponsoredCallsAndGetTxHash(params: {
+export async function sendCalls(params: {
   eth: EIP1193Provider;
   chainIdHex: Hex;
   from: Hex;
   calls: SendCall[];
-  paymasterServiceUrl: string;
+  paymasterServiceUrl?: string;
   paymasterContext?: Record<string, any>;
-}): Promise<Hex> {
+}): Promise<string> {
   const { eth, chainIdHex, from, calls, paymasterServiceUrl, paymasterContext } = params;
 
-  // EIP-7677 paymasterService capability is provided inside wallet_sendCalls.
-  // The wallet is responsible for contacting the paymaster URL.
-  const callsIdRaw = await eth.request({
-    method: 'wallet_sendCalls',
-    params: [
-      {
-        version: '1.0',
-        chainId: chainIdHex,
-        from,
-        calls: calls.map((c) => ({
-          ...c,
-          // Append ERC-8021 attribution suffix (Base Builder Codes) to every call.
-          data: appendBuilderCodesSuffix(c.data),
-          value: c.value ?? '0x0',
-        })),
-        capabilities: {
-          paymasterService: {
-            url: paymasterServiceUrl,
-            context: paymasterContext ?? {},
-          },
+  const capabilities = paymasterServiceUrl
+    ? {
+        // EIP-7677 paymasterService capability is provided inside wallet_sendCalls.
+        // The wallet is responsible for contacting the paymaster URL.
+        paymasterService: {
+          url: paymasterServiceUrl,
+          context: paymasterContext ?? {},
         },
-      },
-    ],
-  });
+      }
+    : {};
 
-  const callsId = normalizeCallsId(callsIdRaw);
-  if (!callsId) {
-    throw new Error('wallet_sendCalls did not return a callsId');
+  let lastErr: unknown = null;
+  for (const version of SEND_CALLS_VERSIONS) {
+    try {
+      const callsIdRaw = await eth.request({
+        method: 'wallet_sendCalls',
+        params: [
+          {
+            version,
+            chainId: chainIdHex,
+            from,
+            // v2: runs of one call are atomic anyway; batches may go one by one.
+            ...(version === '2.0.0' ? { atomicRequired: false } : {}),
+            calls: calls.map((c) => ({
+              ...c,
+              // Append ERC-8021 attribution suffix (Base Builder Codes) to every call.
+              data: appendBuilderCodesSuffix(c.data),
+              value: c.value ?? '0x0',
+            })),
+            capabilities,
+          },
+        ],
+      });
+      const callsId = normalizeCallsId(callsIdRaw);
+      if (!callsId) throw new Error('wallet_sendCalls did not return a callsId');
+      return callsId;
+    } catch (err) {
+      // Only a request-shape complaint is worth another version.
+      if (walletErrorCode(err) !== WALLET_ERRORS.invalidParams) throw err;
+      lastErr = err;
+    }
   }
+  throw lastErr;
+}
 
-  // Poll status until we get a tx hash.
-  for (let i = 0; i < 30; i++) {
-    const status = await walletGetCallsStatus(eth, callsId);
-    const txHash = extractTxHash(status);
-    if (txHash) return txHash;
+/**
+ * Sends the calls through wallet_sendCalls and returns the onchain transaction
+ * hashes (one, or several when the wallet split a batch). With `paymasterServiceUrl` the calls are sponsored first; if the wallet
+ * refuses the sponsorship before anything reaches the chain (paymaster
+ * rejection, unsupported capability, status 400) they go again as plain
+ * wallet_sendCalls. User rejections are never retried.
+ */
+export async function sendCallsAndGetTxHashes(params: {
+  eth: EIP1193Provider;
+  chainIdHex: Hex;
+  from: Hex;
+  calls: SendCall[];
+  paymasterServiceUrl?: string;
+  paymasterContext?: Record<string, any>;
+  poll?: CallsPollOptions;
+}): Promise<{ hashes: Hex[]; sponsored: boolean }> {
+  const { poll, ...send } = params;
 
-    // If wallet reports failure, stop polling.
-    if (status?.status === 'FAILED') {
-      throw new Error('Sponsored call failed');
+  if (send.paymasterServiceUrl) {
+    try {
+      const callsId = await sendCalls(send);
+      // Past this point only an offchain failure is safe to resend: anything else may be onchain.
+      return { hashes: await waitForCallsTxHashes(send.eth, callsId, poll), sponsored: true };
+    } catch (err) {
+      if (isUserRejection(err)) throw err;
+      if (err instanceof CallsFailedError && err.statusCode !== 400) throw err;
+      if (err instanceof Error && err.message.startsWith('Timed out')) throw err;
+      console.warn('[gasless] sponsored wallet_sendCalls failed; retrying without paymaster', err);
     }
-    await sleep(800);
   }
 
-  throw new Error('Timed out waiting for transaction hash');
+  const callsId = await sendCalls({ ...send, paymasterServiceUrl: undefined });
+  return { hashes: await waitForCallsTxHashes(send.eth, callsId, poll), sponsored: false };
 }
@@ -0,0 +1,43 @@
+import { sdk } from "@farcaster/miniapp-sdk";
+import type { GameEventBus } from "./gameEvents";
+
+// Haptic feedback for game events, through the Mini App host. Outside a Mini
+// App, or on hosts without haptics, this stays silent. Plain kills don't
+// buzz; they come several times a second.
+
+export function attachHaptics(bus: GameEventBus): () => void {
+  let impact = false;
+  let notify = false;
+  let detached = false;
+
+  (async () => {
+    try {
+      if (!(await sdk.isInMiniApp())) return;
+      const caps = await sdk.getCapabilities();
+      impact = caps.includes("haptics.impactOccurred");
+      notify = caps.includes("haptics.notificationOccurred");
+    } catch {
+      // no host: leave haptics off
+    }
+  })();
+
+  const offs = [
+    bus.on("BossSpawned", () => {
+      if (impact && !detached) sdk.haptics.impactOccurred("medium").catch(() => {});
+    }),
+    bus.on("BossKilled", () => {
+      if (impact && !detached) sdk.haptics.impactOccurred("heavy").catch(() => {});
+    }),
+    bus.on("PowerupCollected", () => {
+      if (notify && !detached) sdk.haptics.notificationOccurred("success").catch(() => {});
+    }),
+    bus.on("Died", () => {
+      if (notify && !detached) sdk.haptics.notificationOccurred("error").catch(() => {});
+    }),
+  ];
+
+  return () => {
+    detached = true;
+    offs.forEach((off) => off());
+  };
+}
@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const MAINNET = 8453;
+const ALICE = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const BOB = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+const CAROL = "0xcccccccccccccccccccccccccccccccccccccccc";
+
+// The migration remembers it ran (per process), so each test loads fresh
+// modules, on an empty in-memory store.
+let getJson: typeof import("./storage").getJson;
+let setJson: typeof import("./storage").setJson;
+
+async function load() {
+  vi.resetModules();
+  const storage = await import("./storage");
+  storage.setStorageBackend(storage.createMemoryBackend());
+  ({ getJson, setJson } = storage);
+  return import("./leaderboard");
+}
+
+function entry(address: string, score: number, updatedAt: number) {
+  return { address, score, updatedAt, txHash: `0x${score.toString(16).padStart(64, "0")}` };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("legacy single-board migration", () => {
+  it("moves the original board into the mainnet easy board", async () => {
+    const lb = await load();
+    const now = lb.currentWeekId();
+    const start = (w: number) => lb.weekWindowFromId(w).startMs;
+
+    // Snapshotted by the old code, and already snapshotted (empty) by the new one.
+    await setJson(`dw:lb:snapshot:${now - 2}`, {
+      weekId: now - 2,
+      weekStartMs: start(now - 2),
+      weekEndMs: start(now - 1),
+      createdAtMs: start(now - 1),
+      totalPlayers: 150,
+      top: [entry(ALICE, 900, start(now - 2) + 1000), entry(BOB, 400, start(now - 2) + 2000)],
+    });
+    await setJson("dw:lb:snapshots", [now - 2]);
+    await setJson(`dw:lb:snapshot:easy:${now - 2}`, {
+      weekId: now - 2,
+      difficulty: "easy",
+      chainId: MAINNET,
+      weekStartMs: start(now - 2),
+      weekEndMs: start(now - 1),
+      createdAtMs: start(now - 1),
+      totalPlayers: 0,
+      top: [],
+    });
+    await setJson("dw:lb:lastSnapWeekId", now - 2);
+    // Ended, but the old code never snapshotted it.
+    await setJson(`dw:lb:week:${now - 1}`, {
+      weekId: now - 1,
+      updatedAt: start(now - 1),
+      entries: { [CAROL]: entry(CAROL, 700, start(now - 1) + 5000) },
+    });
+    // The current week.
+    await setJson(`dw:lb:week:${now}`, {
+      weekId: now,
+      updatedAt: start(now),
+      entries: { [BOB]: entry(BOB, 300, start(now) + 1000) },
+    });
+
+    await lb.rolloverIfNeeded(MAINNET, now);
+
+    const twoAgo = await lb.getWeekLeaderboardView({ chainId: MAINNET, difficulty: "easy", weekId: now - 2 });
+    expect(twoAgo.kind).toBe("snapshot");
+    expect(twoAgo.top.map((e) => [e.address, e.score])).toEqual([
+      [ALICE, 900],
+      [BOB, 400],
+    ]);
+    expect(twoAgo.totalPlayers).toBe(150);
+
+    const lastWeek = await lb.getWeekLeaderboardView({ chainId: MAINNET, difficulty: "easy", weekId: now - 1 });
+    expect(lastWeek.kind).toBe("snapshot");
+    expect(lastWeek.top.map((e) => [e.address, e.score])).toEqual([[CAROL, 700]]);
+
+    const live = await lb.getWeekLeaderboardView({ chainId: MAINNET, difficulty: "easy", weekId: now });
+    expect(live.kind).toBe("live");
+    expect(live.top.map((e) => [e.address, e.score, e.chainId])).toEqual([[BOB, 300, MAINNET]]);
+
+    expect((await lb.listWeekSnapshots(MAINNET, "easy")).map((w) => w.weekId)).toEqual([now - 1, now - 2]);
+    for (const key of [`dw:lb:snapshot:${now - 2}`, "dw:lb:snapshots", `dw:lb:week:${now - 1}`, `dw:lb:week:${now}`]) {
+      expect(await getJson(key)).toBeNull();
+    }
+  });
+
+  it("keeps a better score already on the new board", async () => {
+    const lb = await load();
+    const now = lb.currentWeekId();
+    const t = lb.weekWindowFromId(now).startMs + 1000;
+    await lb.upsertWeeklyBest({
+      chainId: MAINNET,
+      tsMs: t,
+      address: ALICE,
+      score: 1200,
+      txHash: `0x${"1".repeat(64)}`,
+      difficulty: "easy",
+    });
+    await setJson(`dw:lb:week:${now}`, { weekId: now, updatedAt: t, entries: { [ALICE]: entry(ALICE, 500, t) } });
+
+    await lb.rolloverIfNeeded(MAINNET, now);
+
+    const live = await lb.getWeekLeaderboardView({ chainId: MAINNET, difficulty: "easy", weekId: now });
+    expect(live.top.map((e) => [e.address, e.score])).toEqual([[ALICE, 1200]]);
+  });
+
+  it("leaves other chains alone", async () => {
+    const lb = await load();
+    const now = lb.currentWeekId();
+    await setJson(`dw:lb:week:${now}`, { weekId: now, updatedAt: 0, entries: { [ALICE]: entry(ALICE, 500, 0) } });
+
+    await lb.rolloverIfNeeded(84532, now);
+
+    expect(await getJson(`dw:lb:week:${now}`)).not.toBeNull();
+    expect(await getJson("dw:lb:migrated")).toBeNull();
+  });
+});
+
+describe("closed weeks", () => {
+  const tx = `0x${"2".repeat(64)}` as const;
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it("drops and reports a score for a week past its grace period", async () => {
+    const lb = await load();
+    const now = lb.currentWeekId();
+    await lb.rolloverIfNeeded(MAINNET, now);
+
+    const t = lb.weekWindowFromId(now - 2).startMs + 1000;
+    const res = await lb.upsertWeeklyBest({
+      chainId: MAINNET,
+      tsMs: t,
+      address: ALICE,
+      score: 500,
+      txHash: tx,
+      difficulty: "easy",
+    });
+    expect(res).toEqual({ weekId: now - 2, improved: false, weekClosed: true });
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining(`week ${now - 2} (easy, chain ${MAINNET}) is closed`)
+    );
+    expect(await lb.countPlayers(MAINNET, "easy", now - 2)).toBe(0);
+  });
+
+  it("expires the live keys of weeks the rollover skips", async () => {
+    vi.stubEnv("LEADERBOARD_MAX_ROLLOVER_WEEKS", "1");
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const lb = await load();
+    const now = lb.currentWeekId();
+    const t = lb.weekWindowFromId(now - 3).startMs + 1000;
+    await lb.upsertWeeklyBest({
+      chainId: MAINNET,
+      tsMs: t,
+      address: ALICE,
+      score: 500,
+      txHash: tx,
+      difficulty: "hard",
+      backfill: true,
+    });
+
+    await lb.rolloverIfNeeded(MAINNET, now);
+    expect(await lb.readSnapshot(MAINNET, "hard", now - 3)).toBeNull();
+    expect(await lb.countPlayers(MAINNET, "hard", now - 3)).toBe(1);
+
+    vi.setSystemTime(Date.now() + 25 * 60 * 60 * 1000);
+    expect(await lb.countPlayers(MAINNET, "hard", now - 3)).toBe(0);
+  });
+});
@@ -2,24 +2,37 @@
 // - No cron required
 // - Rollover happens on demand (first request after a week ends)
 // - DB stays tidy: live week stores + immutable snapshots
+// - Rollover runs under a lease, so concurrent requests never snapshot twice
+// - One board per difficulty: easy runs never compete with hard runs
+// - One set of boards per chain (lib/chains.ts): testnet runs never reach mainnet
+// - Live weeks are a sorted set (ranking) + a hash (per-entry metadata), written
+//   together atomically, so concurrent saves never overwrite each other and
+//   rank lookups stay cheap
+
+import { DIFFICULTIES, type Difficulty } from "./difficulty";
+import { delKey, getJson, getStorage, isPersistentStorage, setJson, withLease } from "./storage";
 
 type Addr = `0x${string}`;
 
+/**
+ * Board for scores whose difficulty can't be established (no calldata tag, no
+ * verified replay — e.g. direct contract calls). Easy is the conservative pick:
+ * an unknown run can never outrank a genuine run on a harder board.
+ */
+export const UNTAGGED_DIFFICULTY: Difficulty = "easy";
+
 export type LeaderboardEntry = {
   address: Addr;
   score: number;
   updatedAt: number; // ms
   txHash: `0x${string}`;
-};
-
-export type WeekStore = {
-  weekId: number;
-  updatedAt: number;
-  entries: Record<string, LeaderboardEntry>; // keyed by lowercase address
+  chainId: number;
 };
 
 export type WeekSnapshot = {
   weekId: number;
+  difficulty: Difficulty;
+  chainId: number;
   weekStartMs: number;
   weekEndMs: number;
   createdAtMs: number;
@@ -29,14 +42,38 @@ export type WeekSnapshot = {
 
 const DEFAULT_WEEK_MS = 7 * 24 * 60 * 60 * 1000;
 const PREFIX = "dw:lb";
+const BASE_MAINNET_ID = 8453;
+
+/**
+ * Key namespace for a chain's leaderboard data. Base mainnet keeps the
+ * un-namespaced `dw:lb` prefix; its older layouts are moved into the current
+ * keys by migrateLegacyBoards (see "Legacy layouts" below).
+ */
+export function chainKeyPrefix(chainId: number) {
+  return chainId === BASE_MAINNET_ID ? PREFIX : `${PREFIX}:c${chainId}`;
+}
 
 const KEY = {
-  weekStore: (weekId: number) => `${PREFIX}:week:${weekId}`,
-  snapshot: (weekId: number) => `${PREFIX}:snapshot:${weekId}`,
-  snapshotsIndex: `${PREFIX}:snapshots`,
-  lastSnapWeekId: `${PREFIX}:lastSnapWeekId`,
+  // zset: member = lowercase address, score = rankScore(score, tsMs, weekId)
+  weekRank: (c: number, d: Difficulty, weekId: number) => `${chainKeyPrefix(c)}:rank:${d}:${weekId}`,
+  // hash: field = lowercase address, value = LeaderboardEntry
+  weekMeta: (c: number, d: Difficulty, weekId: number) => `${chainKeyPrefix(c)}:meta:${d}:${weekId}`,
+  snapshot: (c: number, d: Difficulty, weekId: number) => `${chainKeyPrefix(c)}:snapshot:${d}:${weekId}`,
+  snapshotsIndex: (c: number, d: Difficulty) => `${chainKeyPrefix(c)}:snapshots:${d}`,
+  lastSnapWeekId: (c: number) => `${chainKeyPrefix(c)}:lastSnapWeekId`,
+  rolloverLock: (c: number) => `${chainKeyPrefix(c)}:lock:rollover`,
+  // All-time board (best accepted score, across difficulties)
+  allTimeRank: (c: number) => `${chainKeyPrefix(c)}:alltime:rank`,
+  allTimeMeta: (c: number) => `${chainKeyPrefix(c)}:alltime:meta`,
 };
 
+// Long enough for a full (capped) catch-up; expires if the holder dies.
+const ROLLOVER_LOCK_TTL_MS = 60_000;
+// Snapshotted weeks keep their live keys this long, so late scores (tx mined
+// just before the reset, ingested after it) still land and refresh the snapshot.
+const LIVE_GRACE_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_ROLLOVER_WEEKS = 8;
+
 /**
  * Week 0 anchor (UTC). Override in env:
  *   LEADERBOARD_GENESIS_ISO="2026-01-01T00:00:00Z"
@@ -59,6 +96,16 @@ function getWeekMs() {
   return Number.isFinite(ms) && ms >= 10_000 ? ms : DEFAULT_WEEK_MS; // minimum 10s safety
 }
 
+/**
+ * Caps how many ended weeks one rollover snapshots after a long idle period:
+ *   LEADERBOARD_MAX_ROLLOVER_WEEKS=8
+ * Older weeks are skipped: they get no snapshot, and their live keys expire.
+ */
+function getMaxRolloverWeeks() {
+  const n = Number(process.env.LEADERBOARD_MAX_ROLLOVER_WEEKS);
+  return Number.isInteger(n) && n > 0 ? n : DEFAULT_MAX_ROLLOVER_WEEKS;
+}
+
 export function weekIdFromTs(tsMs: number) {
   const genesis = getGenesisMs();
   const weekMs = getWeekMs();
@@ -76,119 +123,101 @@ export function weekWindowFromId(weekId: number) {
   return { startMs, endMs: startMs + weekMs, weekMs, genesisMs: genesis };
 }
 
-function storageEnabled() {
-  // Vercel KV vars OR plain Upstash vars (personal Upstash)
-  const hasKv = Boolean(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
-  const hasUpstash = Boolean(process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN);
-  return hasKv || hasUpstash;
-}
-
-async function kvClient(): Promise<any> {
-  // Dynamic import so local dev works without env.
-  const mod: any = await import("@vercel/kv");
-
-  // 1) If Vercel KV env is present, just use it.
-  if (process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN) return mod.kv;
+// Sorted-set score = score * 2^20 + tiebreak. The tiebreak counts down with
+// seconds into the week, so equal scores rank the earlier run first and ZADD GT
+// still means "only keep a better run". Exact for scores below 2^33.
+const TIE_BITS = 2 ** 20;
 
-  // 2) If personal Upstash env is present, create a client pointing to it.
-  const url = process.env.UPSTASH_REDIS_REST_URL;
-  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
-  if (url && token && typeof mod.createClient === "function") {
-    return mod.createClient({ url, token });
-  }
-
-  // 3) Fall back to default export (may still work if user used KV vars).
-  return mod.kv;
+function rankScore(score: number, tsMs: number, weekId: number) {
+  const { startMs } = weekWindowFromId(weekId);
+  const sec = Math.min(TIE_BITS - 1, Math.max(0, Math.floor((tsMs - startMs) / 1000)));
+  return score * TIE_BITS + (TIE_BITS - 1 - sec);
 }
 
-declare global {
-  // eslint-disable-next-line no-var
-  var __dwLeaderboardMem: Map<string, any> | undefined;
+function scoreFromRank(rank: number) {
+  return Math.floor(rank / TIE_BITS);
 }
-const mem = globalThis.__dwLeaderboardMem || (globalThis.__dwLeaderboardMem = new Map());
 
-async function getJson<T>(key: string): Promise<T | null> {
-  if (storageEnabled()) {
-    const kv = await kvClient();
-    const v = await kv.get(key);
-    return (v ?? null) as T | null;
-  }
-  return (mem.get(key) ?? null) as T | null;
+function isSnapshot(v: any, d: Difficulty, weekId: number): v is WeekSnapshot {
+  return Boolean(v && typeof v === "object" && v.weekId === weekId && v.difficulty === d && Array.isArray(v.top));
 }
 
-async function setJson(key: string, value: any) {
-  if (storageEnabled()) {
-    const kv = await kvClient();
-    await kv.set(key, value);
-  } else {
-    mem.set(key, value);
-  }
+export async function deleteWeekStore(chainId: number, difficulty: Difficulty, weekId: number) {
+  await delKey(KEY.weekRank(chainId, difficulty, weekId));
+  await delKey(KEY.weekMeta(chainId, difficulty, weekId));
 }
 
-async function delKey(key: string) {
-  if (storageEnabled()) {
-    const kv = await kvClient();
-    await kv.del(key);
-  } else {
-    mem.delete(key);
-  }
+/**
+ * Entries by rank, 0-based `offset`. The sorted set decides order and score;
+ * metadata fills in the rest.
+ */
+export async function topEntries(chainId: number, difficulty: Difficulty, weekId: number, limit = 100, offset = 0) {
+  const rankKey = KEY.weekRank(chainId, difficulty, weekId);
+  return readRanked(chainId, rankKey, KEY.weekMeta(chainId, difficulty, weekId), limit, offset);
 }
 
-function isWeekStore(v: any, weekId: number): v is WeekStore {
-  return Boolean(v && typeof v === "object" && v.weekId === weekId && v.entries && typeof v.entries === "object");
+async function readRanked(chainId: number, rankKey: string, metaKey: string, limit: number, offset: number) {
+  if (limit <= 0) return [];
+  const storage = getStorage();
+  const ranked = await storage.zrange(rankKey, offset, offset + limit - 1, { rev: true });
+  const metas = await storage.hmget<LeaderboardEntry>(metaKey, ranked.map((r) => r.member));
+  return ranked.map(
+    (r, i): LeaderboardEntry => ({
+      address: (metas[i]?.address ?? r.member) as Addr,
+      score: scoreFromRank(r.score),
+      updatedAt: metas[i]?.updatedAt ?? 0,
+      txHash: (metas[i]?.txHash ?? "0x") as `0x${string}`,
+      chainId,
+    })
+  );
 }
 
-function isSnapshot(v: any, weekId: number): v is WeekSnapshot {
-  return Boolean(v && typeof v === "object" && v.weekId === weekId && Array.isArray(v.top));
-}
+export type RankedEntry = LeaderboardEntry & { rank: number }; // 1-based
 
-export async function loadWeekStore(weekId: number): Promise<WeekStore> {
-  const key = KEY.weekStore(weekId);
-  const existing = await getJson<WeekStore>(key);
-  if (existing && isWeekStore(existing, weekId)) return existing;
-  return { weekId, updatedAt: Date.now(), entries: {} };
-}
-
-export async function saveWeekStore(store: WeekStore) {
-  store.updatedAt = Date.now();
-  await setJson(KEY.weekStore(store.weekId), store);
+/**
+ * The window of up to `radius` entries either side of a player, or null when
+ * the player isn't on the board.
+ */
+async function rankedAround(chainId: number, rankKey: string, metaKey: string, address: string, radius: number) {
+  const r = await getStorage().zrevrank(rankKey, address.toLowerCase());
+  if (r === null) return null;
+  const offset = Math.max(0, r - radius);
+  const entries = await readRanked(chainId, rankKey, metaKey, r - offset + radius + 1, offset);
+  return { rank: r + 1, entries: entries.map((e, i): RankedEntry => ({ ...e, rank: offset + i + 1 })) };
 }
 
-export async function deleteWeekStore(weekId: number) {
-  await delKey(KEY.weekStore(weekId));
+export async function entriesAround(
+  chainId: number,
+  difficulty: Difficulty,
+  weekId: number,
+  address: string,
+  radius: number
+) {
+  const rankKey = KEY.weekRank(chainId, difficulty, weekId);
+  return rankedAround(chainId, rankKey, KEY.weekMeta(chainId, difficulty, weekId), address, radius);
 }
 
-export function topEntries(store: WeekStore, limit = 100) {
-  const arr = Object.values(store.entries);
-  arr.sort((a, b) => {
-    if (b.score !== a.score) return b.score - a.score;
-    return a.updatedAt - b.updatedAt;
-  });
-  return arr.slice(0, limit);
+/** 1-based rank, or null when the player has no entry this week. */
+export async function rankOf(chainId: number, difficulty: Difficulty, weekId: number, address: string) {
+  const r = await getStorage().zrevrank(KEY.weekRank(chainId, difficulty, weekId), address.toLowerCase());
+  return r === null ? null : r + 1;
 }
 
-export function rankOf(store: WeekStore, address: string) {
-  const addr = address.toLowerCase();
-  const arr = Object.values(store.entries);
-  arr.sort((a, b) => {
-    if (b.score !== a.score) return b.score - a.score;
-    return a.updatedAt - b.updatedAt;
-  });
-  const idx = arr.findIndex((e) => e.address.toLowerCase() === addr);
-  return idx >= 0 ? idx + 1 : null;
+export async function countPlayers(chainId: number, difficulty: Difficulty, weekId: number) {
+  return getStorage().zcard(KEY.weekRank(chainId, difficulty, weekId));
 }
 
-async function getLastSnapWeekId(): Promise<number> {
-  const v = await getJson<number>(KEY.lastSnapWeekId);
+async function getLastSnapWeekId(chainId: number): Promise<number> {
+  const v = await getJson<number>(KEY.lastSnapWeekId(chainId));
   return typeof v === "number" && Number.isFinite(v) ? v : -1;
 }
 
-async function setLastSnapWeekId(v: number) {
-  await setJson(KEY.lastSnapWeekId, v);
+async function setLastSnapWeekId(chainId: number, v: number) {
+  await setJson(KEY.lastSnapWeekId(chainId), v);
 }
 
-async function readSnapshotsIndex(): Promise<number[]> {
-  const v = await getJson<number[] | string>(KEY.snapshotsIndex);
+async function readSnapshotsIndex(chainId: number, difficulty: Difficulty): Promise<number[]> {
+  const v = await getJson<number[] | string>(KEY.snapshotsIndex(chainId, difficulty));
   if (Array.isArray(v)) return v.filter((n) => typeof n === "number" && Number.isFinite(n));
   if (typeof v === "string") {
     try {
@@ -201,146 +230,544 @@ async function readSnapshotsIndex(): Promise<number[]> {
   return [];
 }
 
-async function writeSnapshotsIndex(arr: number[]) {
+async function writeSnapshotsIndex(chainId: number, difficulty: Difficulty, arr: number[]) {
   // keep it sorted + unique
   const uniq = Array.from(new Set(arr)).sort((a, b) => a - b);
-  await setJson(KEY.snapshotsIndex, uniq);
+  await setJson(KEY.snapshotsIndex(chainId, difficulty), uniq);
 }
 
-async function ensureWeekSnapshot(weekId: number) {
-  // If snapshot already exists, don't recreate.
-  const existing = await getJson<WeekSnapshot>(KEY.snapshot(weekId));
-  if (existing && isSnapshot(existing, weekId)) return existing;
-
-  const store = await loadWeekStore(weekId);
+async function buildSnapshot(chainId: number, difficulty: Difficulty, weekId: number): Promise<WeekSnapshot> {
   const { startMs, endMs } = weekWindowFromId(weekId);
-
-  const snap: WeekSnapshot = {
+  return {
     weekId,
+    difficulty,
+    chainId,
     weekStartMs: startMs,
     weekEndMs: endMs,
     createdAtMs: Date.now(),
-    totalPlayers: Object.keys(store.entries).length,
-    top: topEntries(store, 100),
+    totalPlayers: await countPlayers(chainId, difficulty, weekId),
+    top: await topEntries(chainId, difficulty, weekId, 100),
   };
+}
 
-  await setJson(KEY.snapshot(weekId), snap);
+async function expireWeekStore(chainId: number, difficulty: Difficulty, weekId: number) {
+  const storage = getStorage();
+  await storage.expire(KEY.weekRank(chainId, difficulty, weekId), LIVE_GRACE_MS);
+  await storage.expire(KEY.weekMeta(chainId, difficulty, weekId), LIVE_GRACE_MS);
+}
+
+// Callers hold KEY.rolloverLock(chainId).
+async function ensureWeekSnapshot(chainId: number, difficulty: Difficulty, weekId: number) {
+  // If snapshot already exists, don't recreate.
+  const existing = await readSnapshot(chainId, difficulty, weekId);
+  if (existing) return existing;
+
+  const snap = await buildSnapshot(chainId, difficulty, weekId);
+
+  // setnx keeps the write idempotent even if the lease expired mid-rollover.
+  if (!(await getStorage().setnx(KEY.snapshot(chainId, difficulty, weekId), snap))) {
+    return (await readSnapshot(chainId, difficulty, weekId)) ?? snap;
+  }
 
-  const idx = await readSnapshotsIndex();
+  const idx = await readSnapshotsIndex(chainId, difficulty);
   if (!idx.includes(weekId)) {
     idx.push(weekId);
-    await writeSnapshotsIndex(idx);
+    await writeSnapshotsIndex(chainId, difficulty, idx);
   }
 
-  // Once snapshotted, delete the live week key to keep DB clean.
-  await deleteWeekStore(weekId);
+  // Once snapshotted, let the live week keys expire to keep DB clean. Not an
+  // immediate delete: a late score may be mid-ingest into this week.
+  await expireWeekStore(chainId, difficulty, weekId);
   return snap;
 }
 
+/**
+ * A late score improved an already-ended week: rebuild its snapshot from the
+ * (still live, see LIVE_GRACE_MS) week keys. No-op before the first snapshot,
+ * since rollover will pick the score up.
+ */
+async function refreshWeekSnapshot(chainId: number, difficulty: Difficulty, weekId: number) {
+  await withRolloverLeaseRetry(chainId, `refresh snapshot ${difficulty}:${weekId}`, async () => {
+    if (!(await readSnapshot(chainId, difficulty, weekId))) return;
+    await setJson(KEY.snapshot(chainId, difficulty, weekId), await buildSnapshot(chainId, difficulty, weekId));
+    await expireWeekStore(chainId, difficulty, weekId);
+  });
+}
+
+/**
+ * Rebuilds (or creates) a past week's snapshot once a backfill has re-ingested
+ * its logs into the live keys. Entries of an existing snapshot are merged back
+ * first, so a partial backfill can only add to it.
+ */
+export async function rebuildWeekSnapshot(chainId: number, difficulty: Difficulty, weekId: number) {
+  return withRolloverLeaseRetry(chainId, `rebuild snapshot ${difficulty}:${weekId}`, () =>
+    rebuildWeekSnapshotLocked(chainId, difficulty, weekId)
+  );
+}
+
+// Callers hold KEY.rolloverLock(chainId). `minPlayers`: a player count known
+// from elsewhere (e.g. a legacy snapshot merged into the live keys).
+async function rebuildWeekSnapshotLocked(chainId: number, difficulty: Difficulty, weekId: number, minPlayers = 0) {
+  const prev = await readSnapshot(chainId, difficulty, weekId);
+  await mergeEntries(chainId, difficulty, weekId, prev?.top ?? []);
+
+  const snap = await buildSnapshot(chainId, difficulty, weekId);
+  // Players below a previous snapshot's top 100 can't be merged back; keep its count.
+  snap.totalPlayers = Math.max(snap.totalPlayers, prev?.totalPlayers ?? 0, minPlayers);
+  await setJson(KEY.snapshot(chainId, difficulty, weekId), snap);
+
+  const idx = await readSnapshotsIndex(chainId, difficulty);
+  if (!idx.includes(weekId)) await writeSnapshotsIndex(chainId, difficulty, [...idx, weekId]);
+  await expireWeekStore(chainId, difficulty, weekId);
+}
+
+/** Adds entries to a week's live keys, keeping each player's better score. */
+async function mergeEntries(
+  chainId: number,
+  difficulty: Difficulty,
+  weekId: number,
+  entries: Array<Omit<LeaderboardEntry, "chainId">>
+) {
+  const storage = getStorage();
+  const rankKey = KEY.weekRank(chainId, difficulty, weekId);
+  const metaKey = KEY.weekMeta(chainId, difficulty, weekId);
+  for (const e of entries) {
+    const k = e.address.toLowerCase();
+    const rank = rankScore(e.score, e.updatedAt, weekId);
+    const meta = { ...e, chainId };
+    await storage.zaddWithMeta(rankKey, rank, k, metaKey, meta, { gt: true });
+  }
+}
+
+// Late-score refreshes and backfills wait briefly for a running rollover.
+async function withRolloverLeaseRetry(chainId: number, label: string, fn: () => Promise<void>) {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const res = await withLease(KEY.rolloverLock(chainId), ROLLOVER_LOCK_TTL_MS, fn);
+    if (res.acquired) return true;
+    await new Promise((r) => setTimeout(r, 250));
+  }
+  console.warn(`[leaderboard] could not ${label} (rollover busy)`);
+  return false;
+}
+
 /**
  * Snapshots all fully-ended weeks up to nowWeekId-1.
  * This is what makes the system \"cron-less\".
+ * Only one request does the work; the others skip it (readers fall back to the
+ * live keys until the snapshot exists).
  */
-export async function rolloverIfNeeded(nowWeekId = currentWeekId()) {
+export async function rolloverIfNeeded(chainId: number, nowWeekId = currentWeekId()) {
   const target = nowWeekId - 1;
   if (target < 0) return;
 
-  let last = await getLastSnapWeekId();
-  if (last >= target) return;
+  if (chainId === BASE_MAINNET_ID) await migrateLegacyBoards(nowWeekId);
+
+  // Cheap pre-check so the common case doesn't touch the lock.
+  if ((await getLastSnapWeekId(chainId)) >= target) return;
+
+  await withLease(KEY.rolloverLock(chainId), ROLLOVER_LOCK_TTL_MS, async () => {
+    let last = await getLastSnapWeekId(chainId);
+    if (last >= target) return;
+
+    const maxWeeks = getMaxRolloverWeeks();
+    if (target - last > maxWeeks) {
+      console.warn(`[leaderboard] skipping snapshots for weeks ${last + 1}..${target - maxWeeks}`);
+      // No snapshot will ever read their live keys; let them go like snapshotted weeks do.
+      for (let w = Math.max(0, last + 1); w <= target - maxWeeks; w++) {
+        for (const d of DIFFICULTIES) await expireWeekStore(chainId, d, w);
+      }
+      last = target - maxWeeks;
+    }
+
+    for (let w = last + 1; w <= target; w++) {
+      for (const d of DIFFICULTIES) await ensureWeekSnapshot(chainId, d, w);
+      last = w;
+      await setLastSnapWeekId(chainId, last);
+    }
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Legacy layouts. Only Base mainnet had them; the first rollover check after a
+// deploy moves their data into the current keys, once, under the rollover
+// lease. Versions:
+//   1. The original single board (no difficulty): live weeks in
+//      dw:lb:week:<id> (JSON), snapshots in dw:lb:snapshot:<id>, indexed by
+//      dw:lb:snapshots. Its scores carry no difficulty, so they go to the
+//      UNTAGGED_DIFFICULTY board.
+
+const LEGACY_LAYOUT_VERSION = 1;
+// How far back to look for leftover live weeks: ten years of weekly boards.
+const LEGACY_SCAN_WEEKS = 520;
+
+const LEGACY_KEY = {
+  // Highest legacy layout version migrated so far.
+  migrated: `${PREFIX}:migrated`,
+  weekStore: (weekId: number) => `${PREFIX}:week:${weekId}`,
+  snapshot: (weekId: number) => `${PREFIX}:snapshot:${weekId}`,
+  snapshotsIndex: `${PREFIX}:snapshots`,
+};
+
+type LegacyEntry = Omit<LeaderboardEntry, "chainId">;
+type LegacyWeekStore = { entries?: Record<string, LegacyEntry> };
+type LegacySnapshot = { top?: LegacyEntry[]; totalPlayers?: number };
+
+let legacyMigrated = false;
+
+function legacyEntries(list: unknown): LegacyEntry[] {
+  if (!Array.isArray(list)) return [];
+  return list.filter((e) => typeof e?.address === "string" && Number.isFinite(e?.score));
+}
+
+async function migrateLegacyBoards(nowWeekId: number) {
+  if (legacyMigrated) return;
+  const migratedVersion = async () => Number(await getJson<number>(LEGACY_KEY.migrated)) || 0;
+  if ((await migratedVersion()) >= LEGACY_LAYOUT_VERSION) {
+    legacyMigrated = true;
+    return;
+  }
+
+  // A request that doesn't get the lease carries on; the next one picks the migration up.
+  await withLease(KEY.rolloverLock(BASE_MAINNET_ID), ROLLOVER_LOCK_TTL_MS, async () => {
+    if ((await migratedVersion()) < 1) {
+      await migrateSingleBoard(nowWeekId);
+      await setJson(LEGACY_KEY.migrated, 1);
+      console.warn("[leaderboard] migrated the single legacy board into the easy board");
+    }
+    legacyMigrated = true;
+  });
+}
+
+// Callers hold KEY.rolloverLock(BASE_MAINNET_ID).
+async function migrateSingleBoard(nowWeekId: number) {
+  const chainId = BASE_MAINNET_ID;
+  const difficulty = UNTAGGED_DIFFICULTY;
+  // Ended weeks to re-snapshot, with the player count the legacy data knew of.
+  const ended = new Map<number, number>();
+
+  const index = await getJson<number[]>(LEGACY_KEY.snapshotsIndex);
+  for (const weekId of Array.isArray(index) ? index : []) {
+    const snap = await getJson<LegacySnapshot>(LEGACY_KEY.snapshot(weekId));
+    if (snap) {
+      await mergeEntries(chainId, difficulty, weekId, legacyEntries(snap.top));
+      ended.set(weekId, Math.max(ended.get(weekId) ?? 0, Number(snap.totalPlayers) || 0));
+    }
+    await delKey(LEGACY_KEY.snapshot(weekId));
+  }
+
+  // Weeks the old code hadn't snapshotted yet still have their live store.
+  for (let weekId = Math.max(0, nowWeekId - LEGACY_SCAN_WEEKS); weekId <= nowWeekId; weekId++) {
+    const store = await getJson<LegacyWeekStore>(LEGACY_KEY.weekStore(weekId));
+    if (!store) continue;
+    const entries = legacyEntries(Object.values(store.entries ?? {}));
+    await mergeEntries(chainId, difficulty, weekId, entries);
+    if (weekId < nowWeekId) ended.set(weekId, Math.max(ended.get(weekId) ?? 0, entries.length));
+    await delKey(LEGACY_KEY.weekStore(weekId));
+  }
 
-  for (let w = last + 1; w <= target; w++) {
-    await ensureWeekSnapshot(w);
-    last = w;
-    await setLastSnapWeekId(last);
+  // The current layout may already hold an (empty) snapshot of these weeks; rebuild them all.
+  for (const [weekId, players] of Array.from(ended)) {
+    await rebuildWeekSnapshotLocked(chainId, difficulty, weekId, players);
   }
+  await delKey(LEGACY_KEY.snapshotsIndex);
 }
 
-export async function readSnapshot(weekId: number): Promise<WeekSnapshot | null> {
-  const v = await getJson<WeekSnapshot>(KEY.snapshot(weekId));
-  return v && isSnapshot(v, weekId) ? v : null;
+export async function readSnapshot(
+  chainId: number,
+  difficulty: Difficulty,
+  weekId: number
+): Promise<WeekSnapshot | null> {
+  const v = await getJson<WeekSnapshot>(KEY.snapshot(chainId, difficulty, weekId));
+  return v && isSnapshot(v, difficulty, weekId) ? v : null;
+}
+
+export type WeekSummary = {
+  weekId: number;
+  weekStartMs: number;
+  weekEndMs: number;
+  totalPlayers: number;
+  winner: LeaderboardEntry | null;
+};
+
+/**
+ * Snapshotted weeks for a board, newest first (history browser).
+ */
+export async function listWeekSnapshots(chainId: number, difficulty: Difficulty, limit = 52): Promise<WeekSummary[]> {
+  const idx = (await readSnapshotsIndex(chainId, difficulty)).sort((a, b) => b - a).slice(0, limit);
+  const snaps = await Promise.all(idx.map((w) => readSnapshot(chainId, difficulty, w)));
+  return snaps
+    .filter((s): s is WeekSnapshot => Boolean(s))
+    .map((s) => ({
+      weekId: s.weekId,
+      weekStartMs: s.weekStartMs,
+      weekEndMs: s.weekEndMs,
+      totalPlayers: s.totalPlayers,
+      winner: s.top[0] ?? null,
+    }));
 }
 
 /**
  * Returns leaderboard data for a week, preferring snapshots for past weeks.
+ * - `offset`/`limit` page through the ranking (`top`)
+ * - `around` adds the window of `radius` entries either side of that player.
+ * - `account` adds that player's rank (`myRank`).
+ * Snapshots only keep the top 100, so past weeks can't place players below it.
  */
 export async function getWeekLeaderboardView(params: {
+  chainId: number;
+  difficulty: Difficulty;
   weekId: number;
   nowWeekId?: number;
+  offset?: number;
+  limit?: number;
+  around?: string | null;
+  radius?: number;
+  account?: string | null;
 }) {
+  const { chainId } = params;
   const nowWeek = typeof params.nowWeekId === "number" ? params.nowWeekId : currentWeekId();
+  const offset = params.offset ?? 0;
+  const limit = params.limit ?? 100;
+  const radius = params.radius ?? 5;
 
   // Always attempt rollover first so \"last week\" becomes a snapshot right after reset.
-  await rolloverIfNeeded(nowWeek);
+  await rolloverIfNeeded(chainId, nowWeek);
+
+  const { startMs, endMs } = weekWindowFromId(params.weekId);
 
   if (params.weekId < nowWeek) {
-    const snap = await readSnapshot(params.weekId);
+    const snap = await readSnapshot(chainId, params.difficulty, params.weekId);
     if (snap) {
+      const ranked = snap.top.map((e, i): RankedEntry => ({ ...e, chainId, rank: i + 1 }));
+      const indexOf = (address?: string | null) =>
+        address ? ranked.findIndex((e) => e.address.toLowerCase() === address.toLowerCase()) : -1;
+      const idx = indexOf(params.around);
+      const mine = indexOf(params.account);
       return {
         kind: "snapshot" as const,
         weekId: snap.weekId,
         weekStartMs: snap.weekStartMs,
         weekEndMs: snap.weekEndMs,
-        top: snap.top,
+        top: ranked.slice(offset, offset + limit),
         totalPlayers: snap.totalPlayers,
+        around: idx >= 0 ? { rank: idx + 1, entries: ranked.slice(Math.max(0, idx - radius), idx + radius + 1) } : null,
+        myRank: mine >= 0 ? mine + 1 : null,
       };
     }
-    // Past week but no snapshot (should be rare). Return empty snapshot-like response.
-    const { startMs, endMs } = weekWindowFromId(params.weekId);
-    return {
-      kind: "snapshot" as const,
-      weekId: params.weekId,
-      weekStartMs: startMs,
-      weekEndMs: endMs,
-      top: [] as LeaderboardEntry[],
-      totalPlayers: 0,
-    };
+    // Past week but no snapshot yet (another request holds the rollover lease,
+    // or the week was skipped). Serve whatever the live keys still hold.
   }
 
-  const store = await loadWeekStore(params.weekId);
-  const { startMs, endMs } = weekWindowFromId(params.weekId);
+  const top = await topEntries(chainId, params.difficulty, params.weekId, limit, offset);
   return {
-    kind: "live" as const,
-    weekId: store.weekId,
+    kind: params.weekId < nowWeek ? ("snapshot" as const) : ("live" as const),
+    weekId: params.weekId,
     weekStartMs: startMs,
     weekEndMs: endMs,
-    store,
+    top: top.map((e, i): RankedEntry => ({ ...e, rank: offset + i + 1 })),
+    totalPlayers: await countPlayers(chainId, params.difficulty, params.weekId),
+    around: params.around
+      ? await entriesAround(chainId, params.difficulty, params.weekId, params.around, radius)
+      : null,
+    myRank: params.account ? await rankOf(chainId, params.difficulty, params.weekId, params.account) : null,
   };
 }
 
 /**
- * Upsert a player's weekly best score.
+ * Upsert a player's weekly best score on the board for `difficulty`.
  * - If score is higher than their existing weekly best, it replaces it.
- * - If score is equal/lower, it keeps the best.
+ * - If its week is closed (rolled over and past LIVE_GRACE_MS), the score is
+ *   dropped, logged, and reported back as `weekClosed`.
+ * ZADD GT makes this atomic per player, so concurrent saves never drop entries,
+ * and the entry's metadata is written in the same step (zaddWithMeta).
  */
 export async function upsertWeeklyBest(params: {
+  chainId: number;
   tsMs: number;
   address: Addr;
   score: number;
   txHash: `0x${string}`;
+  difficulty: Difficulty;
+  // Backfill: write into finalized weeks too; the caller rebuilds their snapshots.
+  backfill?: boolean;
 }) {
+  const { chainId } = params;
   const weekId = weekIdFromTs(params.tsMs);
-  const store = await loadWeekStore(weekId);
-
   const k = params.address.toLowerCase();
-  const existing = store.entries[k];
+  const storage = getStorage();
+
+  // Past the grace period a rolled-over week's live keys are gone and its snapshot
+  // (if it wasn't skipped) is final. A backfill can still add the score.
+  if (
+    !params.backfill &&
+    Date.now() > weekWindowFromId(weekId).endMs + LIVE_GRACE_MS &&
+    ((await getLastSnapWeekId(chainId)) >= weekId || (await readSnapshot(chainId, params.difficulty, weekId)))
+  ) {
+    console.warn(
+      `[leaderboard] week ${weekId} (${params.difficulty}, chain ${chainId}) is closed: ` +
+        `dropped late score ${params.score} from ${k} (${params.txHash})`
+    );
+    return { weekId, improved: false, weekClosed: true };
+  }
 
+  // Ties go to whoever reached the score first onchain.
+  const rank = rankScore(params.score, params.tsMs, weekId);
   const next: LeaderboardEntry = {
     address: params.address,
     score: params.score,
     txHash: params.txHash,
     updatedAt: Date.now(),
+    chainId,
   };
+  const rankKey = KEY.weekRank(chainId, params.difficulty, weekId);
+  const metaKey = KEY.weekMeta(chainId, params.difficulty, weekId);
+  const improved = await storage.zaddWithMeta(rankKey, rank, k, metaKey, next, { gt: true });
+
+  if (improved) {
+    if (!params.backfill && weekId < currentWeekId()) await refreshWeekSnapshot(chainId, params.difficulty, weekId);
+  }
+
+  return { weekId, improved, weekClosed: false };
+}
 
-  if (!existing || params.score > existing.score) {
-    store.entries[k] = next;
-    await saveWeekStore(store);
+/**
+ * Overwrites (or, with `best: null`, removes) a player's weekly entry. Unlike
+ * upsertWeeklyBest this can lower a score: the indexer uses it to undo logs
+ * dropped by a chain reorg.
+ */
+export async function replaceWeeklyBest(params: {
+  chainId: number;
+  difficulty: Difficulty;
+  weekId: number;
+  address: Addr;
+  best: { score: number; tsMs: number; txHash: `0x${string}` } | null;
+}) {
+  const { chainId, difficulty, weekId, best } = params;
+  const k = params.address.toLowerCase();
+  const storage = getStorage();
+
+  if (best) {
+    const next: LeaderboardEntry = {
+      address: params.address,
+      score: best.score,
+      txHash: best.txHash,
+      updatedAt: Date.now(),
+      chainId,
+    };
+    const rank = rankScore(best.score, best.tsMs, weekId);
+    const metaKey = KEY.weekMeta(chainId, difficulty, weekId);
+    await storage.zaddWithMeta(KEY.weekRank(chainId, difficulty, weekId), rank, k, metaKey, next);
   } else {
-    // keep existing best (no write)
+    await storage.zrem(KEY.weekRank(chainId, difficulty, weekId), k);
+    await storage.hdel(KEY.weekMeta(chainId, difficulty, weekId), k);
   }
+  if (weekId < currentWeekId()) await refreshWeekSnapshot(chainId, difficulty, weekId);
+}
+
+// ---------------------------------------------------------------------------
+// All-time board: one entry per player, their best accepted score (scores
+// quarantined by the anti-cheat screen never count). Same zset + hash layout
+// as a live week; the tiebreak counts hours since genesis instead of seconds
+// into the week.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function allTimeRankScore(score: number, tsMs: number) {
+  const hours = Math.min(TIE_BITS - 1, Math.max(0, Math.floor((tsMs - getGenesisMs()) / HOUR_MS)));
+  return score * TIE_BITS + (TIE_BITS - 1 - hours);
+}
+
+/** Raises a player's all-time best (never lowers it). */
+export async function upsertAllTimeBest(params: {
+  chainId: number;
+  tsMs: number;
+  address: Addr;
+  score: number;
+  txHash: `0x${string}`;
+}) {
+  const { chainId } = params;
+  const k = params.address.toLowerCase();
+  const storage = getStorage();
+  const rank = allTimeRankScore(params.score, params.tsMs);
+  const next: LeaderboardEntry = {
+    address: params.address,
+    score: params.score,
+    txHash: params.txHash,
+    updatedAt: Date.now(),
+    chainId,
+  };
+  const improved = await storage.zaddWithMeta(KEY.allTimeRank(chainId), rank, k, KEY.allTimeMeta(chainId), next, {
+    gt: true,
+  });
+  return { improved };
+}
+
+/** Drops a player from the all-time board (admin deny). */
+export async function removeAllTimeEntry(chainId: number, address: string) {
+  const storage = getStorage();
+  const k = address.toLowerCase();
+  await storage.zrem(KEY.allTimeRank(chainId), k);
+  await storage.hdel(KEY.allTimeMeta(chainId), k);
+}
+
+/**
+ * Overwrites a player's all-time best (reorg rollback); 0 removes them.
+ * Without `txHash` the previous entry's tx is kept.
+ */
+export async function setAllTimeBest(params: {
+  chainId: number;
+  tsMs: number;
+  address: Addr;
+  score: number;
+  txHash?: `0x${string}`;
+}) {
+  const { chainId } = params;
+  const k = params.address.toLowerCase();
+  const storage = getStorage();
+  if (params.score <= 0) {
+    await removeAllTimeEntry(chainId, k);
+    return;
+  }
+  const [prev] = await storage.hmget<LeaderboardEntry>(KEY.allTimeMeta(chainId), [k]);
+  const next: LeaderboardEntry = {
+    address: params.address,
+    score: params.score,
+    txHash: params.txHash ?? prev?.txHash ?? "0x",
+    updatedAt: Date.now(),
+    chainId,
+  };
+  const rank = allTimeRankScore(params.score, params.tsMs);
+  await storage.zaddWithMeta(KEY.allTimeRank(chainId), rank, k, KEY.allTimeMeta(chainId), next);
+}
+
+export async function allTimeEntries(chainId: number, limit = 100, offset = 0) {
+  return readRanked(chainId, KEY.allTimeRank(chainId), KEY.allTimeMeta(chainId), limit, offset);
+}
+
+/** A player's all-time entry, or null when they aren't on the board. */
+export async function allTimeEntryOf(chainId: number, address: string): Promise<LeaderboardEntry | null> {
+  const [entry] = await getStorage().hmget<LeaderboardEntry>(KEY.allTimeMeta(chainId), [address.toLowerCase()]);
+  return entry ?? null;
+}
+
+/** 1-based rank + best score, or null when the player isn't on the board. */
+export async function allTimeRankOf(chainId: number, address: string) {
+  const storage = getStorage();
+  const k = address.toLowerCase();
+  const r = await storage.zrevrank(KEY.allTimeRank(chainId), k);
+  if (r === null) return null;
+  const s = await storage.zscore(KEY.allTimeRank(chainId), k);
+  return { rank: r + 1, score: s === null ? 0 : scoreFromRank(s) };
+}
+
+export async function allTimeEntriesAround(chainId: number, address: string, radius: number) {
+  return rankedAround(chainId, KEY.allTimeRank(chainId), KEY.allTimeMeta(chainId), address, radius);
+}
 
-  return { weekId, store };
+export async function countAllTimePlayers(chainId: number) {
+  return getStorage().zcard(KEY.allTimeRank(chainId));
 }
 
 export function isStorageEnabled() {
-  return storageEnabled();
+  return isPersistentStorage();
 }
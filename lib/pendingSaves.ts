@@ -0,0 +1,221 @@
+import { waitForReceipt } from "./chain";
+import type { Difficulty } from "./difficulty";
+
+// Persistent queue of score saves, so a reload never loses a sent transaction.
+//   sent → confirmed (receipt) → indexed (leaderboard POST accepted) | failed
+// - Entries live in localStorage and are resumed on app load.
+// - The leaderboard POST is retried with backoff while it answers 202 "pending".
+// - Listeners are told about every change, in this tab and in others.
+
+type Hex = `0x${string}`;
+
+export type PendingSaveState = "sent" | "confirmed" | "indexed" | "failed";
+
+export type PendingSave = {
+  txHash: Hex;
+  chainId: number;
+  account: Hex;
+  // Best run of the tx; `runs` counts every run when several were batched.
+  score: number;
+  difficulty: Difficulty;
+  runs?: number;
+  state: PendingSaveState;
+  createdAt: number;
+  updatedAt: number;
+  // Failed receipt waits / leaderboard POSTs in the current state.
+  attempts: number;
+  // Last error; on a "failed" entry, why it failed.
+  error?: string;
+  // Set once indexed.
+  rank?: number | null;
+  heldForReview?: boolean;
+};
+
+const STORAGE_KEY = "dw:pendingSaves";
+const RECEIPT_TIMEOUT_MS = 60_000;
+// A tx with no receipt after this long was most likely dropped or replaced.
+const DROP_AFTER_MS = 30 * 60_000;
+const BACKOFF_MS = [2_000, 4_000, 8_000, 15_000, 30_000];
+const MAX_POST_ATTEMPTS = 12;
+// Indexed and failed entries are pruned after a day.
+const KEEP_DONE_MS = 24 * 60 * 60_000;
+
+const listeners = new Set<(saves: PendingSave[]) => void>();
+const inFlight = new Map<string, Promise<PendingSave | null>>();
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+function isDone(s: PendingSave) {
+  return s.state === "indexed" || s.state === "failed";
+}
+
+function visible(saves: PendingSave[]) {
+  const now = Date.now();
+  return saves
+    .filter((s) => !isDone(s) || now - s.updatedAt < KEEP_DONE_MS)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+function backoff(attempts: number) {
+  return BACKOFF_MS[Math.min(Math.max(0, attempts - 1), BACKOFF_MS.length - 1)];
+}
+
+function read(): PendingSave[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const list = raw ? (JSON.parse(raw) as PendingSave[]) : [];
+    return Array.isArray(list) ? list : [];
+  } catch {
+    return [];
+  }
+}
+
+function write(saves: PendingSave[]) {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(saves));
+  } catch {
+    // ignore (private mode / quota): tracking still works for this page
+  }
+  const list = visible(saves);
+  for (const fn of listeners) fn(list);
+}
+
+function update(txHash: string, patch: Partial<PendingSave>): PendingSave | null {
+  const saves = read();
+  const i = saves.findIndex((s) => s.txHash === txHash);
+  if (i === -1) return null;
+  saves[i] = { ...saves[i], ...patch, updatedAt: Date.now() };
+  write(saves);
+  return saves[i];
+}
+
+/** Saved entries, newest first (old finished ones are pruned). */
+export function readPendingSaves(): PendingSave[] {
+  return visible(read());
+}
+
+/** Calls `fn` with the full list on every change (including other tabs). Returns an unsubscribe. */
+export function subscribePendingSaves(fn: (saves: PendingSave[]) => void) {
+  listeners.add(fn);
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === STORAGE_KEY) fn(readPendingSaves());
+  };
+  if (typeof window !== "undefined") window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(fn);
+    if (typeof window !== "undefined") window.removeEventListener("storage", onStorage);
+  };
+}
+
+/** Records a just-sent score transaction. */
+export function addPendingSave(params: {
+  txHash: Hex;
+  chainId: number;
+  account: Hex;
+  score: number;
+  difficulty: Difficulty;
+  runs?: number;
+}): PendingSave {
+  const now = Date.now();
+  const save: PendingSave = { ...params, state: "sent", createdAt: now, updatedAt: now, attempts: 0 };
+  write([save, ...readPendingSaves().filter((s) => s.txHash !== params.txHash)]);
+  return save;
+}
+
+export function dismissPendingSave(txHash: string) {
+  write(read().filter((s) => s.txHash !== txHash));
+}
+
+/**
+ * Drives one entry to "indexed" or "failed" and resolves with it (null when
+ * unknown). `onUpdate` sees every change of this entry along the way. Calls for
+ * an entry that is already being tracked share its promise.
+ */
+export function trackPendingSave(txHash: string, onUpdate?: (save: PendingSave) => void) {
+  let run = inFlight.get(txHash);
+  if (!run) {
+    run = drive(txHash, onUpdate).finally(() => inFlight.delete(txHash));
+    inFlight.set(txHash, run);
+  }
+  return run;
+}
+
+/** Resumes every unfinished entry (on app load). */
+export function resumePendingSaves() {
+  for (const s of readPendingSaves()) {
+    if (!isDone(s)) void trackPendingSave(s.txHash);
+  }
+}
+
+/** Puts a failed entry back in the queue; an already-mined tx confirms immediately. */
+export function retryPendingSave(txHash: string) {
+  update(txHash, { state: "sent", attempts: 0, error: undefined });
+  return trackPendingSave(txHash);
+}
+
+async function drive(txHash: string, onUpdate?: (save: PendingSave) => void): Promise<PendingSave | null> {
+  const set = (patch: Partial<PendingSave>) => {
+    const next = update(txHash, patch);
+    if (next) onUpdate?.(next);
+    return next;
+  };
+
+  let save = readPendingSaves().find((s) => s.txHash === txHash) ?? null;
+
+  while (save && !isDone(save)) {
+    const current = save;
+    if (current.state === "sent") {
+      try {
+        const receipt = await waitForReceipt(current.txHash, current.chainId, { timeoutMs: RECEIPT_TIMEOUT_MS });
+        save =
+          receipt.status === "success"
+            ? set({ state: "confirmed", attempts: 0, error: undefined })
+            : set({ state: "failed", error: "Transaction reverted" });
+      } catch (e: any) {
+        if (Date.now() - current.createdAt > DROP_AFTER_MS) {
+          save = set({ state: "failed", error: "Transaction was not mined" });
+        } else {
+          save = set({ attempts: current.attempts + 1, error: e?.shortMessage || e?.message || "Still confirming" });
+          // Receipt timeout or RPC error: back off, then wait again.
+          if (save) await sleep(backoff(save.attempts));
+        }
+      }
+      continue;
+    }
+
+    // confirmed: hand the tx to the leaderboard (the server verifies the event).
+    let res: Response | null = null;
+    let data: any = null;
+    try {
+      res = await fetch("/api/leaderboard", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ txHash: save.txHash, chainId: save.chainId }),
+      });
+      data = await res.json().catch(() => null);
+    } catch {
+      res = null;
+    }
+
+    if (res?.ok && data?.status === "ok") {
+      save = set({ state: "indexed", rank: typeof data?.myRank === "number" ? data.myRank : null, error: undefined });
+    } else if (data?.status === "quarantined") {
+      save = set({ state: "indexed", heldForReview: true, error: undefined });
+    } else if (res && res.status >= 400 && res.status < 500) {
+      save = set({ state: "failed", error: data?.error || `Leaderboard rejected the score (HTTP ${res.status})` });
+    } else if (save.attempts + 1 >= MAX_POST_ATTEMPTS) {
+      // The chain sync still picks the score up; stop hammering the route.
+      save = set({ state: "failed", error: data?.message || "Leaderboard did not pick up the score yet" });
+    } else {
+      // 202 pending, 5xx or network error.
+      save = set({ attempts: save.attempts + 1, error: data?.message || data?.error });
+      if (save) await sleep(backoff(save.attempts));
+    }
+  }
+
+  return save;
+}
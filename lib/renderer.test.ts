@@ -0,0 +1,226 @@
+import fs from "node:fs";
+import path from "node:path";
+import { createCanvas, loadImage } from "@napi-rs/canvas";
+import { describe, expect, it } from "vitest";
+import { createRenderer, type CanvasLike, type RenderFrame, type RenderState } from "./renderer";
+import {
+  BULLET,
+  ENEMY,
+  ENEMY_TYPES,
+  FRAME_LAYOUT_VERSION,
+  HEADER,
+  PARTICLE,
+  PHASES,
+  POWERUP,
+  POWERUP_TYPES,
+  createStateReader,
+} from "./stateBuffers";
+import { THEME_IDS, THEMES } from "./themes";
+import type { GameEngineInstance } from "./wasmLoader";
+
+// Golden-image tests: one frame per theme, drawn on a headless canvas and
+// compared with lib/__golden__/renderer-<theme>.png. A missing golden is
+// written on the first run outside CI; delete one (or run with
+// UPDATE_GOLDEN=1) after an intended visual change.
+
+const GOLDEN_DIR = path.join(__dirname, "__golden__");
+const VIEWPORT = { w: 360, h: 640, dpr: 1 };
+
+// Deterministic stand-in for Math.random (mulberry32).
+function seededRandom(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Every sprite kind on screen at once: each enemy type (the boss with its HP
+// bar), bullets, particles, both power-ups, drones and the overdrive flame.
+const STATE: RenderState = {
+  score: 2400,
+  px: 180,
+  py: 560,
+  shake: 0,
+  flame: true,
+  drones: true,
+  enemies: [
+    { id: 1, t: "Scout", x: 60, y: 120, vx: 0, vy: 0.1, r: 14, hp: 1, max_hp: 1 },
+    { id: 2, t: "Zigzag", x: 140, y: 200, vx: 0.1, vy: 0.1, r: 14, hp: 1, max_hp: 1 },
+    { id: 3, t: "Tank", x: 250, y: 150, vx: 0, vy: 0.05, r: 20, hp: 3, max_hp: 4 },
+    { id: 4, t: "Kamikaze", x: 300, y: 300, vx: -0.2, vy: 0.3, r: 12, hp: 1, max_hp: 1 },
+    { id: 5, t: "Bomb", x: 80, y: 330, vx: 0, vy: 0.08, r: 12, hp: 1, max_hp: 1 },
+    { id: 6, t: "Boss", x: 180, y: 90, vx: 0.05, vy: 0, r: 44, hp: 20, max_hp: 30 },
+  ],
+  bullets: [
+    { id: 1, x: 180, y: 500, vx: 0, vy: -1 },
+    { id: 2, x: 150, y: 450, vx: 0, vy: -1 },
+    { id: 3, x: 210, y: 420, vx: 0, vy: -1 },
+  ],
+  particles: [
+    { x: 230, y: 250, vx: 0.1, vy: 0.1, life: 300, max_life: 500 },
+    { x: 240, y: 260, vx: -0.1, vy: 0.05, life: 150, max_life: 500 },
+  ],
+  powerups: [
+    { id: 1, x: 100, y: 420, vy: 0.1, t: "Overdrive" },
+    { id: 2, x: 280, y: 440, vy: 0.1, t: "Drones" },
+  ],
+};
+
+function renderFrame(themeId: (typeof THEME_IDS)[number], state: RenderFrame["state"] = STATE) {
+  const canvas = createCanvas(VIEWPORT.w, VIEWPORT.h);
+  const renderer = createRenderer(canvas as unknown as CanvasLike, {
+    createCanvas: (w, h) => createCanvas(w, h) as unknown as CanvasLike,
+    random: seededRandom(7),
+  });
+  renderer.render({ state, theme: THEMES[themeId], viewport: VIEWPORT, t: 1000, targetX: 200 });
+  return { canvas, renderer };
+}
+
+// Stand-in for an engine with write_frame(): STATE laid out in WASM memory the
+// way the engine writes it (header, then each entity buffer).
+function flatEngine(state: RenderState) {
+  const memory = new WebAssembly.Memory({ initial: 1 });
+  const records = (offset: number, rows: number[][], stride: number) => {
+    const buf = new Float32Array(memory.buffer, offset, rows.length * stride);
+    rows.forEach((row, i) => buf.set(row, i * stride));
+    return { ptr: offset, capacity: buf.length, end: offset + buf.byteLength };
+  };
+
+  const header = new Float32Array(memory.buffer, 0, HEADER.length);
+  const enemies = records(
+    header.byteLength,
+    state.enemies.map((e) => [e.id, ENEMY_TYPES.indexOf(e.t), e.x, e.y, e.vx, e.vy, e.r, e.hp, e.max_hp]),
+    ENEMY.stride,
+  );
+  const bullets = records(
+    enemies.end,
+    state.bullets.map((b) => [b.id, b.x, b.y, b.vx, b.vy]),
+    BULLET.stride,
+  );
+  const particles = records(
+    bullets.end,
+    state.particles.map((p) => [p.x, p.y, p.vx, p.vy, p.life, p.max_life]),
+    PARTICLE.stride,
+  );
+  const powerups = records(
+    particles.end,
+    state.powerups.map((p) => [p.id, POWERUP_TYPES.indexOf(p.t), p.x, p.y, p.vy]),
+    POWERUP.stride,
+  );
+
+  const engine = {
+    write_frame() {
+      header[HEADER.version] = FRAME_LAYOUT_VERSION;
+      header[HEADER.phase] = PHASES.indexOf("Play");
+      header[HEADER.score] = state.score;
+      header[HEADER.px] = state.px;
+      header[HEADER.py] = state.py;
+      header[HEADER.tx] = 200;
+      header[HEADER.w] = VIEWPORT.w;
+      header[HEADER.h] = VIEWPORT.h;
+      header[HEADER.dpr] = VIEWPORT.dpr;
+      header[HEADER.shake] = state.shake;
+      header[HEADER.flame] = state.flame ? 1 : 0;
+      header[HEADER.drones] = state.drones ? 1 : 0;
+      header[HEADER.enemyCount] = state.enemies.length;
+      header[HEADER.bulletCount] = state.bullets.length;
+      header[HEADER.particleCount] = state.particles.length;
+      header[HEADER.powerupCount] = state.powerups.length;
+    },
+    frame_header_ptr: () => 0,
+    frame_enemies_ptr: () => enemies.ptr,
+    frame_enemies_capacity: () => enemies.capacity,
+    frame_bullets_ptr: () => bullets.ptr,
+    frame_bullets_capacity: () => bullets.capacity,
+    frame_particles_ptr: () => particles.ptr,
+    frame_particles_capacity: () => particles.capacity,
+    frame_powerups_ptr: () => powerups.ptr,
+    frame_powerups_capacity: () => powerups.capacity,
+  };
+  return { engine: engine as unknown as GameEngineInstance, memory };
+}
+
+// Fraction of pixels where any channel differs by more than `tolerance`.
+// Anti-aliasing and font rasterisation vary a little between machines.
+function diffRatio(a: Uint8ClampedArray, b: Uint8ClampedArray, tolerance = 16) {
+  let off = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    if (
+      Math.abs(a[i] - b[i]) > tolerance ||
+      Math.abs(a[i + 1] - b[i + 1]) > tolerance ||
+      Math.abs(a[i + 2] - b[i + 2]) > tolerance ||
+      Math.abs(a[i + 3] - b[i + 3]) > tolerance
+    ) {
+      off++;
+    }
+  }
+  return off / (a.length / 4);
+}
+
+describe("renderer golden frames", () => {
+  for (const themeId of THEME_IDS) {
+    it(`draws the ${themeId} theme`, async () => {
+      const { canvas } = renderFrame(themeId);
+      const file = path.join(GOLDEN_DIR, `renderer-${themeId}.png`);
+
+      if (process.env.UPDATE_GOLDEN === "1" || (!fs.existsSync(file) && !process.env.CI)) {
+        fs.mkdirSync(GOLDEN_DIR, { recursive: true });
+        fs.writeFileSync(file, canvas.toBuffer("image/png"));
+      }
+      expect(fs.existsSync(file), `missing golden ${path.relative(process.cwd(), file)}`).toBe(true);
+
+      const golden = await loadImage(fs.readFileSync(file));
+      expect([golden.width, golden.height]).toEqual([VIEWPORT.w, VIEWPORT.h]);
+      const expected = createCanvas(golden.width, golden.height);
+      expected.getContext("2d").drawImage(golden, 0, 0);
+
+      const actual = canvas.getContext("2d").getImageData(0, 0, VIEWPORT.w, VIEWPORT.h).data;
+      const want = expected.getContext("2d").getImageData(0, 0, VIEWPORT.w, VIEWPORT.h).data;
+      expect(diffRatio(actual, want)).toBeLessThan(0.005);
+    });
+  }
+
+  it("draws the same frame twice with the same seed", () => {
+    const a = renderFrame("neon").canvas.toBuffer("image/png");
+    const b = renderFrame("neon").canvas.toBuffer("image/png");
+    expect(Buffer.compare(a, b)).toBe(0);
+  });
+
+  it("caches sprites on the injected canvases", () => {
+    const { renderer } = renderFrame("glass");
+    expect(renderer.spriteCount()).toBeGreaterThan(0);
+  });
+});
+
+describe("renderer flat frames", () => {
+  it("reads a flat frame from engine memory", () => {
+    const { engine, memory } = flatEngine(STATE);
+    const frame = createStateReader(engine, memory)!.read();
+    expect(frame).toMatchObject({ phase: "Play", score: 2400, px: 180, py: 560, flame: true, drones: true });
+    expect([frame.enemyCount, frame.bulletCount, frame.particleCount, frame.powerupCount]).toEqual([6, 3, 2, 2]);
+    const boss = 5 * ENEMY.stride;
+    expect(ENEMY_TYPES[frame.enemies[boss + ENEMY.t]]).toBe("Boss");
+    expect(frame.enemies[boss + ENEMY.max_hp]).toBe(30);
+    expect(POWERUP_TYPES[frame.powerups[POWERUP.stride + POWERUP.t]]).toBe("Drones");
+  });
+
+  it("draws a flat frame the same as its get_state() form", () => {
+    const { engine, memory } = flatEngine(STATE);
+    const frame = createStateReader(engine, memory)!.read();
+    for (const themeId of THEME_IDS) {
+      const flat = renderFrame(themeId, frame).canvas.toBuffer("image/png");
+      const objects = renderFrame(themeId).canvas.toBuffer("image/png");
+      expect(Buffer.compare(flat, objects), themeId).toBe(0);
+    }
+  });
+
+  it("stays on get_state() for an engine without write_frame", () => {
+    const { engine, memory } = flatEngine(STATE);
+    const { write_frame: _, ...stale } = engine as unknown as Record<string, unknown>;
+    expect(createStateReader(stale as unknown as GameEngineInstance, memory)).toBeNull();
+  });
+});
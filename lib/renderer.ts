@@ -0,0 +1,425 @@
+// Canvas renderer for the game: draws one frame from an engine state snapshot,
+// the active theme and the viewport. Planes, bullets and power-up boxes are
+// drawn once into offscreen canvases (per theme, colour and scale) and blitted
+// after that; stars, particles and the boss HP bar are cheap enough to draw
+// directly.
+//
+// Frames come either as a GameState from get_state() or as the flat views of
+// lib/stateBuffers.ts (read in place, no per-entity objects).
+//
+// Nothing here touches the DOM beyond the canvas it's given, so it also runs
+// against a headless canvas (e.g. node-canvas): pass `createCanvas` and a
+// seeded `random` to get repeatable frames.
+
+import type { EnemyType, GameState, PowerupType } from "./gameState";
+import {
+  BULLET,
+  ENEMY,
+  ENEMY_TYPES,
+  isFlatFrame,
+  PARTICLE,
+  POWERUP,
+  POWERUP_TYPES,
+  type FlatGameState,
+} from "./stateBuffers";
+import { hsl, type Theme } from "./themes";
+
+// The parts of the engine's get_state() the renderer reads.
+export type RenderState = Pick<
+  GameState,
+  "score" | "px" | "py" | "shake" | "flame" | "drones" | "enemies" | "bullets" | "particles" | "powerups"
+>;
+
+// Canvas size in device pixels, and the device pixel ratio it was sized with.
+export type Viewport = { w: number; h: number; dpr: number };
+
+export type RenderFrame = {
+  state: RenderState | FlatGameState;
+  theme: Theme;
+  viewport: Viewport;
+  // Animation clock (ms); drives star scroll and zigzag wobble.
+  t: number;
+  // Where the player is steering (device px), for the player's tilt.
+  targetX: number;
+};
+
+// Anything with a 2D context works: HTMLCanvasElement, OffscreenCanvas, node-canvas.
+export type CanvasLike = {
+  width: number;
+  height: number;
+  getContext(type: "2d"): unknown;
+};
+
+export type RendererOptions = {
+  // Makes offscreen canvases for sprites. Defaults to OffscreenCanvas, then <canvas>.
+  createCanvas?: (w: number, h: number) => CanvasLike;
+  // Screen shake and spark colours. Defaults to Math.random.
+  random?: () => number;
+};
+
+export type Renderer = {
+  render(frame: RenderFrame): void;
+  // Forgets the player trail (e.g. on restart).
+  reset(): void;
+  // Sprites cached so far (for debugging and tests).
+  spriteCount(): number;
+};
+
+type Ctx = CanvasRenderingContext2D;
+
+const TRAIL_LENGTH = 15;
+// Theme or dpr switches leave old sprites behind; start over past this.
+const MAX_SPRITES = 128;
+
+// Canvas round-rect helper (webview-safe)
+function roundRectPath(ctx: Ctx, x: number, y: number, w: number, h: number, r: number) {
+  const rr = Math.min(r, w / 2, h / 2);
+  ctx.beginPath();
+  ctx.moveTo(x + rr, y);
+  ctx.arcTo(x + w, y, x + w, y + h, rr);
+  ctx.arcTo(x + w, y + h, x, y + h, rr);
+  ctx.arcTo(x, y + h, x, y, rr);
+  ctx.arcTo(x, y, x + w, y, rr);
+  ctx.closePath();
+}
+
+function defaultCreateCanvas(w: number, h: number): CanvasLike {
+  if (typeof OffscreenCanvas !== "undefined") return new OffscreenCanvas(w, h);
+  const c = document.createElement("canvas");
+  c.width = w;
+  c.height = h;
+  return c;
+}
+
+// Jet silhouette (Doodle Style), facing up, centred on the origin, in unit coords.
+function planePath(ctx: Ctx) {
+  ctx.beginPath();
+  ctx.moveTo(0, -30);
+  ctx.lineTo(8, -18);
+  ctx.lineTo(10, -8);
+  ctx.lineTo(28, 0);
+  ctx.lineTo(10, 6);
+  ctx.lineTo(8, 16);
+  ctx.lineTo(8, 22);
+  ctx.lineTo(14, 26);
+  ctx.lineTo(0, 22);
+  ctx.lineTo(-14, 26);
+  ctx.lineTo(-8, 22);
+  ctx.lineTo(-8, 16);
+  ctx.lineTo(-10, 6);
+  ctx.lineTo(-28, 0);
+  ctx.lineTo(-10, -8);
+  ctx.lineTo(-8, -18);
+  ctx.closePath();
+}
+
+export function createRenderer(canvas: CanvasLike, opts?: RendererOptions): Renderer {
+  const ctx = canvas.getContext("2d") as Ctx | null;
+  if (!ctx) throw new Error("2D canvas context unavailable");
+  const makeCanvas = opts?.createCanvas ?? defaultCreateCanvas;
+  const random = opts?.random ?? Math.random;
+
+  // Sprites are square and centred on their anchor; `half` is the anchor offset.
+  const sprites = new Map<string, { canvas: CanvasLike; half: number }>();
+  let trail: Array<{ x: number; y: number }> = [];
+
+  const sprite = (key: string, halfSize: number, draw: (c: Ctx) => void) => {
+    let s = sprites.get(key);
+    if (!s) {
+      if (sprites.size >= MAX_SPRITES) sprites.clear();
+      const half = Math.ceil(halfSize);
+      const c = makeCanvas(half * 2, half * 2);
+      const sctx = c.getContext("2d") as Ctx;
+      sctx.translate(half, half);
+      draw(sctx);
+      s = { canvas: c, half };
+      sprites.set(key, s);
+    }
+    return s;
+  };
+
+  const blit = (s: { canvas: CanvasLike; half: number }, x: number, y: number, rotation = 0) => {
+    const img = s.canvas as unknown as CanvasImageSource;
+    if (rotation === 0) {
+      ctx.drawImage(img, x - s.half, y - s.half);
+      return;
+    }
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.rotate(rotation);
+    ctx.drawImage(img, -s.half, -s.half);
+    ctx.restore();
+  };
+
+  const drawPlane = (
+    th: Theme,
+    x: number,
+    y: number,
+    scale: number,
+    colors: { fill: string; stroke: string },
+    flame: boolean,
+    tilt: number,
+    facingDown: boolean
+  ) => {
+    const key = `plane|${th.id}|${colors.fill}|${colors.stroke}|${scale}|${flame ? 1 : 0}`;
+    // Wings reach 28 units out, nose and flame ~33; plus outline and glow.
+    const half = 34 * scale + (th.lineWidth + th.glow) * scale + 2;
+    const s = sprite(key, half, (c) => {
+      c.scale(scale, scale);
+      c.fillStyle = colors.fill;
+      c.strokeStyle = colors.stroke;
+      c.lineWidth = th.lineWidth;
+      c.lineJoin = "round";
+      if (th.glow > 0) {
+        c.shadowColor = colors.stroke;
+        c.shadowBlur = th.glow * scale;
+      }
+      planePath(c);
+      c.fill();
+      c.stroke();
+
+      // Fun little cockpit
+      c.fillStyle = th.cockpit;
+      c.beginPath();
+      c.ellipse(0, -13, 5, 8, 0, 0, Math.PI * 2);
+      c.fill();
+      c.stroke();
+
+      // Thruster doodle
+      if (flame) {
+        c.fillStyle = th.flame;
+        c.beginPath();
+        c.ellipse(0, 25, 6, 8, 0, 0, Math.PI * 2);
+        c.fill();
+        c.stroke();
+      }
+    });
+    blit(s, x, y, (facingDown ? Math.PI : 0) + tilt);
+  };
+
+  const drawBullet = (th: Theme, dpr: number, x: number, y: number) => {
+    const { style, fill, stroke } = th.bullet;
+    const s = sprite(`bullet|${th.id}|${dpr}`, 16 * dpr + th.lineWidth + th.glow, (c) => {
+      c.fillStyle = fill;
+      c.strokeStyle = stroke;
+      c.lineWidth = th.lineWidth;
+      if (th.glow > 0) {
+        c.shadowColor = stroke;
+        c.shadowBlur = th.glow;
+      }
+      c.beginPath();
+      if (style === "capsule") {
+        // Simple fat bullet doodle
+        c.ellipse(0, 0, 4, 12, 0, 0, Math.PI * 2);
+        c.fill();
+        c.stroke();
+      } else if (style === "laser") {
+        c.rect(-1.5 * dpr, -14 * dpr, 3 * dpr, 28 * dpr);
+        c.fill();
+      } else {
+        c.arc(0, 0, 5 * dpr, 0, Math.PI * 2);
+        c.fill();
+        c.stroke();
+      }
+    });
+    blit(s, x, y);
+  };
+
+  const drawPowerup = (th: Theme, dpr: number, t: PowerupType, x: number, y: number) => {
+    const kind = t === "Overdrive" ? "Overdrive" : "Drones";
+    const sz = 14 * dpr;
+    const s = sprite(`powerup|${th.id}|${kind}|${dpr}`, sz / 2 + th.lineWidth + 2, (c) => {
+      c.lineWidth = th.lineWidth;
+      c.strokeStyle = th.powerups.stroke;
+      c.fillStyle = th.powerups[kind];
+      c.beginPath();
+      c.rect(-sz / 2, -sz / 2, sz, sz);
+      c.fill();
+      c.stroke();
+
+      c.fillStyle = th.powerups.label;
+      c.font = "900 " + 10 * dpr + "px sans-serif";
+      c.textAlign = "center";
+      c.textBaseline = "middle";
+      c.fillText(kind === "Overdrive" ? "O" : "M", 0, 2 * dpr);
+    });
+    blit(s, x, y);
+  };
+
+  const drawBackground = (th: Theme, vp: Viewport, score: number) => {
+    const { top, bottom, hueShift } = th.background;
+    const shift = Math.min(1, score / 5000) * hueShift;
+    const grad = ctx.createLinearGradient(0, 0, 0, vp.h);
+    grad.addColorStop(0, hsl(top, shift));
+    grad.addColorStop(1, hsl(bottom, shift));
+    ctx.fillStyle = grad;
+    ctx.fillRect(0, 0, vp.w, vp.h);
+  };
+
+  const drawStars = (th: Theme, vp: Viewport, t: number) => {
+    const { style, color, count, speed } = th.stars;
+    ctx.save();
+    ctx.fillStyle = color;
+    ctx.strokeStyle = color;
+    if (style === "glow") {
+      ctx.shadowColor = color;
+      ctx.shadowBlur = 8 * vp.dpr;
+    }
+    for (let i = 0; i < count; i++) {
+      const x = (((i * 97) % 1013) / 1013) * vp.w;
+      const y = (((i * 173 + t * speed) % 997) / 997) * vp.h;
+      if (style === "dots") {
+        // Draw tiny random marker dots / pluses
+        ctx.fillRect(x, y, 4 * vp.dpr, 4 * vp.dpr);
+      } else if (style === "glow") {
+        ctx.beginPath();
+        ctx.arc(x, y, (1.2 + (i % 3) * 0.6) * vp.dpr, 0, Math.PI * 2);
+        ctx.fill();
+      } else {
+        ctx.lineWidth = (i % 4 === 0 ? 2 : 1) * vp.dpr;
+        ctx.beginPath();
+        ctx.moveTo(x, y);
+        ctx.lineTo(x, y + (10 + (i % 5) * 6) * vp.dpr);
+        ctx.stroke();
+      }
+    }
+    ctx.restore();
+  };
+
+  // Comic explosions
+  const drawParticle = (th: Theme, dpr: number, x: number, y: number, life: number, maxLife: number) => {
+    const sz = (life / maxLife) * 12 * dpr;
+    ctx.save();
+    ctx.lineWidth = th.lineWidth;
+    ctx.strokeStyle = th.glow > 0 ? "transparent" : "#000";
+    ctx.fillStyle = th.particles[Math.floor(random() * th.particles.length)];
+    ctx.translate(x, y);
+    ctx.rotate(life * 15);
+    ctx.beginPath();
+      ctx.moveTo(sz, 0);
+    ctx.lineTo(sz / 3, sz / 3);
+    ctx.lineTo(0, sz);
+    ctx.lineTo(-sz / 3, sz / 3);
+    ctx.lineTo(-sz, 0);
+    ctx.lineTo(-sz / 3, -sz / 3);
+    ctx.lineTo(0, -sz);
+    ctx.lineTo(sz / 3, -sz / 3);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+    ctx.restore();
+  };
+
+  const drawBossHp = (th: Theme, dpr: number, ex: number, ey: number, hp: number, maxHp: number) => {
+    const w = 150 * dpr;
+    const h = 10 * dpr;
+    const x = ex - w / 2;
+    const y = ey - 60 * dpr;
+    ctx.save();
+    ctx.globalAlpha = 0.9;
+    ctx.fillStyle = th.bossHp.track;
+    roundRectPath(ctx, x, y, w, h, 999);
+    ctx.fill();
+    const frac = Math.max(0, Math.min(1, hp / maxHp));
+    ctx.fillStyle = th.bossHp.fill;
+    roundRectPath(ctx, x, y, w * frac, h, 999);
+    ctx.fill();
+    ctx.restore();
+  };
+
+  const drawEnemy = (
+    th: Theme,
+    dpr: number,
+    t: number,
+    type: EnemyType,
+    x: number,
+    y: number,
+    hp: number,
+    maxHp: number
+  ) => {
+    // A type newer than the generated ones (stale types) still gets drawn.
+    const colors = th.enemies[type] ?? th.enemies.Scout;
+    const tilt = type === "Zigzag" ? Math.sin(t * 0.01) * 0.18 : 0;
+    if (type === "Boss") {
+      drawPlane(th, x, y, 1.35 * dpr, colors, false, tilt, true);
+      drawBossHp(th, dpr, x, y, hp, maxHp);
+    } else {
+      drawPlane(th, x, y, 1.05 * dpr, colors, false, tilt, true);
+    }
+  };
+
+  // Power-ups, particles, enemies, then bullets, from whichever form the frame came in.
+  const drawEntities = (state: RenderFrame["state"], th: Theme, dpr: number, t: number) => {
+    if (isFlatFrame(state)) {
+      const { powerups: pw, particles: pa, enemies: en, bullets: bu } = state;
+      for (let i = 0, o = 0; i < state.powerupCount; i++, o += POWERUP.stride) {
+        drawPowerup(th, dpr, POWERUP_TYPES[pw[o + POWERUP.t]], pw[o + POWERUP.x], pw[o + POWERUP.y]);
+      }
+      for (let i = 0, o = 0; i < state.particleCount; i++, o += PARTICLE.stride) {
+        drawParticle(th, dpr, pa[o + PARTICLE.x], pa[o + PARTICLE.y], pa[o + PARTICLE.life], pa[o + PARTICLE.max_life]);
+      }
+      for (let i = 0, o = 0; i < state.enemyCount; i++, o += ENEMY.stride) {
+        const type = ENEMY_TYPES[en[o + ENEMY.t]];
+        drawEnemy(th, dpr, t, type, en[o + ENEMY.x], en[o + ENEMY.y], en[o + ENEMY.hp], en[o + ENEMY.max_hp]);
+      }
+      for (let i = 0, o = 0; i < state.bulletCount; i++, o += BULLET.stride) {
+        drawBullet(th, dpr, bu[o + BULLET.x], bu[o + BULLET.y]);
+      }
+      return;
+    }
+    for (const p of state.powerups) drawPowerup(th, dpr, p.t, p.x, p.y);
+    for (const p of state.particles) drawParticle(th, dpr, p.x, p.y, p.life, p.max_life);
+    for (const e of state.enemies) drawEnemy(th, dpr, t, e.t, e.x, e.y, e.hp, e.max_hp);
+    for (const b of state.bullets) drawBullet(th, dpr, b.x, b.y);
+  };
+
+  const drawTrail = (th: Theme, dpr: number) => {
+    ctx.save();
+    ctx.lineWidth = 2 * dpr;
+    ctx.strokeStyle = th.trail;
+    ctx.beginPath();
+    trail.forEach((pt, i) => (i === 0 ? ctx.moveTo(pt.x, pt.y) : ctx.lineTo(pt.x, pt.y)));
+    ctx.stroke();
+    ctx.restore();
+  };
+
+  const render = ({ state, theme: th, viewport: vp, t, targetX }: RenderFrame) => {
+    const { dpr } = vp;
+    ctx.clearRect(0, 0, vp.w, vp.h);
+    drawBackground(th, vp, state.score);
+
+    ctx.save();
+    const shakeAmt = state.shake || 0;
+    if (shakeAmt > 0) {
+      ctx.translate((random() - 0.5) * shakeAmt, (random() - 0.5) * shakeAmt);
+    }
+
+    drawStars(th, vp, t);
+    drawEntities(state, th, dpr, t);
+
+    // Player trail
+    trail.push({ x: state.px, y: state.py + 15 * dpr });
+    if (trail.length > TRAIL_LENGTH) trail.shift();
+    drawTrail(th, dpr);
+
+    const playerTilt = (targetX - state.px) / (vp.w * 0.45);
+    const clampTilt = Math.max(-0.22, Math.min(0.22, playerTilt));
+    drawPlane(th, state.px, state.py, 1.15 * dpr, th.player, state.flame, clampTilt, false);
+
+    // Ally drones
+    if (state.drones) {
+      drawPlane(th, state.px - 36 * dpr, state.py + 10 * dpr, 0.6 * dpr, th.drones, state.flame, clampTilt, false);
+      drawPlane(th, state.px + 36 * dpr, state.py + 10 * dpr, 0.6 * dpr, th.drones, state.flame, clampTilt, false);
+    }
+
+    ctx.restore(); // Ensure we restore translation for shake
+  };
+
+  return {
+    render,
+    reset() {
+      trail = [];
+    },
+    spriteCount: () => sprites.size,
+  };
+}
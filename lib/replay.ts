@@ -0,0 +1,204 @@
+// Compact replay format for seeded DriftWing runs.
+//
+// A run is fully determined by the engine seed, the difficulty, the canvas size
+// and the per-frame inputs fed to `set_target_x` / `update`. We record exactly
+// those. The client quantises time to whole milliseconds and targetX to whole
+// device pixels *before* handing them to the engine, so the server can feed the
+// identical values back and recompute the score.
+//
+// Binary layout (little-endian), base64 for transport:
+//   u8 version, u8 difficulty, u32 seed, u16 w, u16 h, f64 dpr
+//   then a stream of records:
+//     u16 dtMs, u16 targetX                  frame
+//     0xFFFE, u32 dtMs, u16 targetX          frame after a long gap (tab hidden)
+//     0xFFFF, u16 w, u16 h, f64 dpr          canvas resize
+
+import { DIFFICULTIES, type Difficulty } from "./difficulty";
+
+export const REPLAY_VERSION = 1;
+
+const LONG_GAP = 0xfffe;
+const RESIZE = 0xffff;
+
+export type ReplayEvent =
+  | { kind: "frame"; t: number; tx: number } // t = ms since reset (absolute, not delta)
+  | { kind: "resize"; w: number; h: number; dpr: number };
+
+export type Replay = {
+  version: number;
+  difficulty: Difficulty;
+  seed: number;
+  w: number;
+  h: number;
+  dpr: number;
+  events: ReplayEvent[];
+};
+
+class ByteWriter {
+  private buf = new Uint8Array(1024);
+  private view = new DataView(this.buf.buffer);
+  length = 0;
+
+  private reserve(n: number) {
+    if (this.length + n <= this.buf.length) return;
+    let size = this.buf.length * 2;
+    while (size < this.length + n) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buf.subarray(0, this.length));
+    this.buf = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  u8(v: number) {
+    this.reserve(1);
+    this.view.setUint8(this.length, v);
+    this.length += 1;
+  }
+
+  u16(v: number) {
+    this.reserve(2);
+    this.view.setUint16(this.length, v, true);
+    this.length += 2;
+  }
+
+  u32(v: number) {
+    this.reserve(4);
+    this.view.setUint32(this.length, v, true);
+    this.length += 4;
+  }
+
+  f64(v: number) {
+    this.reserve(8);
+    this.view.setFloat64(this.length, v, true);
+    this.length += 8;
+  }
+
+  bytes() {
+    return this.buf.subarray(0, this.length);
+  }
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(bin);
+}
+
+function base64ToBytes(b64: string): Uint8Array {
+  const bin = atob(b64);
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
+
+/**
+ * Records one run. Call `frame` with the exact (quantised) values passed to the
+ * engine, and `resize` whenever the engine is resized mid-run.
+ */
+export function createReplayRecorder(init: {
+  seed: number;
+  difficulty: Difficulty;
+  w: number;
+  h: number;
+  dpr: number;
+}) {
+  const out = new ByteWriter();
+  out.u8(REPLAY_VERSION);
+  out.u8(DIFFICULTIES.indexOf(init.difficulty));
+  out.u32(init.seed >>> 0);
+  out.u16(init.w);
+  out.u16(init.h);
+  out.f64(init.dpr);
+
+  let lastT = 0;
+  let frames = 0;
+
+  return {
+    frame(t: number, tx: number) {
+      const dt = t - lastT;
+      lastT = t;
+      frames += 1;
+      if (dt < LONG_GAP) {
+        out.u16(dt);
+      } else {
+        out.u16(LONG_GAP);
+        out.u32(dt);
+      }
+      out.u16(tx);
+    },
+    resize(w: number, h: number, dpr: number) {
+      out.u16(RESIZE);
+      out.u16(w);
+      out.u16(h);
+      out.f64(dpr);
+    },
+    get frames() {
+      return frames;
+    },
+    encode() {
+      return bytesToBase64(out.bytes());
+    },
+  };
+}
+
+export type ReplayRecorder = ReturnType<typeof createReplayRecorder>;
+
+/** Parses a base64 replay. Throws on malformed input. */
+export function decodeReplay(b64: string): Replay {
+  const bytes = base64ToBytes(b64);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let off = 0;
+
+  const need = (n: number) => {
+    if (off + n > bytes.length) throw new Error("Replay truncated");
+  };
+  const u8 = () => (need(1), view.getUint8(off++));
+  const u16 = () => {
+    need(2);
+    const v = view.getUint16(off, true);
+    off += 2;
+    return v;
+  };
+  const u32 = () => {
+    need(4);
+    const v = view.getUint32(off, true);
+    off += 4;
+    return v;
+  };
+  const f64 = () => {
+    need(8);
+    const v = view.getFloat64(off, true);
+    off += 8;
+    return v;
+  };
+
+  const version = u8();
+  if (version !== REPLAY_VERSION) throw new Error(`Unsupported replay version ${version}`);
+  const difficulty = DIFFICULTIES[u8()];
+  if (!difficulty) throw new Error("Invalid replay difficulty");
+  const seed = u32();
+  const w = u16();
+  const h = u16();
+  const dpr = f64();
+  if (!Number.isFinite(dpr) || dpr <= 0) throw new Error("Invalid replay dpr");
+
+  const events: ReplayEvent[] = [];
+  let t = 0;
+  while (off < bytes.length) {
+    const head = u16();
+    if (head === RESIZE) {
+      const rw = u16();
+      const rh = u16();
+      const rdpr = f64();
+      if (!Number.isFinite(rdpr) || rdpr <= 0) throw new Error("Invalid replay dpr");
+      events.push({ kind: "resize", w: rw, h: rh, dpr: rdpr });
+      continue;
+    }
+    t += head === LONG_GAP ? u32() : head;
+    events.push({ kind: "frame", t, tx: u16() });
+  }
+
+  return { version, difficulty, seed, w, h, dpr, events };
+}
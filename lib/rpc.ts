@@ -0,0 +1,177 @@
+import {
+  createPublicClient,
+  fallback,
+  http,
+  HttpRequestError,
+  TimeoutError,
+  type Chain,
+  type Transport,
+} from "viem";
+
+// Shared read client over one or more RPC endpoints (server and browser).
+// - Calls go to the first endpoint that isn't cooling down and fall over to the next.
+// - A 429 cools an endpoint down (Retry-After, else 30s); so do 3 faults in a row
+//   (timeouts, 5xx, network errors). When every endpoint is cooling down, all are tried.
+// - A call that fails everywhere is retried with exponential backoff.
+// - Per-endpoint counters (served, faults, rate limits, latency) back the admin metrics route.
+
+const REQUEST_TIMEOUT_MS = 8_000;
+const RETRY_COUNT = 2;
+const RETRY_DELAY_MS = 300; // doubled per retry
+const COOLDOWN_MS = 30_000;
+const MAX_COOLDOWN_MS = 5 * 60_000;
+const FAULTS_BEFORE_COOLDOWN = 3;
+
+export type RpcEndpointStats = {
+  // Origin only: paths and query strings often carry API keys.
+  endpoint: string;
+  served: number;
+  servedByMethod: Record<string, number>;
+  faults: number;
+  rateLimited: number;
+  consecutiveFaults: number;
+  avgLatencyMs: number | null;
+  cooldownUntil: number | null;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  lastServedAt: number | null;
+};
+
+// Keyed by full URL; per process (each server instance / browser tab has its own).
+const stats = new Map<string, RpcEndpointStats>();
+
+function redact(url: string) {
+  try {
+    const u = new URL(url);
+    return u.pathname.length > 1 || u.search ? `${u.origin}/…` : u.origin;
+  } catch {
+    return "invalid-url";
+  }
+}
+
+function statsFor(url: string) {
+  let s = stats.get(url);
+  if (!s) {
+    s = {
+      endpoint: redact(url),
+      served: 0,
+      servedByMethod: {},
+      faults: 0,
+      rateLimited: 0,
+      consecutiveFaults: 0,
+      avgLatencyMs: null,
+      cooldownUntil: null,
+      lastError: null,
+      lastErrorAt: null,
+      lastServedAt: null,
+    };
+    stats.set(url, s);
+  }
+  return s;
+}
+
+function coolingDown(url: string, now = Date.now()) {
+  const until = stats.get(url)?.cooldownUntil;
+  return until != null && until > now;
+}
+
+function isRateLimit(err: unknown) {
+  if (err instanceof HttpRequestError && err.status === 429) return true;
+  return /rate limit|too many requests/i.test(err instanceof Error ? err.message : String(err));
+}
+
+function retryAfterMs(err: unknown) {
+  const raw = err instanceof HttpRequestError ? err.headers?.get("retry-after") : null;
+  const sec = raw ? Number(raw) : NaN;
+  return Number.isFinite(sec) && sec > 0 ? Math.min(MAX_COOLDOWN_MS, sec * 1000) : COOLDOWN_MS;
+}
+
+// The endpoint itself failed, as opposed to answering with an RPC error (revert, bad params…).
+function isFault(err: unknown) {
+  if (err instanceof TimeoutError) return true;
+  if (err instanceof HttpRequestError) return err.status === undefined || err.status >= 500;
+  const code = (err as { code?: unknown } | null)?.code;
+  return code === -32603 || code === -32002;
+}
+
+function recordServed(url: string, method: string, latencyMs: number) {
+  const s = statsFor(url);
+  s.served++;
+  s.servedByMethod[method] = (s.servedByMethod[method] ?? 0) + 1;
+  s.avgLatencyMs = s.avgLatencyMs === null ? latencyMs : Math.round(s.avgLatencyMs * 0.8 + latencyMs * 0.2);
+  s.consecutiveFaults = 0;
+  s.cooldownUntil = null;
+  s.lastServedAt = Date.now();
+}
+
+function recordFailure(url: string, err: unknown) {
+  const s = statsFor(url);
+  s.lastError = err instanceof Error ? (err as { shortMessage?: string }).shortMessage || err.message : String(err);
+  s.lastErrorAt = Date.now();
+  if (isRateLimit(err)) {
+    s.rateLimited++;
+    s.cooldownUntil = Date.now() + retryAfterMs(err);
+    console.warn(`[rpc] ${s.endpoint} rate limited; cooling down`);
+  } else {
+    s.faults++;
+    s.consecutiveFaults++;
+    if (s.consecutiveFaults >= FAULTS_BEFORE_COOLDOWN) s.cooldownUntil = Date.now() + COOLDOWN_MS;
+  }
+}
+
+class EndpointCoolingDownError extends Error {
+  constructor(url: string) {
+    super(`RPC endpoint ${redact(url)} is cooling down`);
+    this.name = "EndpointCoolingDownError";
+  }
+}
+
+/** One endpoint of the fallback list, with health tracking around each request. */
+function trackedHttp(url: string, group: string[]): Transport {
+  const inner = http(url, { retryCount: 0, timeout: REQUEST_TIMEOUT_MS });
+  return (params) => {
+    const t = inner(params);
+    const request = (async (args: { method: string; params?: unknown }) => {
+      // Skipping throws a plain error, which makes the fallback move on.
+      if (coolingDown(url) && group.some((u) => !coolingDown(u))) throw new EndpointCoolingDownError(url);
+      const started = Date.now();
+      try {
+        const res = await t.request(args as any);
+        recordServed(url, args.method, Date.now() - started);
+        return res;
+      } catch (err) {
+        if (isFault(err) || isRateLimit(err)) recordFailure(url, err);
+        else recordServed(url, args.method, Date.now() - started);
+        throw err;
+      }
+    }) as typeof t.request;
+    return { ...t, request };
+  };
+}
+
+/** Splits comma-separated URL lists and drops blanks/duplicates, keeping order. */
+export function parseRpcUrls(...lists: Array<string | undefined>) {
+  const urls = lists.flatMap((l) => (l || "").split(",")).map((u) => u.trim()).filter(Boolean);
+  return Array.from(new Set(urls));
+}
+
+/**
+ * Public client for `chain` over `urls`, tried in order. The chain's public
+ * endpoint (e.g. mainnet.base.org) is only used when nothing is configured:
+ * a local node must never fall over to a public one.
+ */
+export function createRpcClient(chain: Chain, urls: string[]) {
+  const list = urls.length ? urls : chain.rpcUrls.default.http.slice(0, 1);
+  return createPublicClient({
+    chain,
+    transport: fallback(
+      list.map((u) => trackedHttp(u, list)),
+      { retryCount: RETRY_COUNT, retryDelay: RETRY_DELAY_MS }
+    ),
+  });
+}
+
+/** Snapshot of the per-endpoint counters in this process. */
+export function rpcMetrics(): RpcEndpointStats[] {
+  return Array.from(stats.values()).map((s) => ({ ...s, servedByMethod: { ...s.servedByMethod } }));
+}
@@ -0,0 +1,71 @@
+import type { GameEventBus } from "./gameEvents";
+import type { EnemyType, PowerupType } from "./gameState";
+
+// Per-run tallies built from the game event stream: what was destroyed, what
+// was picked up and what ended the run. Shown on the game-over screen and fed
+// to achievements.
+
+export type RunStats = {
+  kills: number;
+  killsByType: Partial<Record<EnemyType, number>>;
+  bossesSpawned: number;
+  bossesKilled: number;
+  powerups: Partial<Record<PowerupType, number>>;
+  // Enemy that hit the player; null while playing or when one got past instead.
+  killedBy: EnemyType | null;
+  // Engine run time (ms) of the Died event; null while the run is going.
+  endedAt: number | null;
+};
+
+export type RunStatsTracker = {
+  get(): RunStats;
+  reset(): void;
+  detach(): void;
+};
+
+function empty(): RunStats {
+  return {
+    kills: 0,
+    killsByType: {},
+    bossesSpawned: 0,
+    bossesKilled: 0,
+    powerups: {},
+    killedBy: null,
+    endedAt: null,
+  };
+}
+
+export function trackRunStats(bus: GameEventBus): RunStatsTracker {
+  let stats = empty();
+  const off = bus.onAny((e) => {
+    switch (e.kind) {
+      case "EnemyKilled":
+        stats.kills++;
+        stats.killsByType[e.enemy] = (stats.killsByType[e.enemy] ?? 0) + 1;
+        break;
+      case "BossSpawned":
+        stats.bossesSpawned++;
+        break;
+      case "BossKilled":
+        stats.kills++;
+        stats.bossesKilled++;
+        break;
+      case "PowerupCollected":
+        stats.powerups[e.powerup] = (stats.powerups[e.powerup] ?? 0) + 1;
+        break;
+      case "PlayerHit":
+        stats.killedBy = e.enemy;
+        break;
+      case "Died":
+        stats.endedAt = e.t;
+        break;
+    }
+  });
+  return {
+    get: () => stats,
+    reset() {
+      stats = empty();
+    },
+    detach: off,
+  };
+}
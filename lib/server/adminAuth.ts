@@ -0,0 +1,11 @@
+import "server-only";
+
+/**
+ * Admin endpoints require `Authorization: Bearer <ADMIN_SECRET>`.
+ * Unlike the cron route, they stay closed when the secret is not configured.
+ */
+export function isAdminRequest(req: Request) {
+  const secret = process.env.ADMIN_SECRET;
+  if (!secret) return false;
+  return req.headers.get("authorization") === `Bearer ${secret}`;
+}
@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryBackend, setStorageBackend } from "@/lib/storage";
+import { addToDenylist, runValidators, screenScore, submissionRateValidator, type ScoreCandidate } from "./antiCheat";
+import { listQuarantine } from "./quarantine";
+import type { VerifiedReplay } from "./replayVerify";
+
+// The replay store runs the WASM engine; here a test decides what it returns.
+const replay = vi.hoisted(() => ({ verified: null as VerifiedReplay | null }));
+vi.mock("./replayVerify", () => ({
+  readVerifiedReplay: async () => replay.verified,
+  replayRequired: () => process.env.LEADERBOARD_REQUIRE_REPLAY === "true",
+}));
+
+const MAINNET = 8453;
+const ALICE = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const BOB = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+
+let nextTx = 1;
+const txHash = () => `0x${(nextTx++).toString(16).padStart(64, "0")}` as const;
+
+function candidate(over: Partial<ScoreCandidate> = {}): ScoreCandidate {
+  return {
+    chainId: MAINNET,
+    address: ALICE,
+    score: 1000,
+    tsMs: Date.now(),
+    txHash: txHash(),
+    logIndex: 0,
+    source: "sync",
+    difficulty: "easy",
+    replayVerified: false,
+    durationMs: null,
+    ...over,
+  };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  setStorageBackend(createMemoryBackend());
+  replay.verified = null;
+});
+
+afterEach(() => {
+  setStorageBackend(null);
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("plausibility ceilings", () => {
+  it("accepts a score at the ceiling and rejects one above it", async () => {
+    // Easy: 80 points/s over 90 minutes.
+    expect(await runValidators(candidate({ score: 432_000 }))).toEqual({ ok: true });
+    expect(await runValidators(candidate({ score: 432_001 }))).toMatchObject({
+      ok: false,
+      validator: "plausibility",
+      reason: "Score 432001 exceeds easy ceiling 432000",
+    });
+  });
+
+  it("gives Easy the highest ceiling", async () => {
+    expect((await runValidators(candidate({ score: 400_000, difficulty: "easy" }))).ok).toBe(true);
+    expect((await runValidators(candidate({ score: 400_000, difficulty: "medium" }))).ok).toBe(false);
+    expect((await runValidators(candidate({ score: 400_000, difficulty: "hard" }))).ok).toBe(false);
+  });
+
+  it("takes the run length from the environment", async () => {
+    vi.stubEnv("LEADERBOARD_MAX_RUN_MINUTES_HARD", "120");
+    expect((await runValidators(candidate({ score: 900_000, difficulty: "hard" }))).ok).toBe(true);
+  });
+
+  it("rejects scores that aren't non-negative integers", async () => {
+    for (const score of [-1, 1.5, Number.NaN]) {
+      expect(await runValidators(candidate({ score }))).toMatchObject({ validator: "plausibility" });
+    }
+  });
+});
+
+describe("score rate", () => {
+  it("only applies with a known run length", async () => {
+    expect((await runValidators(candidate({ score: 50_000 }))).ok).toBe(true);
+    expect(await runValidators(candidate({ score: 50_000, durationMs: 60_000 }))).toMatchObject({
+      validator: "scoreRate",
+    });
+  });
+
+  it("allows the engine's best case per second plus a grace", async () => {
+    // Hard: 137 points/s, plus 600.
+    const c = (score: number) => candidate({ score, difficulty: "hard", durationMs: 60_000 });
+    expect((await runValidators(c(137 * 60 + 600))).ok).toBe(true);
+    expect((await runValidators(c(137 * 60 + 601))).ok).toBe(false);
+  });
+});
+
+describe("submission rate", () => {
+  it("caps submissions per address and hour", async () => {
+    vi.stubEnv("LEADERBOARD_MAX_SUBMISSIONS_PER_HOUR", "2");
+    expect((await runValidators(candidate())).ok).toBe(true);
+    expect((await runValidators(candidate())).ok).toBe(true);
+    expect(await runValidators(candidate())).toMatchObject({
+      validator: "submissionRate",
+      reason: "More than 2 submissions in an hour",
+    });
+    // Other players and other chains have their own windows.
+    expect((await runValidators(candidate({ address: BOB }))).ok).toBe(true);
+    expect((await runValidators(candidate({ chainId: 84532 }))).ok).toBe(true);
+  });
+
+  it("counts a log once, whichever path sees it", async () => {
+    vi.stubEnv("LEADERBOARD_MAX_SUBMISSIONS_PER_HOUR", "1");
+    const c = candidate();
+    expect(await submissionRateValidator.check(c)).toBeNull();
+    expect(await submissionRateValidator.check({ ...c, source: "post" })).toBeNull();
+    expect(await submissionRateValidator.check(candidate())).not.toBeNull();
+  });
+
+  it("counts every run of a batched save", async () => {
+    vi.stubEnv("LEADERBOARD_MAX_SUBMISSIONS_PER_HOUR", "2");
+    const hash = txHash();
+    const runs = [0, 1, 2].map((logIndex) => candidate({ txHash: hash, logIndex }));
+    expect(await submissionRateValidator.check(runs[0])).toBeNull();
+    expect(await submissionRateValidator.check(runs[1])).toBeNull();
+    expect(await submissionRateValidator.check(runs[2])).not.toBeNull();
+  });
+});
+
+describe("denylist", () => {
+  it("rejects addresses from the environment and from the admin list", async () => {
+    vi.stubEnv("LEADERBOARD_DENYLIST", " 0xBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB ");
+    expect(await runValidators(candidate({ address: BOB }))).toMatchObject({ validator: "denylist" });
+
+    expect((await runValidators(candidate())).ok).toBe(true);
+    await addToDenylist(ALICE);
+    expect(await runValidators(candidate())).toMatchObject({ validator: "denylist" });
+  });
+});
+
+describe("screenScore", () => {
+  const params = (over: Partial<Parameters<typeof screenScore>[0]> = {}) => ({
+    chainId: MAINNET,
+    address: ALICE as `0x${string}`,
+    score: 1000,
+    tsMs: Date.now(),
+    txHash: txHash(),
+    logIndex: 0,
+    source: "sync" as const,
+    taggedDifficulty: null,
+    ...over,
+  });
+
+  it("puts untagged scores on the Easy board", async () => {
+    const res = await screenScore(params());
+    expect(res.ok).toBe(true);
+    expect(res.candidate.difficulty).toBe("easy");
+  });
+
+  it("prefers the verified replay's difficulty and run length", async () => {
+    replay.verified = {
+      chainId: MAINNET,
+      address: ALICE,
+      score: 1000,
+      seed: 1,
+      difficulty: "hard",
+      durationMs: 30_000,
+      frames: 1800,
+      verifiedAt: Date.now(),
+    };
+    const res = await screenScore(params({ taggedDifficulty: "medium" }));
+    expect(res.candidate).toMatchObject({ difficulty: "hard", replayVerified: true, durationMs: 30_000 });
+  });
+
+  it("quarantines a rejection", async () => {
+    vi.stubEnv("LEADERBOARD_REQUIRE_REPLAY", "true");
+    const res = await screenScore(params());
+    expect(res).toMatchObject({ ok: false, validator: "replay" });
+    const held = await listQuarantine();
+    expect(held.map((q) => [q.validator, q.candidate.txHash])).toEqual([["replay", res.candidate.txHash]]);
+  });
+
+  it("keeps one entry per run of a batched save", async () => {
+    vi.stubEnv("LEADERBOARD_REQUIRE_REPLAY", "true");
+    const hash = txHash();
+    await screenScore(params({ txHash: hash, logIndex: 0 }));
+    await screenScore(params({ txHash: hash, logIndex: 1, score: 2000 }));
+    // The same log seen again (POST, then sync) stays one entry.
+    await screenScore(params({ txHash: hash, logIndex: 1, score: 2000, source: "post" }));
+    const held = await listQuarantine();
+    expect(held.map((q) => [q.id, q.candidate.score])).toEqual([
+      [`${hash}:0`, 1000],
+      [`${hash}:1`, 2000],
+    ]);
+  });
+});
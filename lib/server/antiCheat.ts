@@ -0,0 +1,225 @@
+import "server-only";
+
+import { DIFFICULTIES, type Difficulty } from "@/lib/difficulty";
+import { chainKeyPrefix, UNTAGGED_DIFFICULTY } from "@/lib/leaderboard";
+import { getJson, getStorage, setJson } from "@/lib/storage";
+import { readVerifiedReplay, replayRequired } from "./replayVerify";
+import { quarantineScore } from "./quarantine";
+
+// Anti-cheat gate in front of upsertWeeklyBest.
+// Every score (POST /api/leaderboard or chain sync) runs through a list of
+// validators; the first rejection sends it to the quarantine store for review.
+
+type Addr = `0x${string}`;
+
+export type ScoreCandidate = {
+  chainId: number;
+  address: Addr;
+  score: number;
+  tsMs: number;
+  txHash: `0x${string}`;
+  // Position of the ScoreSubmitted log in the tx: a batched save carries several.
+  logIndex: number;
+  source: "post" | "sync";
+  // Board the score goes to (verified replay > calldata tag > UNTAGGED_DIFFICULTY).
+  difficulty: Difficulty;
+  replayVerified: boolean;
+  // Known only when the run has a verified replay.
+  durationMs: number | null;
+};
+
+export type Verdict = { ok: true } | { ok: false; validator: string; reason: string };
+
+export type ScoreValidator = {
+  name: string;
+  check: (c: ScoreCandidate) => Promise<string | null> | string | null; // null = pass, string = reason
+};
+
+// Ceilings derived from the engine's scoring (wasm-engine/src/lib.rs), so a run
+// has to beat the best case the engine allows before it trips them. Points only
+// come from enemies: a kill is 20 (Tank 35, Boss 520), a hit that doesn't kill
+// is 1 (2 on a boss), and each power-up is 50 but only drops from a kill.
+const TANK_POINTS = 35 + 1 + 50; // Tanks have 2 hp on every difficulty
+const BOSS_KILL_POINTS = 520 + 50;
+const BOSS_HIT_POINTS = 2;
+
+// The DiffConfig fields that bound scoring. Keep in sync with the engine.
+type EngineScoring = {
+  spawnBaseMs: number;
+  spawnMinFactor: number;
+  bossEveryMs: number;
+  bossHp: number;
+  bossDamageMul: number;
+};
+
+const ENGINE: Record<Difficulty, EngineScoring> = {
+  easy: { spawnBaseMs: 1400, spawnMinFactor: 0.86, bossEveryMs: 70_000, bossHp: 6, bossDamageMul: 1.2 },
+  medium: { spawnBaseMs: 1150, spawnMinFactor: 0.78, bossEveryMs: 62_000, bossHp: 9, bossDamageMul: 1.25 },
+  hard: { spawnBaseMs: 980, spawnMinFactor: 0.7, bossEveryMs: 55_000, bossHp: 12, bossDamageMul: 1.3 },
+};
+
+// How long a run can plausibly last. Easier runs survive longer, so they get
+// more time (and end up with the highest score ceiling). Override per level:
+//   LEADERBOARD_MAX_RUN_MINUTES_EASY=90
+const DEFAULT_MAX_RUN_MINUTES: Record<Difficulty, number> = { easy: 90, medium: 60, hard: 45 };
+
+/**
+ * Best case per second: an enemy at the fastest spawn interval, every one a
+ * Tank that drops a power-up, plus a boss (all its hits, and a power-up) every
+ * boss interval.
+ */
+function maxPointsPerSecond(d: Difficulty) {
+  const e = ENGINE[d];
+  const bossHits = Math.floor(e.bossHp / e.bossDamageMul) + 1; // rounded up, whatever the float error
+  const bossPoints = BOSS_KILL_POINTS + BOSS_HIT_POINTS * (bossHits - 1);
+  const perSecond = (1000 / (e.spawnBaseMs * e.spawnMinFactor)) * TANK_POINTS + (1000 / e.bossEveryMs) * bossPoints;
+  return Math.ceil(perSecond);
+}
+
+function maxRunMinutes(d: Difficulty) {
+  const n = Number(process.env[`LEADERBOARD_MAX_RUN_MINUTES_${d.toUpperCase()}`]);
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_MAX_RUN_MINUTES[d];
+}
+
+function limits(d: Difficulty) {
+  const maxPerSecond = maxPointsPerSecond(d);
+  return { maxPerSecond, maxScore: maxPerSecond * Math.ceil(maxRunMinutes(d) * 60) };
+}
+
+/** Highest score any difficulty allows; bounds values we take on trust (e.g. `newBest`). */
+export function maxPlausibleScore() {
+  return Math.max(...DIFFICULTIES.map((d) => limits(d).maxScore));
+}
+
+// A single boss kill + powerup can land in the first seconds of a run.
+const RATE_GRACE_POINTS = 600;
+
+const RATE_WINDOW_MS = 60 * 60 * 1000;
+const DENYLIST_KEY = "dw:ac:denylist";
+// Per chain, like the boards: a testnet tx never counts against a mainnet window.
+const rateKey = (chainId: number, address: string, bucket: number) =>
+  `${chainKeyPrefix(chainId)}:ac:rate:${address.toLowerCase()}:${bucket}`;
+const rateLogKey = (chainId: number, txHash: string, logIndex: number) =>
+  `${chainKeyPrefix(chainId)}:ac:rate:tx:${txHash.toLowerCase()}:${logIndex}`;
+
+function maxSubmissionsPerWindow() {
+  const n = Number(process.env.LEADERBOARD_MAX_SUBMISSIONS_PER_HOUR);
+  return Number.isFinite(n) && n > 0 ? n : 30;
+}
+
+/**
+ * Denylist = LEADERBOARD_DENYLIST (comma-separated, deploy-time)
+ *          + dw:ac:denylist (edited through the admin quarantine API).
+ */
+export async function readDenylist(): Promise<string[]> {
+  const fromEnv = (process.env.LEADERBOARD_DENYLIST || "")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+  const stored = (await getJson<string[]>(DENYLIST_KEY)) ?? [];
+  return Array.from(new Set([...fromEnv, ...(Array.isArray(stored) ? stored : [])]));
+}
+
+export async function addToDenylist(address: string) {
+  const stored = (await getJson<string[]>(DENYLIST_KEY)) ?? [];
+  const a = address.toLowerCase();
+  if (Array.isArray(stored) && stored.includes(a)) return;
+  await setJson(DENYLIST_KEY, [...(Array.isArray(stored) ? stored : []), a]);
+}
+
+export const denylistValidator: ScoreValidator = {
+  name: "denylist",
+  async check(c) {
+    const deny = await readDenylist();
+    return deny.includes(c.address.toLowerCase()) ? "Address is denylisted" : null;
+  },
+};
+
+export const plausibilityValidator: ScoreValidator = {
+  name: "plausibility",
+  check(c) {
+    if (!Number.isSafeInteger(c.score) || c.score < 0) return "Score is not a valid integer";
+    const limit = limits(c.difficulty).maxScore;
+    return c.score > limit ? `Score ${c.score} exceeds ${c.difficulty} ceiling ${limit}` : null;
+  },
+};
+
+export const scoreRateValidator: ScoreValidator = {
+  name: "scoreRate",
+  check(c) {
+    if (c.durationMs == null) return null; // needs a verified replay
+    const seconds = Math.max(1, c.durationMs / 1000);
+    const allowed = limits(c.difficulty).maxPerSecond * seconds + RATE_GRACE_POINTS;
+    return c.score > allowed ? `Score ${c.score} in ${Math.round(seconds)}s exceeds ${Math.round(allowed)}` : null;
+  },
+};
+
+export const submissionRateValidator: ScoreValidator = {
+  name: "submissionRate",
+  async check(c) {
+    // Counted once per log (POST route and chain sync both see it), so every run
+    // of a batched save counts; the log key remembers its position in the window
+    // so both paths reach the same verdict.
+    const storage = getStorage();
+    const ttl = { ttlMs: RATE_WINDOW_MS * 2 };
+    const logKey = rateLogKey(c.chainId, c.txHash, c.logIndex);
+    let n: number;
+    if (await storage.setnx(logKey, 0, ttl)) {
+      n = await storage.incr(rateKey(c.chainId, c.address, Math.floor(c.tsMs / RATE_WINDOW_MS)), ttl);
+      await storage.set(logKey, n, ttl);
+    } else {
+      n = Number(await storage.get<number>(logKey)) || 0;
+    }
+    const max = maxSubmissionsPerWindow();
+    return n > max ? `More than ${max} submissions in an hour` : null;
+  },
+};
+
+export const replayValidator: ScoreValidator = {
+  name: "replay",
+  check(c) {
+    if (!replayRequired()) return null;
+    return c.replayVerified ? null : "Score has no verified replay";
+  },
+};
+
+export const defaultValidators: ScoreValidator[] = [
+  denylistValidator,
+  replayValidator,
+  plausibilityValidator,
+  scoreRateValidator,
+  submissionRateValidator,
+];
+
+export async function runValidators(c: ScoreCandidate, validators = defaultValidators): Promise<Verdict> {
+  for (const v of validators) {
+    const reason = await v.check(c);
+    if (reason) return { ok: false, validator: v.name, reason };
+  }
+  return { ok: true };
+}
+
+/**
+ * Builds the candidate (joining the verified replay, if any), runs the pipeline
+ * and quarantines rejections. Callers only ingest when `ok` is true, into
+ * `candidate.difficulty`'s board.
+ */
+export async function screenScore(
+  params: Omit<ScoreCandidate, "difficulty" | "replayVerified" | "durationMs"> & {
+    taggedDifficulty: Difficulty | null;
+  },
+  validators = defaultValidators
+): Promise<Verdict & { candidate: ScoreCandidate }> {
+  const { taggedDifficulty, ...rest } = params;
+  const replay = await readVerifiedReplay(params.chainId, params.address, params.score, params.txHash);
+  const candidate: ScoreCandidate = {
+    ...rest,
+    difficulty: replay?.difficulty ?? taggedDifficulty ?? UNTAGGED_DIFFICULTY,
+    replayVerified: Boolean(replay),
+    durationMs: replay?.durationMs ?? null,
+  };
+
+  const verdict = await runValidators(candidate, validators);
+  if (!verdict.ok) await quarantineScore(candidate, verdict);
+  return { ...verdict, candidate };
+}
@@ -0,0 +1,79 @@
+import "server-only";
+
+import { encodeFunctionData } from "viem";
+import { findErc8021Suffixes, getBuilderCodesFromEnv } from "@/lib/builderCodes";
+import { chainKeyPrefix } from "@/lib/leaderboard";
+import { scoreboardAbi } from "@/lib/scoreboardAbi";
+import { getStorage } from "@/lib/storage";
+
+// Which client produced a score, from the ERC-8021 builder codes on its
+// submitScore call:
+// - "app": carries one of this app's codes (NEXT_PUBLIC_BUILDER_CODES)
+// - "third_party": carries other codes only
+// - "direct": no attribution (a plain contract call)
+// - "unknown": the transaction couldn't be fetched
+// Counted per chain for GET /api/admin/attribution.
+
+export type AttributionSource = "app" | "third_party" | "direct" | "unknown";
+
+export type Attribution = { source: AttributionSource; codes: string[] };
+
+const DIFFICULTY_TAG_BYTES = 4; // "dwd" ‖ u8, see difficultyTag.ts
+
+const statsKey = (chainId: number) => `${chainKeyPrefix(chainId)}:attribution`;
+
+function strip0x(hex: string) {
+  return hex.startsWith("0x") ? hex.slice(2) : hex;
+}
+
+// Byte offsets just past each submitScore(score) call (and its difficulty tag) in the input.
+function callEnds(hex: string, score: number | bigint) {
+  const call = strip0x(
+    encodeFunctionData({ abi: scoreboardAbi, functionName: "submitScore", args: [BigInt(score)] })
+  ).toLowerCase();
+  const ends: number[] = [];
+  for (let i = hex.indexOf(call); i >= 0; i = hex.indexOf(call, i + 1)) {
+    if (i % 2 !== 0) continue;
+    const end = (i + call.length) / 2;
+    ends.push(end, end + DIFFICULTY_TAG_BYTES);
+  }
+  return ends;
+}
+
+/**
+ * Attribution of the submitScore(score) call in a tx input: the suffix right
+ * after the call (the app's layout, also inside sponsored batches), else one
+ * at the very end of the input (appended to a direct call by another client).
+ */
+export function attributeScore(input: `0x${string}` | null, score: number | bigint): Attribution {
+  if (!input) return { source: "unknown", codes: [] };
+  const hex = strip0x(input).toLowerCase();
+  const suffixes = findErc8021Suffixes(input);
+  const ends = callEnds(hex, score);
+  const suffix =
+    suffixes.find((s) => ends.includes(s.start)) ?? suffixes.find((s) => s.end === hex.length / 2);
+  if (!suffix) return { source: "direct", codes: [] };
+
+  const own = new Set(getBuilderCodesFromEnv());
+  const source = suffix.codes.some((c) => own.has(c)) ? "app" : "third_party";
+  return { source, codes: suffix.codes };
+}
+
+/** Counts one score (or, with -1, takes a rolled-back one off). */
+export async function recordAttribution(chainId: number, attribution: Attribution, delta: 1 | -1 = 1) {
+  const storage = getStorage();
+  const key = statsKey(chainId);
+  await storage.hincrby(key, `source:${attribution.source}`, delta);
+  for (const code of attribution.codes) await storage.hincrby(key, `code:${code}`, delta);
+}
+
+export async function readAttributionStats(chainId: number) {
+  const fields = await getStorage().hgetall<number>(statsKey(chainId));
+  const sources: Record<AttributionSource, number> = { app: 0, third_party: 0, direct: 0, unknown: 0 };
+  const codes: Record<string, number> = {};
+  for (const [f, n] of Object.entries(fields)) {
+    if (f.startsWith("source:")) sources[f.slice(7) as AttributionSource] = Number(n) || 0;
+    else if (f.startsWith("code:")) codes[f.slice(5)] = Number(n) || 0;
+  }
+  return { sources, codes, appCodes: getBuilderCodesFromEnv() };
+}
@@ -0,0 +1,243 @@
+import "server-only";
+
+import type { Difficulty } from "@/lib/difficulty";
+import { chainKeyPrefix, currentWeekId, rebuildWeekSnapshot } from "@/lib/leaderboard";
+import { delKey, getJson, setJson, withLease } from "@/lib/storage";
+import { deployBlockFor, publicClientFor, scoreSubmittedEvent, scoreboardAddressFor } from "./chainClient";
+import { ingestScoreLog, toScoreLog } from "./scoreLogs";
+import { confirmedBlockNumber, initSyncCursor, readSyncCursor } from "./syncLeaderboard";
+
+// Historical backfill: replays every ScoreSubmitted log from the contract's
+// deployment block up to where the live sync started, in resumable steps.
+// - getLogs ranges adapt: halved when the RPC rejects a range as too large,
+//   grown back while calls succeed.
+// - Progress is checkpointed after every range, so a step that times out or
+//   fails just resumes from the last completed range. A range that outlasts the
+//   step's deadline stops at a block boundary and is checkpointed there; the
+//   next range is then halved.
+// - Past weeks that received logs get their snapshots rebuilt.
+// - Each chain has its own backfill.
+
+const DEFAULT_CHUNK = 2000n;
+const MIN_CHUNK = 10n;
+const MAX_CHUNK = 50_000n;
+const DEFAULT_STEP_MS = 20_000;
+const MAX_STEP_MS = 55_000;
+// Longer than any step, so a crashed step's lock frees itself.
+const BACKFILL_LOCK_TTL_MS = 2 * 60_000;
+
+const KEYS = {
+  state: (chainId: number) => `${chainKeyPrefix(chainId)}:backfill`,
+  lock: (chainId: number) => `${chainKeyPrefix(chainId)}:backfill:lock`,
+};
+
+export type BackfillState = {
+  chainId: number;
+  contract: string;
+  fromBlock: string;
+  toBlock: string;
+  // First block not processed yet.
+  nextBlock: string;
+  chunk: string;
+  // Growth stops here once the RPC has rejected a larger range.
+  chunkCeiling: string;
+  logsProcessed: number;
+  logsIngested: number;
+  // "difficulty:weekId" pairs with backfilled logs whose snapshot still needs a rebuild / was rebuilt.
+  pendingWeeks: string[];
+  weeksRebuilt: string[];
+  startedAt: number;
+  updatedAt: number;
+  done: boolean;
+  lastError?: string;
+};
+
+export type BackfillResult = { ok: boolean; error?: string; busy?: boolean; state: BackfillState | null };
+
+// What RPC providers answer when a getLogs range is too large or returns too
+// many results. Specific phrases only: bare words like "limit" or "size" also
+// match unrelated failures, which would then be retried with ever smaller ranges.
+const RANGE_ERROR_RE = new RegExp(
+  [
+    "block range", // "block range too large", "exceed maximum block range: 50000"
+    "query returned more than", // "query returned more than 10000 results"
+    "exceeds max results", // "query exceeds max results 20000"
+    "response size exceeded", // "Log response size exceeded"
+    "range (?:is )?too (?:large|wide)",
+    "limited to a [\\d,]+ (?:block )?range", // "eth_getLogs is limited to a 10,000 range"
+    "ranges over \\d+ blocks",
+  ].join("|"),
+  "i"
+);
+
+// EIP-1474 "limit exceeded". Some providers send it for rate limits too.
+const LIMIT_EXCEEDED_CODE = -32005;
+
+const RATE_LIMIT_RE = /rate limit|429/i;
+
+type RpcErrorLike = { message?: string; details?: string; shortMessage?: string; code?: number; cause?: unknown };
+
+function isRangeError(err: unknown) {
+  const texts: string[] = [];
+  let limitExceeded = false;
+  // viem wraps the provider's error; look at every layer.
+  for (let e = err as RpcErrorLike | null, depth = 0; e && depth < 5; e = e.cause as RpcErrorLike | null, depth++) {
+    texts.push(...[e.shortMessage, e.details, e.message].filter((t): t is string => Boolean(t)));
+    if (e.code === LIMIT_EXCEEDED_CODE) limitExceeded = true;
+  }
+  const text = texts.join(" ");
+  return (limitExceeded || RANGE_ERROR_RE.test(text)) && !RATE_LIMIT_RE.test(text);
+}
+
+export async function readBackfillState(chainId: number): Promise<BackfillState | null> {
+  return getJson<BackfillState>(KEYS.state(chainId));
+}
+
+export async function resetBackfill(chainId: number) {
+  await delKey(KEYS.state(chainId));
+}
+
+/**
+ * Plans a backfill of [fromBlock, sync cursor]. Before the sync's first run the
+ * range ends at the confirmed head and the sync is pointed just past it.
+ * `fromBlock` defaults to the chain's deploy block (SCOREBOARD_DEPLOY_BLOCK on Base).
+ */
+export async function startBackfill(opts: { chainId: number; fromBlock?: bigint }): Promise<BackfillResult> {
+  const { chainId } = opts;
+  const contract = scoreboardAddressFor(chainId);
+  if (!contract) return { ok: false, error: `No scoreboard configured for chain ${chainId}`, state: null };
+
+  const existing = await readBackfillState(chainId);
+  if (existing && !existing.done) {
+    return { ok: false, error: "Backfill already in progress (reset it first)", state: existing };
+  }
+
+  const fromBlock = opts.fromBlock ?? deployBlockFor(chainId);
+  if (fromBlock === null) return { ok: false, error: "Missing fromBlock (or the chain's deploy block)", state: null };
+
+  const toBlock =
+    (await readSyncCursor(chainId)) ?? (await initSyncCursor(chainId, await confirmedBlockNumber(chainId)));
+  const now = Date.now();
+  const state: BackfillState = {
+    chainId,
+    contract,
+    fromBlock: String(fromBlock),
+    toBlock: String(toBlock),
+    nextBlock: String(fromBlock),
+    chunk: String(DEFAULT_CHUNK),
+    chunkCeiling: String(MAX_CHUNK),
+    logsProcessed: 0,
+    logsIngested: 0,
+    pendingWeeks: [],
+    weeksRebuilt: [],
+    startedAt: now,
+    updatedAt: now,
+    done: fromBlock > toBlock,
+  };
+  await setJson(KEYS.state(chainId), state);
+  return { ok: true, state };
+}
+
+/**
+ * Processes ranges for up to `maxMs`, then returns the checkpointed state.
+ * Call repeatedly until `state.done`.
+ */
+export async function stepBackfill(opts: { chainId: number; maxMs?: number }): Promise<BackfillResult> {
+  const { chainId } = opts;
+  const maxMs = Math.min(MAX_STEP_MS, Math.max(1_000, opts.maxMs ?? DEFAULT_STEP_MS));
+  const res = await withLease(KEYS.lock(chainId), BACKFILL_LOCK_TTL_MS, () => runStep(chainId, maxMs));
+  if (res.acquired) return res.value;
+  return { ok: true, busy: true, state: await readBackfillState(chainId) };
+}
+
+async function runStep(chainId: number, maxMs: number): Promise<BackfillResult> {
+  const state = await readBackfillState(chainId);
+  if (!state) return { ok: false, error: "No backfill started", state: null };
+  if (state.done) return { ok: true, state };
+
+  const deadline = Date.now() + maxMs;
+  const toBlock = BigInt(state.toBlock);
+  let chunk = BigInt(state.chunk);
+  let ceiling = BigInt(state.chunkCeiling);
+  let next = BigInt(state.nextBlock);
+  let error: string | undefined;
+
+  while (next <= toBlock && Date.now() < deadline) {
+    const end = next + chunk - 1n > toBlock ? toBlock : next + chunk - 1n;
+
+    let logs: any[];
+    try {
+      logs = await publicClientFor(chainId).getLogs({
+        address: state.contract as `0x${string}`,
+        event: scoreSubmittedEvent,
+        fromBlock: next,
+        toBlock: end,
+      });
+    } catch (err) {
+      if (isRangeError(err) && chunk > MIN_CHUNK) {
+        const size = end - next + 1n;
+        // Never grow back to a size that failed; the ceiling closes in on the RPC's real limit.
+        ceiling = (size * 3n) / 4n > MIN_CHUNK ? (size * 3n) / 4n : MIN_CHUNK;
+        chunk = size / 2n > MIN_CHUNK ? size / 2n : MIN_CHUNK;
+        continue;
+      }
+      error = err instanceof Error ? err.message : String(err);
+      break;
+    }
+
+    const ordered = [...logs].sort(
+      (a, b) => Number(a.blockNumber - b.blockNumber) || Number(a.logIndex) - Number(b.logIndex)
+    );
+    // Set when the deadline passes mid-range: the first block not processed yet.
+    let stoppedAt: bigint | null = null;
+    let lastBlock: bigint | null = null;
+    for (const log of ordered) {
+      const block = BigInt(log.blockNumber);
+      // Only between blocks, so a block's logs are never split across steps.
+      if (lastBlock !== null && block !== lastBlock && Date.now() >= deadline) {
+        stoppedAt = block;
+        break;
+      }
+      lastBlock = block;
+      // Already-ingested logs are re-applied; new ones go through anti-cheat as usual.
+      const r = await ingestScoreLog(toScoreLog(chainId, log), "sync", { backfill: true });
+      state.logsProcessed++;
+      if (r.outcome === "ingested") {
+        state.logsIngested++;
+        const week = `${r.difficulty}:${r.weekId}`;
+        if (!state.pendingWeeks.includes(week)) state.pendingWeeks.push(week);
+      }
+    }
+
+    if (stoppedAt !== null) {
+      next = stoppedAt;
+      chunk = chunk / 2n > MIN_CHUNK ? chunk / 2n : MIN_CHUNK;
+    } else {
+      next = end + 1n;
+      const grown = (chunk * 3n) / 2n;
+      chunk = grown > ceiling ? ceiling : grown;
+    }
+
+    state.nextBlock = String(next);
+    state.chunk = String(chunk);
+    state.chunkCeiling = String(ceiling);
+    state.updatedAt = Date.now();
+    await setJson(KEYS.state(chainId), state);
+  }
+
+  // The current week is snapshotted by the regular rollover; a week whose
+  // rebuild lost the race against it stays pending for the next step.
+  const nowWeekId = currentWeekId(Date.now());
+  for (const week of [...state.pendingWeeks]) {
+    const [difficulty, weekId] = week.split(":");
+    if (Number(weekId) < nowWeekId && !(await rebuildWeekSnapshot(chainId, difficulty as Difficulty, Number(weekId)))) continue;
+    state.pendingWeeks = state.pendingWeeks.filter((w) => w !== week);
+    if (Number(weekId) < nowWeekId && !state.weeksRebuilt.includes(week)) state.weeksRebuilt.push(week);
+  }
+
+  state.done = next > toBlock && state.pendingWeeks.length === 0;
+  state.lastError = error;
+  state.updatedAt = Date.now();
+  await setJson(KEYS.state(chainId), state);
+  return error ? { ok: false, error, state } : { ok: true, state };
+}
@@ -1,17 +1,64 @@
 import "server-only";
 
-import { createPublicClient, http, parseAbiItem } from "viem";
-import { base } from "viem/chains";
-
-const rpcUrl =
-  process.env.BASE_RPC_URL ??
-  process.env.NEXT_PUBLIC_BASE_RPC_URL ??
-  "https://mainnet.base.org";
-
-export const publicClient = createPublicClient({
-  chain: base,
-  transport: http(rpcUrl),
-});
+import { parseAbiItem } from "viem";
+import { base, baseSepolia } from "viem/chains";
+import { chainConfig } from "@/lib/chains";
+import { createRpcClient, parseRpcUrls } from "@/lib/rpc";
+
+// Server-only settings for each chain of the registry (lib/chains.ts).
+// Server RPC endpoints come first (they may carry private keys), then the
+// public ones the browser uses.
+type ServerChainEnv = {
+  rpcUrls: string | undefined;
+  rpcUrl: string | undefined;
+  // Secret CDP Paymaster & Bundler URL behind /api/paymaster.
+  paymasterUrl: string | undefined;
+  // Contract deployment block, where the backfill starts.
+  deployBlock: string | undefined;
+};
+
+const SERVER_ENV: Record<number, ServerChainEnv> = {
+  [base.id]: {
+    rpcUrls: process.env.BASE_RPC_URLS,
+    rpcUrl: process.env.BASE_RPC_URL,
+    paymasterUrl: process.env.CDP_PAYMASTER_URL,
+    deployBlock: process.env.SCOREBOARD_DEPLOY_BLOCK,
+  },
+  [baseSepolia.id]: {
+    rpcUrls: process.env.BASE_SEPOLIA_RPC_URLS,
+    rpcUrl: process.env.BASE_SEPOLIA_RPC_URL,
+    paymasterUrl: process.env.BASE_SEPOLIA_CDP_PAYMASTER_URL,
+    deployBlock: process.env.BASE_SEPOLIA_SCOREBOARD_DEPLOY_BLOCK,
+  },
+};
+
+const clients = new Map<number, ReturnType<typeof createRpcClient>>();
+
+/** Failover read client for a registry chain (one per chain and process). */
+export function publicClientFor(chainId: number) {
+  let client = clients.get(chainId);
+  if (!client) {
+    const config = chainConfig(chainId);
+    if (!config) throw new Error(`Unknown chain ${chainId}`);
+    const env = SERVER_ENV[chainId];
+    client = createRpcClient(config.chain, parseRpcUrls(env?.rpcUrls, env?.rpcUrl, ...config.rpcUrls));
+    clients.set(chainId, client);
+  }
+  return client;
+}
+
+export function scoreboardAddressFor(chainId: number) {
+  return chainConfig(chainId)?.scoreboardAddress;
+}
+
+export function paymasterUpstreamFor(chainId: number) {
+  return SERVER_ENV[chainId]?.paymasterUrl || undefined;
+}
+
+export function deployBlockFor(chainId: number): bigint | null {
+  const raw = (SERVER_ENV[chainId]?.deployBlock || "").trim();
+  return /^\d+$/.test(raw) ? BigInt(raw) : null;
+}
 
 // Scoreboard.sol event
 export const scoreSubmittedEvent = parseAbiItem(
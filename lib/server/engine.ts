@@ -0,0 +1,36 @@
+import "server-only";
+
+import fs from "node:fs";
+import path from "node:path";
+import { engineStaleness, type GameEngineClass } from "@/lib/wasmLoader";
+
+let cached: { GameEngine: GameEngineClass } | null = null;
+
+/**
+ * Loads the same WASM build the browser runs (public/wasm/) so the server can
+ * re-simulate replays. The .wasm bytes are read from disk and instantiated
+ * synchronously instead of being fetched.
+ */
+export async function loadServerEngine(): Promise<{ GameEngine: GameEngineClass }> {
+  if (cached) return cached;
+
+  const wasmModule: any = await import("@/public/wasm/wasm_engine.js");
+  const bytes = fs.readFileSync(path.join(process.cwd(), "public", "wasm", "wasm_engine_bg.wasm"));
+  wasmModule.initSync({ module: bytes });
+
+  cached = { GameEngine: wasmModule.GameEngine };
+  const missing = engineStaleness(cached.GameEngine);
+  if (missing.length) {
+    console.error(`[engine] public/wasm predates ${missing.join(", ")}; run \`npm run build:wasm\``);
+  }
+  return cached;
+}
+
+/**
+ * Whether the loaded engine replays deterministically. Engines built before
+ * reset() took a seed draw from Math.random, so no replay reproduces its score.
+ */
+export async function serverEngineReplays(): Promise<boolean> {
+  const { GameEngine } = await loadServerEngine();
+  return !engineStaleness(GameEngine).includes("seeded reset()");
+}
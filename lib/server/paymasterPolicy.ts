@@ -0,0 +1,240 @@
+import "server-only";
+
+import { decodeFunctionData, parseAbi, toFunctionSelector, type Hex } from "viem";
+import { getStorage } from "@/lib/storage";
+import { scoreboardAddressFor } from "./chainClient";
+
+// Sponsorship policy in front of the CDP paymaster proxy (/api/paymaster).
+// Only ERC-7677 pm_getPaymasterStubData / pm_getPaymasterData requests go
+// through, and only for user operations whose every call is
+// Scoreboard.submitScore on the route's chain, with no value attached.
+// Signed sponsorships (pm_getPaymasterData) count against a daily quota per
+// sender and a global one, one slot per call (each call saves one run); stub
+// requests are only checked against them.
+// A signed request reserves its slot before it is forwarded (increment, then
+// compare), so concurrent requests can't both take the last one.
+
+export const PAYMASTER_METHODS = ["pm_getPaymasterStubData", "pm_getPaymasterData"] as const;
+export type PaymasterMethod = (typeof PAYMASTER_METHODS)[number];
+
+export type PolicyRejection = {
+  // JSON-RPC error code (EIP-1474): -32602 invalid params, -32003 rejected, -32005 limit exceeded.
+  code: number;
+  reason:
+    | "invalid_user_operation"
+    | "wrong_chain"
+    | "unsupported_account_call"
+    | "target_not_allowed"
+    | "selector_not_allowed"
+    | "value_not_allowed"
+    | "sender_quota_exceeded"
+    | "global_quota_exceeded";
+  message: string;
+};
+
+// What a sponsorship is counted as: `calls` slots in each quota.
+export type SponsoredOp = { chainId: number; sender: Hex; nonce: string; calls: number };
+
+export type PolicyResult = { ok: true; op: SponsoredOp } | { ok: false; rejection: PolicyRejection };
+
+type AccountCall = { target: Hex; value: bigint; data: Hex };
+
+// Smart-account entry points wallets use for calls: Coinbase Smart Wallet and
+// the eth-infinitism SimpleAccount (v0.6 and v0.7 batch shapes).
+const accountAbi = parseAbi([
+  "function execute(address target, uint256 value, bytes data)",
+  "function executeBatch((address target, uint256 value, bytes data)[] calls)",
+  "function executeBatch(address[] dest, bytes[] func)",
+  "function executeBatch(address[] dest, uint256[] value, bytes[] func)",
+]);
+
+const SUBMIT_SCORE_SELECTOR = toFunctionSelector("function submitScore(uint256 score)");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Counters outlive their UTC day a little so late reads still see them.
+const QUOTA_TTL_MS = 2 * DAY_MS;
+
+const dayBucket = (tsMs: number) => Math.floor(tsMs / DAY_MS);
+const globalKey = (chainId: number, day: number) => `dw:pm:${chainId}:day:${day}`;
+const senderKey = (chainId: number, day: number, sender: string) =>
+  `dw:pm:${chainId}:day:${day}:${sender.toLowerCase()}`;
+// One count per user operation, however often the wallet asks for its paymaster data.
+const opKey = (chainId: number, sender: string, nonce: string) => `dw:pm:${chainId}:op:${sender.toLowerCase()}:${nonce}`;
+
+function envLimit(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+}
+
+export function senderDailyLimit() {
+  return envLimit("PAYMASTER_MAX_SPONSORED_PER_SENDER_PER_DAY", 20);
+}
+
+export function globalDailyLimit() {
+  return envLimit("PAYMASTER_MAX_SPONSORED_PER_DAY", 1000);
+}
+
+function reject(
+  code: number,
+  reason: PolicyRejection["reason"],
+  message: string
+): { ok: false; rejection: PolicyRejection } {
+  return { ok: false, rejection: { code, reason, message } };
+}
+
+function isHex(x: unknown): x is Hex {
+  return typeof x === "string" && /^0x[0-9a-fA-F]*$/.test(x);
+}
+
+/** Calls a smart-account callData makes, or null when it isn't a known execute shape. */
+export function decodeAccountCalls(callData: Hex): AccountCall[] | null {
+  let decoded;
+  try {
+    decoded = decodeFunctionData({ abi: accountAbi, data: callData });
+  } catch {
+    return null;
+  }
+  const args = decoded.args as readonly unknown[];
+  if (decoded.functionName === "execute") {
+    const [target, value, data] = args as [Hex, bigint, Hex];
+    return [{ target, value, data }];
+  }
+  if (args.length === 1) {
+    return (args[0] as readonly { target: Hex; value: bigint; data: Hex }[]).map((c) => ({ ...c }));
+  }
+  if (args.length === 2) {
+    const [dest, func] = args as [readonly Hex[], readonly Hex[]];
+    if (dest.length !== func.length) return null;
+    return dest.map((target, i) => ({ target, value: 0n, data: func[i] }));
+  }
+  const [dest, value, func] = args as [readonly Hex[], readonly bigint[], readonly Hex[]];
+  if (dest.length !== func.length || (value.length !== 0 && value.length !== dest.length)) return null;
+  return dest.map((target, i) => ({ target, value: value[i] ?? 0n, data: func[i] }));
+}
+
+async function readCount(key: string) {
+  return Number(await getStorage().get<number>(key)) || 0;
+}
+
+/**
+ * Checks an ERC-7677 request (params: [userOp, entryPoint, chainId, context])
+ * against the policy and the quotas. Nothing is counted here; a signed request
+ * then takes its slot with reserveSponsorship.
+ */
+export async function checkSponsorship(chainId: number, params: unknown): Promise<PolicyResult> {
+  const [userOp, , opChainId] = Array.isArray(params) ? params : [];
+  const sender = userOp?.sender;
+  const callData = userOp?.callData;
+  const nonce = userOp?.nonce;
+  if (!isHex(sender) || sender.length !== 42 || !isHex(callData) || (!isHex(nonce) && typeof nonce !== "number")) {
+    return reject(-32602, "invalid_user_operation", "Expected a user operation with sender, nonce and callData");
+  }
+  if (opChainId !== undefined && Number(opChainId) !== chainId) {
+    return reject(-32602, "wrong_chain", `This paymaster sponsors chain ${chainId} only`);
+  }
+
+  const scoreboard = scoreboardAddressFor(chainId);
+  const calls = decodeAccountCalls(callData);
+  if (!calls || calls.length === 0) {
+    return reject(-32003, "unsupported_account_call", "callData is not an execute/executeBatch call");
+  }
+  for (const c of calls) {
+    if (!scoreboard || c.target.toLowerCase() !== scoreboard.toLowerCase()) {
+      return reject(-32003, "target_not_allowed", `Only calls to the scoreboard are sponsored (got ${c.target})`);
+    }
+    // The difficulty tag and Builder Code suffix follow the ABI args; only the selector matters.
+    if (c.data.slice(0, 10).toLowerCase() !== SUBMIT_SCORE_SELECTOR) {
+      return reject(-32003, "selector_not_allowed", "Only submitScore calls are sponsored");
+    }
+    if (c.value !== 0n) {
+      return reject(-32003, "value_not_allowed", "Sponsored calls cannot send value");
+    }
+  }
+
+  let nonceStr: string;
+  try {
+    nonceStr = BigInt(nonce).toString();
+  } catch {
+    return reject(-32602, "invalid_user_operation", "Invalid nonce");
+  }
+  const op: SponsoredOp = { chainId, sender, nonce: nonceStr, calls: calls.length };
+
+  // An operation that already got its sponsorship may ask again (wallet retries).
+  if ((await getStorage().get(opKey(chainId, sender, nonceStr))) !== null) return { ok: true, op };
+
+  const day = dayBucket(Date.now());
+  const senderMax = senderDailyLimit();
+  if ((await readCount(senderKey(chainId, day, sender))) + op.calls > senderMax) {
+    return reject(-32005, "sender_quota_exceeded", `Daily limit of ${senderMax} sponsored saves reached for ${sender}`);
+  }
+  const globalMax = globalDailyLimit();
+  if ((await readCount(globalKey(chainId, day))) + op.calls > globalMax) {
+    return reject(-32005, "global_quota_exceeded", "Daily sponsorship budget is used up; try again tomorrow");
+  }
+  return { ok: true, op };
+}
+
+export type SponsorQuota = {
+  limit: number;
+  used: number;
+  // min(sender's remaining, what's left of the global budget)
+  remaining: number;
+  resetsAt: number;
+};
+
+/** Sponsored saves `sender` has left today on `chainId`. */
+export async function readSponsorQuota(chainId: number, sender: string): Promise<SponsorQuota> {
+  const day = dayBucket(Date.now());
+  const limit = senderDailyLimit();
+  const used = await readCount(senderKey(chainId, day, sender));
+  const globalLeft = globalDailyLimit() - (await readCount(globalKey(chainId, day)));
+  return {
+    limit,
+    used,
+    remaining: Math.max(0, Math.min(limit - used, globalLeft)),
+    resetsAt: (day + 1) * DAY_MS,
+  };
+}
+
+// `day` is the quota day the slot was taken from (releaseSponsorship needs it).
+export type Reservation = { ok: true; repeat: boolean; day: number } | { ok: false; rejection: PolicyRejection };
+
+/**
+ * Takes a signed sponsorship's slots in both quotas (once per user operation,
+ * one slot per call).
+ * Each counter is incremented first and compared after, and an increment past
+ * the limit is handed back, so the limits hold under concurrent requests.
+ * `repeat` means the operation already holds a slot.
+ */
+export async function reserveSponsorship(op: SponsoredOp): Promise<Reservation> {
+  const storage = getStorage();
+  const ttl = { ttlMs: QUOTA_TTL_MS };
+  const day = dayBucket(Date.now());
+  const oKey = opKey(op.chainId, op.sender, op.nonce);
+  if (!(await storage.setnx(oKey, Date.now(), ttl))) return { ok: true, repeat: true, day };
+
+  const sKey = senderKey(op.chainId, day, op.sender);
+  const gKey = globalKey(op.chainId, day);
+  const senderMax = senderDailyLimit();
+  const by = op.calls;
+  if ((await storage.incr(sKey, { ...ttl, by })) > senderMax) {
+    await storage.decr(sKey, { by });
+    await storage.del(oKey);
+    return reject(-32005, "sender_quota_exceeded", `Daily limit of ${senderMax} sponsored saves reached for ${op.sender}`);
+  }
+  if ((await storage.incr(gKey, { ...ttl, by })) > globalDailyLimit()) {
+    await storage.decr(gKey, { by });
+    await storage.decr(sKey, { by });
+    await storage.del(oKey);
+    return reject(-32005, "global_quota_exceeded", "Daily sponsorship budget is used up; try again tomorrow");
+  }
+  return { ok: true, repeat: false, day };
+}
+
+/** Hands back the slots taken by reserveSponsorship (the upstream didn't sponsor the operation). */
+export async function releaseSponsorship(op: SponsoredOp, day: number) {
+  const storage = getStorage();
+  await storage.decr(senderKey(op.chainId, day, op.sender), { by: op.calls });
+  await storage.decr(globalKey(op.chainId, day), { by: op.calls });
+  await storage.del(opKey(op.chainId, op.sender, op.nonce));
+}
@@ -0,0 +1,118 @@
+import "server-only";
+
+import { getStorage } from "@/lib/storage";
+
+// Sponsorship accounting for the paymaster proxy: every request that reaches
+// the policy is counted per chain and UTC day (outcome, method, rejection
+// reason), and signed sponsorships add their estimated gas, per sender too.
+// Backs GET /api/admin/paymaster/stats.
+
+// "repeat": paymaster data for an operation that was already sponsored (wallet retry).
+export type PaymasterOutcome = "stub" | "sponsored" | "repeat" | "rejected" | "upstream_error";
+
+export type PaymasterDayStats = {
+  day: number;
+  date: string;
+  requests: number;
+  outcomes: Record<string, number>;
+  methods: Record<string, number>;
+  rejections: Record<string, number>;
+  gasUnits: number;
+  // maxFeePerGas × gas limits: an upper bound on what the paymaster pays.
+  estCostGwei: number;
+  topSenders: Array<{ sender: string; sponsored: number; estCostGwei: number }>;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STATS_TTL_MS = 40 * DAY_MS;
+const TOP_SENDERS = 10;
+
+const dayBucket = (tsMs: number) => Math.floor(tsMs / DAY_MS);
+const statsKey = (chainId: number, day: number) => `dw:pm:${chainId}:stats:${day}`;
+const sendersKey = (chainId: number, day: number) => `dw:pm:${chainId}:stats:${day}:senders`;
+const senderCostKey = (chainId: number, day: number) => `dw:pm:${chainId}:stats:${day}:senderCost`;
+
+function big(x: unknown) {
+  try {
+    return typeof x === "string" || typeof x === "number" || typeof x === "bigint" ? BigInt(x) : 0n;
+  } catch {
+    return 0n;
+  }
+}
+
+/**
+ * Gas limits of an ERC-4337 user operation (v0.6 or v0.7 fields) and their
+ * cost at maxFeePerGas, in gwei. Zero for fields the wallet left out.
+ */
+export function estimateUserOpGas(userOp: any): { units: number; costGwei: number } {
+  const units =
+    big(userOp?.callGasLimit) +
+    big(userOp?.verificationGasLimit) +
+    big(userOp?.preVerificationGas) +
+    big(userOp?.paymasterVerificationGasLimit) +
+    big(userOp?.paymasterPostOpGasLimit);
+  const costWei = units * big(userOp?.maxFeePerGas);
+  return { units: Number(units), costGwei: Number(costWei / 1_000_000_000n) };
+}
+
+export async function recordPaymasterRequest(params: {
+  chainId: number;
+  method: string;
+  sender: string | null;
+  outcome: PaymasterOutcome;
+  reason?: string;
+  gas?: { units: number; costGwei: number };
+}) {
+  const storage = getStorage();
+  const day = dayBucket(Date.now());
+  const key = statsKey(params.chainId, day);
+
+  await storage.hincrby(key, "requests", 1);
+  await storage.hincrby(key, `outcome:${params.outcome}`, 1);
+  await storage.hincrby(key, `method:${params.method}`, 1);
+  if (params.reason) await storage.hincrby(key, `reason:${params.reason}`, 1);
+  await storage.expire(key, STATS_TTL_MS);
+
+  if (params.outcome !== "sponsored") return;
+  const gas = params.gas ?? { units: 0, costGwei: 0 };
+  await storage.hincrby(key, "gasUnits", gas.units);
+  await storage.hincrby(key, "estCostGwei", gas.costGwei);
+  if (!params.sender) return;
+  const sender = params.sender.toLowerCase();
+  await storage.zincrby(sendersKey(params.chainId, day), 1, sender);
+  await storage.zincrby(senderCostKey(params.chainId, day), gas.costGwei, sender);
+  await storage.expire(sendersKey(params.chainId, day), STATS_TTL_MS);
+  await storage.expire(senderCostKey(params.chainId, day), STATS_TTL_MS);
+}
+
+function prefixed(fields: Record<string, number>, prefix: string) {
+  const out: Record<string, number> = {};
+  for (const [f, n] of Object.entries(fields)) {
+    if (f.startsWith(prefix)) out[f.slice(prefix.length)] = Number(n) || 0;
+  }
+  return out;
+}
+
+/** The last `days` UTC days (today first). */
+export async function readPaymasterStats(chainId: number, days: number): Promise<PaymasterDayStats[]> {
+  const storage = getStorage();
+  const today = dayBucket(Date.now());
+  const out: PaymasterDayStats[] = [];
+  for (let day = today; day > today - days; day--) {
+    const fields = await storage.hgetall<number>(statsKey(chainId, day));
+    const top = await storage.zrange(sendersKey(chainId, day), 0, TOP_SENDERS - 1, { rev: true });
+    const costs = await Promise.all(top.map((m) => storage.zscore(senderCostKey(chainId, day), m.member)));
+    out.push({
+      day,
+      date: new Date(day * DAY_MS).toISOString().slice(0, 10),
+      requests: Number(fields.requests) || 0,
+      outcomes: prefixed(fields, "outcome:"),
+      methods: prefixed(fields, "method:"),
+      rejections: prefixed(fields, "reason:"),
+      gasUnits: Number(fields.gasUnits) || 0,
+      estCostGwei: Number(fields.estCostGwei) || 0,
+      topSenders: top.map((m, i) => ({ sender: m.member, sponsored: m.score, estCostGwei: costs[i] ?? 0 })),
+    });
+  }
+  return out;
+}
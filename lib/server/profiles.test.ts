@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryBackend, setStorageBackend } from "@/lib/storage";
+import { resolveProfiles, setProfileResolvers, withProfiles, type Profile, type ProfileResolver } from "./profiles";
+
+const ALICE = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const ALICE_CHECKSUMMED = "0xAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA";
+const BOB = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+const HOUR_MS = 60 * 60 * 1000;
+
+// Resolver that knows `known` and records which addresses it was asked about.
+function countingResolver(known: Record<string, Partial<Profile>>) {
+  const calls: string[][] = [];
+  const resolver: ProfileResolver = {
+    name: "counting",
+    async resolve(addresses) {
+      calls.push(addresses);
+      return Object.fromEntries(addresses.filter((a) => known[a]).map((a) => [a, known[a]]));
+    },
+  };
+  return { resolver, calls };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  setStorageBackend(createMemoryBackend());
+});
+
+afterEach(() => {
+  setProfileResolvers(null);
+  setStorageBackend(null);
+  vi.unstubAllEnvs();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("profile resolvers", () => {
+  it("resolves fixtures from PROFILE_FIXTURES", async () => {
+    vi.stubEnv("PROFILE_FIXTURES", JSON.stringify({ [ALICE_CHECKSUMMED]: { username: "alice" } }));
+    const rows = await withProfiles([
+      { address: ALICE, score: 10 },
+      { address: BOB, score: 5 },
+    ]);
+    expect(rows[0]).toMatchObject({ address: ALICE, score: 10, username: "alice", fid: null, basename: null });
+    expect(rows[1]).toMatchObject({ address: BOB, username: null });
+  });
+
+  it("ignores PROFILE_FIXTURES that isn't JSON", async () => {
+    vi.stubEnv("PROFILE_FIXTURES", "{alice");
+    expect(await resolveProfiles([ALICE])).toEqual({});
+    expect(console.warn).toHaveBeenCalledWith("[profiles] PROFILE_FIXTURES is not valid JSON");
+  });
+
+  it("lets earlier resolvers win a field", async () => {
+    const first = countingResolver({ [ALICE]: { username: "alice", pfpUrl: null } });
+    const second = countingResolver({
+      [ALICE]: { username: "other", pfpUrl: "https://pfp", basename: "alice.base.eth" },
+    });
+    setProfileResolvers([first.resolver, second.resolver]);
+    expect((await resolveProfiles([ALICE]))[ALICE]).toEqual({
+      fid: null,
+      username: "alice",
+      displayName: null,
+      pfpUrl: "https://pfp",
+      basename: "alice.base.eth",
+    });
+  });
+});
+
+describe("profile cache", () => {
+  it("keeps a known profile for a day", async () => {
+    const { resolver, calls } = countingResolver({ [ALICE]: { username: "alice" } });
+    setProfileResolvers([resolver]);
+
+    await resolveProfiles([ALICE]);
+    vi.setSystemTime(Date.now() + 23 * HOUR_MS);
+    expect((await resolveProfiles([ALICE_CHECKSUMMED]))[ALICE].username).toBe("alice");
+    expect(calls).toHaveLength(1);
+
+    vi.setSystemTime(Date.now() + 2 * HOUR_MS);
+    await resolveProfiles([ALICE]);
+    expect(calls).toHaveLength(2);
+  });
+
+  it("re-checks an unknown address after 6 hours", async () => {
+    const { resolver, calls } = countingResolver({});
+    setProfileResolvers([resolver]);
+
+    expect((await resolveProfiles([BOB]))[BOB].username).toBeNull();
+    vi.setSystemTime(Date.now() + 5 * HOUR_MS);
+    await resolveProfiles([BOB]);
+    expect(calls).toHaveLength(1);
+
+    vi.setSystemTime(Date.now() + 2 * HOUR_MS);
+    await resolveProfiles([BOB]);
+    expect(calls).toHaveLength(2);
+  });
+
+  it("only asks about addresses it hasn't cached", async () => {
+    const { resolver, calls } = countingResolver({ [ALICE]: { username: "alice" }, [BOB]: { username: "bob" } });
+    setProfileResolvers([resolver]);
+
+    await resolveProfiles([ALICE]);
+    const out = await resolveProfiles([ALICE, BOB, BOB]);
+    expect(calls).toEqual([[ALICE], [BOB]]);
+    expect([out[ALICE].username, out[BOB].username]).toEqual(["alice", "bob"]);
+  });
+
+  it("doesn't cache a miss while a resolver is failing", async () => {
+    const { resolver, calls } = countingResolver({});
+    const failing: ProfileResolver = {
+      name: "down",
+      async resolve() {
+        throw new Error("HTTP 503");
+      },
+    };
+    setProfileResolvers([failing, resolver]);
+
+    await resolveProfiles([BOB]);
+    await resolveProfiles([BOB]);
+    expect(calls).toHaveLength(2);
+    expect(console.warn).toHaveBeenCalledWith("[profiles] down failed:", "HTTP 503");
+  });
+});
@@ -0,0 +1,208 @@
+import "server-only";
+
+import { namehash } from "viem";
+import { base } from "viem/chains";
+import { getJson, setJson } from "@/lib/storage";
+import { publicClientFor } from "./chainClient";
+
+// Address -> display identity for leaderboard rows.
+// Resolvers sit behind one interface (Neynar for Farcaster users, Basenames,
+// fixtures for local dev/tests) and their results are cached in storage, so a
+// leaderboard GET only hits the network for addresses it hasn't seen lately.
+
+export type Profile = {
+  fid: number | null;
+  username: string | null;
+  displayName: string | null;
+  pfpUrl: string | null;
+  basename: string | null;
+};
+
+export type ProfileResolver = {
+  name: string;
+  /** Returns what it knows, keyed by lowercase address. Missing = unknown. Throws on transport errors. */
+  resolve: (addresses: string[]) => Promise<Record<string, Partial<Profile>>>;
+};
+
+const EMPTY_PROFILE: Profile = { fid: null, username: null, displayName: null, pfpUrl: null, basename: null };
+
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+// Unknown addresses are re-checked sooner: players link Farcaster accounts later.
+const MISS_TTL_MS = 6 * 60 * 60 * 1000;
+const RESOLVE_TIMEOUT_MS = 3_000;
+
+const profileKey = (address: string) => `dw:profile:${address.toLowerCase()}`;
+
+// ---------------------------------------------------------------------------
+// Resolvers
+
+/** Farcaster users by verified/custody address (Neynar bulk-by-address). */
+export function createNeynarResolver(apiKey: string): ProfileResolver {
+  return {
+    name: "neynar",
+    async resolve(addresses) {
+      const url = new URL("https://api.neynar.com/v2/farcaster/user/bulk-by-address");
+      url.searchParams.set("addresses", addresses.join(","));
+      const res = await fetch(url, {
+        headers: { accept: "application/json", "x-api-key": apiKey },
+        signal: AbortSignal.timeout(RESOLVE_TIMEOUT_MS),
+      });
+      // 404 = none of the addresses belong to a Farcaster user.
+      if (res.status === 404) return {};
+      if (!res.ok) throw new Error(`Neynar HTTP ${res.status}`);
+
+      const data = (await res.json()) as Record<string, any[]>;
+      const out: Record<string, Partial<Profile>> = {};
+      for (const [address, users] of Object.entries(data ?? {})) {
+        const u = Array.isArray(users) ? users[0] : null;
+        if (!u) continue;
+        out[address.toLowerCase()] = {
+          fid: typeof u.fid === "number" ? u.fid : null,
+          username: typeof u.username === "string" ? u.username : null,
+          displayName: typeof u.display_name === "string" ? u.display_name : null,
+          pfpUrl: typeof u.pfp_url === "string" ? u.pfp_url : null,
+        };
+      }
+      return out;
+    },
+  };
+}
+
+// Basenames' L2 resolver on Base mainnet.
+const BASENAME_L2_RESOLVER = "0xC6d566A56A1aFf6508b41f6c90ff131615583BCD" as const;
+const BASE_COIN_TYPE_HEX = (0x80000000 | 8453).toString(16).toUpperCase(); // ENSIP-11
+
+const nameAbi = [
+  {
+    type: "function",
+    name: "name",
+    stateMutability: "view",
+    inputs: [{ name: "node", type: "bytes32" }],
+    outputs: [{ name: "", type: "string" }],
+  },
+] as const;
+
+/** Primary Basename (reverse record on Base), e.g. `alice.base.eth`. */
+export function createBasenameResolver(): ProfileResolver {
+  return {
+    name: "basename",
+    async resolve(addresses) {
+      const out: Record<string, Partial<Profile>> = {};
+      const names = await Promise.all(
+        addresses.map((a) =>
+          publicClientFor(base.id)
+            .readContract({
+              address: BASENAME_L2_RESOLVER,
+              abi: nameAbi,
+              functionName: "name",
+              args: [namehash(`${a.toLowerCase().slice(2)}.${BASE_COIN_TYPE_HEX}.reverse`)],
+            })
+            .catch(() => "")
+        )
+      );
+      addresses.forEach((a, i) => {
+        if (names[i]) out[a.toLowerCase()] = { basename: names[i] };
+      });
+      return out;
+    },
+  };
+}
+
+/** Fixed address -> profile map, for local development and tests. */
+export function createFixtureResolver(fixtures: Record<string, Partial<Profile>>): ProfileResolver {
+  const byAddress = Object.fromEntries(Object.entries(fixtures).map(([a, p]) => [a.toLowerCase(), p]));
+  return {
+    name: "fixture",
+    async resolve(addresses) {
+      const out: Record<string, Partial<Profile>> = {};
+      for (const a of addresses) {
+        const p = byAddress[a.toLowerCase()];
+        if (p) out[a.toLowerCase()] = p;
+      }
+      return out;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+
+let override: ProfileResolver[] | null = null;
+
+/** Replaces the env-selected resolvers (tests, scripts). Pass null to restore. */
+export function setProfileResolvers(resolvers: ProfileResolver[] | null) {
+  override = resolvers;
+}
+
+/**
+ * NEYNAR_API_KEY enables Farcaster lookups, PROFILE_BASENAMES=true enables
+ * Basenames, PROFILE_FIXTURES='{"0xabc…":{"username":"alice"}}' adds fixed
+ * profiles (local dev). Earlier resolvers win when several know a field.
+ */
+function activeResolvers(): ProfileResolver[] {
+  if (override) return override;
+  const out: ProfileResolver[] = [];
+  const fixtures = (process.env.PROFILE_FIXTURES || "").trim();
+  if (fixtures) {
+    try {
+      out.push(createFixtureResolver(JSON.parse(fixtures)));
+    } catch {
+      console.warn("[profiles] PROFILE_FIXTURES is not valid JSON");
+    }
+  }
+  const neynarKey = (process.env.NEYNAR_API_KEY || "").trim();
+  if (neynarKey) out.push(createNeynarResolver(neynarKey));
+  if (process.env.PROFILE_BASENAMES === "true") out.push(createBasenameResolver());
+  return out;
+}
+
+/**
+ * Profiles for a set of addresses (lowercase keys). Never throws: a failing
+ * resolver just leaves its fields empty, uncached, until the next request.
+ */
+export async function resolveProfiles(addresses: string[]): Promise<Record<string, Profile>> {
+  const unique = Array.from(new Set(addresses.map((a) => a.toLowerCase())));
+  const out: Record<string, Profile> = {};
+  const resolvers = activeResolvers();
+  if (!unique.length || !resolvers.length) return out;
+
+  const cached = await Promise.all(unique.map((a) => getJson<Profile>(profileKey(a))));
+  const misses: string[] = [];
+  unique.forEach((a, i) => {
+    if (cached[i]) out[a] = cached[i]!;
+    else misses.push(a);
+  });
+  if (!misses.length) return out;
+
+  const found: Record<string, Profile> = Object.fromEntries(misses.map((a) => [a, { ...EMPTY_PROFILE }]));
+  let complete = true;
+  for (const r of resolvers) {
+    try {
+      const res = await r.resolve(misses);
+      for (const a of misses) {
+        const p = res[a];
+        if (!p) continue;
+        for (const [k, v] of Object.entries(p) as Array<[keyof Profile, any]>) {
+          if (v != null && found[a][k] == null) (found[a] as any)[k] = v;
+        }
+      }
+    } catch (err) {
+      complete = false;
+      console.warn(`[profiles] ${r.name} failed:`, err instanceof Error ? err.message : err);
+    }
+  }
+
+  for (const a of misses) {
+    const p = found[a];
+    out[a] = p;
+    const known = Object.values(p).some((v) => v != null);
+    if (known) await setJson(profileKey(a), p, { ttlMs: CACHE_TTL_MS });
+    else if (complete) await setJson(profileKey(a), p, { ttlMs: MISS_TTL_MS });
+  }
+  return out;
+}
+
+/** Adds the display fields to leaderboard rows. */
+export async function withProfiles<T extends { address: string }>(rows: T[]): Promise<Array<T & Profile>> {
+  const profiles = await resolveProfiles(rows.map((r) => r.address));
+  return rows.map((r) => ({ ...r, ...(profiles[r.address.toLowerCase()] ?? EMPTY_PROFILE) }));
+}
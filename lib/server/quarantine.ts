@@ -0,0 +1,60 @@
+import "server-only";
+
+import { getJson, getStorage, delKey } from "@/lib/storage";
+import type { ScoreCandidate } from "./antiCheat";
+
+// Scores rejected by the anti-cheat pipeline. Nothing is dropped silently:
+// an admin can list them and approve (ingest) or reject them.
+
+export type QuarantinedScore = {
+  id: string; // txHash:logIndex, so POST + sync of the same log collapse into one entry
+  candidate: ScoreCandidate;
+  validator: string;
+  reason: string;
+  quarantinedAt: number;
+};
+
+const KEY = {
+  entry: (id: string) => `dw:ac:quarantine:${id}`,
+  // zset: member = id, score = quarantinedAt
+  index: "dw:ac:quarantine",
+};
+
+export function quarantineId(c: Pick<ScoreCandidate, "txHash" | "logIndex">) {
+  return `${c.txHash.toLowerCase()}:${c.logIndex}`;
+}
+
+export async function quarantineScore(candidate: ScoreCandidate, verdict: { validator: string; reason: string }) {
+  const id = quarantineId(candidate);
+  const entry: QuarantinedScore = {
+    id,
+    candidate,
+    validator: verdict.validator,
+    reason: verdict.reason,
+    quarantinedAt: Date.now(),
+  };
+  // POST and sync may quarantine the same log at once; the first write wins.
+  if (!(await getStorage().setnx(KEY.entry(id), entry))) {
+    return (await getJson<QuarantinedScore>(KEY.entry(id))) ?? entry;
+  }
+  await getStorage().zadd(KEY.index, entry.quarantinedAt, id);
+  console.warn(`[antiCheat] quarantined ${id}: ${verdict.validator} — ${verdict.reason}`);
+  return entry;
+}
+
+/** Quarantined scores, oldest first. */
+export async function listQuarantine(): Promise<QuarantinedScore[]> {
+  const idx = await getStorage().zrange(KEY.index, 0, -1);
+  const entries = await Promise.all(idx.map(({ member }) => getJson<QuarantinedScore>(KEY.entry(member))));
+  return entries.filter((e): e is QuarantinedScore => Boolean(e));
+}
+
+export async function readQuarantined(id: string) {
+  return getJson<QuarantinedScore>(KEY.entry(id));
+}
+
+/** Removes an entry once it has been reviewed (either way). */
+export async function releaseQuarantined(id: string) {
+  await delKey(KEY.entry(id));
+  await getStorage().zrem(KEY.index, id);
+}
@@ -0,0 +1,193 @@
+import "server-only";
+
+import { randomBytes } from "node:crypto";
+import { decodeReplay, type Replay } from "@/lib/replay";
+import type { Difficulty } from "@/lib/difficulty";
+import { chainKeyPrefix } from "@/lib/leaderboard";
+import { getJson, getStorage, setJson } from "@/lib/storage";
+import { loadServerEngine, serverEngineReplays } from "./engine";
+
+// Hard caps so a hostile blob can't pin the CPU.
+const MAX_REPLAY_B64 = 512 * 1024;
+const MAX_FRAMES = 60 * 60 * 30; // 30 minutes at 60fps
+
+// Unsaved runs can be saved days later, so an issued seed stays usable for a while.
+const SEED_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Long enough for a slow chain sync to still find the record.
+const VERIFIED_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+// Slack between the server's clock and the run's own timeline.
+const CLOCK_SLACK_MS = 5_000;
+
+const KEY = {
+  // value = String(issuedAt); deleted when a replay using it is verified
+  seed: (seed: number) => `dw:replay:seed:${seed}`,
+  run: (chainId: number, seed: number) => `${chainKeyPrefix(chainId)}:replay:run:${seed}`,
+  // zset: member = seed, score = verifiedAt; verified runs for one (address, score)
+  verified: (chainId: number, address: string, score: number) =>
+    `${chainKeyPrefix(chainId)}:replay:verified:${address.toLowerCase()}:${score}`,
+  // value = txHash that counted this run
+  claim: (chainId: number, seed: number) => `${chainKeyPrefix(chainId)}:replay:claim:${seed}`,
+};
+
+export type VerifiedReplay = {
+  chainId: number;
+  address: `0x${string}`;
+  score: number;
+  seed: number;
+  difficulty: Difficulty;
+  durationMs: number;
+  frames: number;
+  verifiedAt: number;
+};
+
+export type SimulationResult = {
+  score: number;
+  over: boolean;
+  durationMs: number;
+  frames: number;
+};
+
+/**
+ * When enabled, leaderboard ingestion only accepts scores that have a verified
+ * replay on record:
+ *   LEADERBOARD_REQUIRE_REPLAY=true
+ */
+export function replayRequired() {
+  return process.env.LEADERBOARD_REQUIRE_REPLAY === "true";
+}
+
+/**
+ * Hands out a fresh run seed. Replays are only verified for seeds issued here,
+ * once each, so a client can't pick a seed it has already played through.
+ */
+export async function issueReplaySeed(): Promise<{ seed: number; expiresAt: number }> {
+  const storage = getStorage();
+  const issuedAt = Date.now();
+  for (;;) {
+    const seed = randomBytes(4).readUInt32LE(0);
+    if (await storage.setnx(KEY.seed(seed), String(issuedAt), { ttlMs: SEED_TTL_MS })) {
+      return { seed, expiresAt: issuedAt + SEED_TTL_MS };
+    }
+  }
+}
+
+/**
+ * Re-runs a decoded replay through the engine and returns the resulting score.
+ */
+export async function simulateReplay(replay: Replay): Promise<SimulationResult> {
+  const { GameEngine } = await loadServerEngine();
+  const engine = new GameEngine();
+
+  try {
+    engine.resize(replay.w, replay.h, replay.dpr);
+    engine.reset("play", replay.difficulty, 0, replay.seed);
+
+    let frames = 0;
+    let durationMs = 0;
+    for (const ev of replay.events) {
+      if (ev.kind === "resize") {
+        engine.resize(ev.w, ev.h, ev.dpr);
+        continue;
+      }
+      if (++frames > MAX_FRAMES) throw new Error("Replay too long");
+      engine.set_target_x(ev.tx);
+      engine.update(ev.t);
+      durationMs = ev.t;
+    }
+
+    const state = engine.get_state();
+    return {
+      score: Math.floor(Number(state.score) || 0),
+      over: state.phase === "Over",
+      durationMs,
+      frames,
+    };
+  } finally {
+    engine.free();
+  }
+}
+
+/**
+ * Decodes + simulates a replay of a server-issued seed and, if it reproduces
+ * the claimed score, records it for `chainId` and uses the seed up. Leaderboard
+ * ingestion then accepts that (address, score) for one tx per verified run.
+ */
+export async function verifyReplay(params: {
+  chainId: number;
+  address: `0x${string}`;
+  score: number;
+  replayB64: string;
+}): Promise<
+  { ok: true; record: VerifiedReplay } | { ok: false; error: string; recomputed?: number; unavailable?: boolean }
+> {
+  if (params.replayB64.length > MAX_REPLAY_B64) return { ok: false, error: "Replay too large" };
+  // Fail as "can't verify" rather than as a score mismatch the player caused.
+  if (!(await serverEngineReplays())) {
+    return { ok: false, error: "Replay verification is unavailable (engine build is out of date)", unavailable: true };
+  }
+
+  let replay: Replay;
+  try {
+    replay = decodeReplay(params.replayB64);
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : "Invalid replay" };
+  }
+
+  const storage = getStorage();
+  const issued = await storage.get<string | number>(KEY.seed(replay.seed));
+  if (issued === null) return { ok: false, error: "Unknown or already used seed" };
+  const issuedAt = Number(issued);
+
+  const sim = await simulateReplay(replay);
+  if (!sim.over) return { ok: false, error: "Replay does not end the run", recomputed: sim.score };
+  if (sim.score !== params.score) return { ok: false, error: "Score mismatch", recomputed: sim.score };
+  if (sim.durationMs > Date.now() - issuedAt + CLOCK_SLACK_MS) {
+    return { ok: false, error: "Replay is longer than the time since its seed was issued" };
+  }
+  // Two verifications of the same seed race here; only one uses it up.
+  if (!(await storage.delIfEquals(KEY.seed(replay.seed), String(issued)))) {
+    return { ok: false, error: "Unknown or already used seed" };
+  }
+
+  const record: VerifiedReplay = {
+    chainId: params.chainId,
+    address: params.address,
+    score: sim.score,
+    seed: replay.seed,
+    difficulty: replay.difficulty,
+    durationMs: sim.durationMs,
+    frames: sim.frames,
+    verifiedAt: Date.now(),
+  };
+  const ttl = { ttlMs: VERIFIED_TTL_MS };
+  await setJson(KEY.run(params.chainId, replay.seed), record, ttl);
+  const verifiedKey = KEY.verified(params.chainId, params.address, sim.score);
+  await storage.zadd(verifiedKey, record.verifiedAt, String(replay.seed));
+  await storage.expire(verifiedKey, VERIFIED_TTL_MS);
+  return { ok: true, record };
+}
+
+/**
+ * A verified run of (address, score) on `chainId` for the tx that submitted
+ * it. Each run backs a single tx: the first tx to ask claims it, and later
+ * reads for that same tx (POST route and chain sync) get it again.
+ */
+export async function readVerifiedReplay(
+  chainId: number,
+  address: string,
+  score: number,
+  txHash: string
+): Promise<VerifiedReplay | null> {
+  const storage = getStorage();
+  const tx = txHash.toLowerCase();
+  const seeds = await storage.zrange(KEY.verified(chainId, address, score), 0, -1);
+  for (const { member } of seeds) {
+    const seed = Number(member);
+    const record = await getJson<VerifiedReplay>(KEY.run(chainId, seed));
+    if (!record) continue;
+    const claimKey = KEY.claim(chainId, seed);
+    const ttl = { ttlMs: VERIFIED_TTL_MS };
+    if ((await storage.setnx(claimKey, tx, ttl)) || (await storage.get<string>(claimKey)) === tx) return record;
+  }
+  return null;
+}
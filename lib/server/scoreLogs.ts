@@ -0,0 +1,257 @@
+import "server-only";
+
+import type { Difficulty } from "@/lib/difficulty";
+import { delKey, getJson, getStorage, setJson } from "@/lib/storage";
+import {
+  allTimeEntryOf,
+  chainKeyPrefix,
+  replaceWeeklyBest,
+  setAllTimeBest,
+  upsertAllTimeBest,
+  upsertWeeklyBest,
+  weekIdFromTs,
+} from "@/lib/leaderboard";
+import { findDifficultyTag } from "@/lib/difficultyTag";
+import { screenScore } from "./antiCheat";
+import { attributeScore, recordAttribution, type Attribution } from "./attribution";
+import { readTxInput } from "./txInput";
+
+// Ledger of ScoreSubmitted logs, keyed by txHash:logIndex.
+// - Ingestion is idempotent: the POST route, the chain sync and a sync retried
+//   after a failed getLogs can all see the same log.
+// - Each accepted log is remembered per player-week and per player, so a log
+//   dropped by a reorg can be undone by recomputing the player's weekly and
+//   all-time bests from what remains.
+
+type Addr = `0x${string}`;
+
+export type ScoreLog = {
+  chainId: number;
+  txHash: `0x${string}`;
+  logIndex: number;
+  blockNumber: number;
+  player: Addr;
+  score: number;
+  newBest: number;
+  tsMs: number;
+};
+
+type LedgerEntry = ScoreLog & {
+  outcome: "ingested" | "quarantined";
+  difficulty: Difficulty;
+  reason?: string;
+  // Accepted, but its week was already closed: it only counts on the all-time board.
+  weekClosed?: boolean;
+  // Missing on entries recorded before attribution was tracked.
+  attribution?: Attribution;
+};
+
+type Play = { score: number; tsMs: number; txHash: `0x${string}` };
+
+export type IngestResult = {
+  id: string;
+  duplicate: boolean;
+  outcome: LedgerEntry["outcome"];
+  difficulty: Difficulty;
+  weekId: number;
+  reason?: string;
+  weekClosed?: boolean;
+  attribution?: Attribution;
+};
+
+const LEDGER_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// Only logs inside the reorg window are ever rolled back, so plays can go
+// once their week is well past.
+const PLAYS_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+// Per chain, like the boards themselves (block numbers only mean something within one chain).
+const KEY = {
+  entry: (c: number, id: string) => `${chainKeyPrefix(c)}:log:${id}`,
+  // zset: member = log id, score = block number (logs still inside the reorg window)
+  recent: (c: number) => `${chainKeyPrefix(c)}:log:recent`,
+  // hash: field = log id, value = Play (every accepted log of one player-week)
+  plays: (c: number, d: Difficulty, weekId: number, address: string) =>
+    `${chainKeyPrefix(c)}:plays:${d}:${weekId}:${address.toLowerCase()}`,
+  // hash: field = log id, value = Play (every accepted log of one player, all weeks)
+  bests: (c: number, address: string) => `${chainKeyPrefix(c)}:plays:alltime:${address.toLowerCase()}`,
+};
+
+export function scoreLogId(log: Pick<ScoreLog, "txHash" | "logIndex">) {
+  return `${log.txHash.toLowerCase()}:${log.logIndex}`;
+}
+
+/** Maps a decoded ScoreSubmitted log (getLogs) to a ScoreLog. */
+export function toScoreLog(chainId: number, log: any): ScoreLog {
+  return {
+    chainId,
+    txHash: (log.transactionHash || "0x") as `0x${string}`,
+    logIndex: Number(log.logIndex),
+    blockNumber: Number(log.blockNumber),
+    player: String(log.args.player).toLowerCase() as Addr,
+    score: Number(log.args.score),
+    newBest: Number(log.args.newBest),
+    tsMs: Number(log.args.timestamp) * 1000,
+  };
+}
+
+/** Returns whether the log's week was already closed (see upsertWeeklyBest). */
+async function applyAccepted(log: ScoreLog, id: string, difficulty: Difficulty, backfill: boolean) {
+  const { chainId, txHash, player, score, tsMs } = log;
+  const storage = getStorage();
+
+  const { weekClosed } = await upsertWeeklyBest({
+    chainId,
+    tsMs,
+    address: player,
+    score,
+    txHash,
+    difficulty,
+    backfill,
+  });
+
+  const playsKey = KEY.plays(chainId, difficulty, weekIdFromTs(tsMs), player);
+  const play: Play = { score, tsMs, txHash };
+  await storage.hset(playsKey, { [id]: play });
+  await storage.expire(playsKey, PLAYS_TTL_MS);
+
+  // All-time board: the best screened score. newBest is the contract's best over
+  // every tx, quarantined ones included, so it isn't trusted here.
+  await storage.hset(KEY.bests(chainId, player), { [id]: play });
+  await upsertAllTimeBest({ chainId, tsMs, address: player, score, txHash });
+  return weekClosed;
+}
+
+/**
+ * Screens and ingests one log into the weekly and all-time boards.
+ * A log seen before returns its recorded outcome without touching anything,
+ * except with `backfill`: accepted logs are then re-applied (without being
+ * screened again), since the week they belong to may be getting rebuilt.
+ */
+export async function ingestScoreLog(
+  log: ScoreLog,
+  source: "post" | "sync",
+  opts?: { backfill?: boolean }
+): Promise<IngestResult> {
+  const id = scoreLogId(log);
+  const backfill = Boolean(opts?.backfill);
+  const weekId = weekIdFromTs(log.tsMs);
+
+  const existing = await getJson<LedgerEntry>(KEY.entry(log.chainId, id));
+  if (existing) {
+    if (backfill && existing.outcome === "ingested") await applyAccepted(log, id, existing.difficulty, true);
+    return {
+      id,
+      duplicate: true,
+      outcome: existing.outcome,
+      difficulty: existing.difficulty,
+      weekId,
+      reason: existing.reason,
+      weekClosed: existing.weekClosed,
+      attribution: existing.attribution,
+    };
+  }
+
+  const { chainId, txHash, logIndex, player, score, tsMs } = log;
+  const input = await readTxInput(chainId, txHash);
+  const taggedDifficulty = input ? findDifficultyTag(input, score) : null;
+  const attribution = attributeScore(input, score);
+  const verdict = await screenScore({
+    chainId,
+    address: player,
+    score,
+    tsMs,
+    txHash,
+    logIndex,
+    source,
+    taggedDifficulty,
+  });
+  const { difficulty } = verdict.candidate;
+
+  const weekClosed = verdict.ok ? await applyAccepted(log, id, difficulty, backfill) : false;
+
+  const entry: LedgerEntry = {
+    ...log,
+    outcome: verdict.ok ? "ingested" : "quarantined",
+    difficulty,
+    reason: verdict.ok ? undefined : verdict.reason,
+    weekClosed: weekClosed || undefined,
+    attribution,
+  };
+  await setJson(KEY.entry(chainId, id), entry, { ttlMs: LEDGER_TTL_MS });
+  await getStorage().zadd(KEY.recent(chainId), log.blockNumber, id);
+  await recordAttribution(chainId, attribution);
+
+  return {
+    id,
+    duplicate: false,
+    outcome: entry.outcome,
+    difficulty,
+    weekId,
+    reason: entry.reason,
+    weekClosed: entry.weekClosed,
+    attribution,
+  };
+}
+
+/** Undoes one log. */
+async function rollbackLog(chainId: number, id: string) {
+  const storage = getStorage();
+  const e = await getJson<LedgerEntry>(KEY.entry(chainId, id));
+  await storage.zrem(KEY.recent(chainId), id);
+  await delKey(KEY.entry(chainId, id));
+  if (e?.attribution) await recordAttribution(chainId, e.attribution, -1);
+  if (!e || e.outcome !== "ingested") return;
+
+  const weekId = weekIdFromTs(e.tsMs);
+  const playsKey = KEY.plays(chainId, e.difficulty, weekId, e.player);
+  await storage.hdel(playsKey, id);
+
+  const plays = Object.values(await storage.hgetall<Play>(playsKey));
+  plays.sort((a, b) => b.score - a.score || a.tsMs - b.tsMs);
+  await replaceWeeklyBest({ chainId, difficulty: e.difficulty, weekId, address: e.player, best: plays[0] ?? null });
+
+  // The all-time entry only changes when it came from this log. Its next best is
+  // the player's best remaining accepted log (none: off the board).
+  const bestsKey = KEY.bests(chainId, e.player);
+  await storage.hdel(bestsKey, id);
+  const current = await allTimeEntryOf(chainId, e.player);
+  if (current?.txHash.toLowerCase() === e.txHash.toLowerCase()) {
+    const rest = Object.values(await storage.hgetall<Play>(bestsKey));
+    rest.sort((a, b) => b.score - a.score || a.tsMs - b.tsMs);
+    const next = rest[0];
+    await setAllTimeBest({
+      chainId,
+      address: e.player,
+      score: next?.score ?? 0,
+      tsMs: next?.tsMs ?? e.tsMs,
+      txHash: next?.txHash,
+    });
+  }
+
+  console.warn(`[scoreLogs] rolled back ${id} (chain ${chainId}, block ${e.blockNumber})`);
+}
+
+async function rollbackIds(chainId: number, ids: string[]) {
+  for (const id of ids) await rollbackLog(chainId, id);
+  return ids.length;
+}
+
+/** Undoes every log recorded above `blockNumber` (the common ancestor after a reorg). */
+export async function rollbackLogsAbove(chainId: number, blockNumber: number) {
+  const recent = await getStorage().zrangeByScore(KEY.recent(chainId), blockNumber + 1, Number.MAX_SAFE_INTEGER);
+  return rollbackIds(chainId, recent.map((m) => m.member));
+}
+
+/**
+ * Undoes logs recorded in [fromBlock, toBlock] that the chain no longer has
+ * (e.g. ingested by the POST route from a block that was later reorged out).
+ */
+export async function rollbackMissingLogs(chainId: number, fromBlock: number, toBlock: number, seen: Set<string>) {
+  const recent = await getStorage().zrangeByScore(KEY.recent(chainId), fromBlock, toBlock);
+  return rollbackIds(chainId, recent.map((m) => m.member).filter((id) => !seen.has(id)));
+}
+
+/** Forgets logs at or below `blockNumber`: they are final and can't be rolled back anymore. */
+export async function trimRecentLogs(chainId: number, blockNumber: number) {
+  if (blockNumber >= 0) await getStorage().zremRangeByScore(KEY.recent(chainId), 0, blockNumber);
+}
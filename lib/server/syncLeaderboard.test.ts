@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryBackend, setStorageBackend } from "@/lib/storage";
+import { allTimeEntries, currentWeekId, topEntries } from "@/lib/leaderboard";
+import { ingestScoreLog } from "./scoreLogs";
+import { syncLeaderboardFromChain } from "./syncLeaderboard";
+
+type StubLog = { block: number; logIndex: number; tx: number; player: string; score: number };
+
+// A chain whose blocks a test can rewrite: every block above `forkAt` gets a new hash.
+const chain = vi.hoisted(() => ({
+  head: 0,
+  fork: "a",
+  forkAt: Infinity,
+  logs: [] as StubLog[],
+}));
+
+vi.mock("./chainClient", () => {
+  const hashOf = (n: number) => {
+    const branch = n > chain.forkAt ? chain.fork : "a";
+    return `0x${branch}${n.toString(16).padStart(63, "0")}`;
+  };
+  const client = {
+    getBlockNumber: async () => BigInt(chain.head),
+    getBlock: async ({ blockNumber }: { blockNumber: bigint }) => {
+      const n = Number(blockNumber);
+      return { hash: hashOf(n), parentHash: hashOf(n - 1) };
+    },
+    getLogs: async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) =>
+      chain.logs
+        .filter((l) => l.block >= Number(fromBlock) && l.block <= Number(toBlock))
+        .map((l) => ({
+          transactionHash: `0x${l.tx.toString(16).padStart(64, "0")}`,
+          logIndex: l.logIndex,
+          blockNumber: BigInt(l.block),
+          args: {
+            player: l.player,
+            score: BigInt(l.score),
+            newBest: BigInt(l.score),
+            timestamp: BigInt(Math.floor(Date.now() / 1000)),
+          },
+        })),
+    getTransaction: async () => {
+      throw new Error("not found");
+    },
+  };
+  return {
+    publicClientFor: () => client,
+    scoreboardAddressFor: () => "0x5c0e000000000000000000000000000000000000",
+    scoreSubmittedEvent: {},
+  };
+});
+
+// The replay store runs the WASM engine; no replays are stored here.
+vi.mock("./replayVerify", () => ({
+  readVerifiedReplay: async () => null,
+  replayRequired: () => false,
+}));
+
+const MAINNET = 8453;
+const ALICE = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const BOB = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+
+const weekly = async () => (await topEntries(MAINNET, "easy", currentWeekId())).map((e) => [e.address, e.score]);
+const allTime = async () => (await allTimeEntries(MAINNET)).map((e) => [e.address, e.score]);
+
+beforeEach(() => {
+  vi.stubEnv("SYNC_CONFIRMATIONS", "0");
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  setStorageBackend(createMemoryBackend());
+  Object.assign(chain, { head: 0, fork: "a", forkAt: Infinity, logs: [] });
+});
+
+afterEach(() => {
+  setStorageBackend(null);
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("reorg handling", () => {
+  it("rolls back the logs above the common ancestor and re-ingests the new branch", async () => {
+    chain.head = 20;
+    chain.logs = [
+      { block: 5, logIndex: 0, tx: 1, player: ALICE, score: 100 },
+      { block: 12, logIndex: 0, tx: 2, player: BOB, score: 300 },
+      { block: 15, logIndex: 3, tx: 3, player: ALICE, score: 500 },
+    ];
+    // Two runs, so there is a checkpoint below the fork (block 9) and one above it (block 20).
+    await syncLeaderboardFromChain(MAINNET, { maxBlocks: 10n });
+    await syncLeaderboardFromChain(MAINNET);
+    expect(await weekly()).toEqual([
+      [ALICE, 500],
+      [BOB, 300],
+    ]);
+    expect(await allTime()).toEqual([
+      [ALICE, 500],
+      [BOB, 300],
+    ]);
+
+    // Blocks 10+ are replaced: Bob's tx is included again one block later, Alice's 500 is gone.
+    Object.assign(chain, { head: 25, fork: "b", forkAt: 9 });
+    chain.logs = [chain.logs[0], { ...chain.logs[1], block: 13 }];
+    const res = await syncLeaderboardFromChain(MAINNET);
+
+    expect(res.reorg).toEqual({ rolledBackTo: "9", logsRolledBack: 2 });
+    expect(res).toMatchObject({ fromBlock: "10", toBlock: "25", logsProcessed: 1 });
+    expect(await weekly()).toEqual([
+      [BOB, 300],
+      [ALICE, 100],
+    ]);
+    expect(await allTime()).toEqual([
+      [BOB, 300],
+      [ALICE, 100],
+    ]);
+  });
+
+  it("rolls back a log the POST route ingested from a block the chain no longer has", async () => {
+    chain.head = 10;
+    await ingestScoreLog(
+      {
+        chainId: MAINNET,
+        txHash: `0x${"9".repeat(64)}`,
+        logIndex: 0,
+        blockNumber: 8,
+        player: ALICE,
+        score: 700,
+        newBest: 700,
+        tsMs: Date.now(),
+      },
+      "post",
+    );
+    expect(await weekly()).toEqual([[ALICE, 700]]);
+
+    await syncLeaderboardFromChain(MAINNET);
+    expect(await weekly()).toEqual([]);
+    expect(await allTime()).toEqual([]);
+  });
+});
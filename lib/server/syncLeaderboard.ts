@@ -1,43 +1,121 @@
 import "server-only";
 
-import type { Redis } from "@upstash/redis";
-import { publicClient, scoreSubmittedEvent } from "./chainClient";
-import { getRedis } from "./redis";
-import { upsertWeeklyBest, weekIdFromTs } from "@/lib/leaderboard";
+import { publicClientFor, scoreboardAddressFor, scoreSubmittedEvent } from "./chainClient";
+import { getJson, getStorage, setJson, withLease } from "@/lib/storage";
+import { chainKeyPrefix } from "@/lib/leaderboard";
+import { supportedChains } from "@/lib/chains";
+import {
+  ingestScoreLog,
+  rollbackLogsAbove,
+  rollbackMissingLogs,
+  toScoreLog,
+  trimRecentLogs,
+} from "./scoreLogs";
 
 // How many blocks to query per getLogs call (keeps RPC happy).
 const CHUNK = 2000n;
 
-// Redis keys for tracking sync state
+const AUTO_SYNC_EVERY_MS = 3 * 60_000;
+
+// Blocks a log needs on top of it before we ingest it. Override with SYNC_CONFIRMATIONS.
+const DEFAULT_CONFIRMATIONS = 10n;
+// How far back a reorg is still handled (~1h of Base blocks). Logs older than
+// this are final, and so are the block hashes we keep.
+const REORG_WINDOW_BLOCKS = 1800n;
+const MAX_CHECKPOINTS = 64;
+const SYNC_LOCK_TTL_MS = 5 * 60_000;
+
+// Storage keys for tracking sync state (per chain, except the auto-sync timer)
 const KEYS = {
-  lastBlock: "dw:lb:sync:lastBlock",
+  lastBlock: (c: number) => `${chainKeyPrefix(c)}:sync:lastBlock`,
   lastAutoSyncAt: "dw:lb:sync:lastAutoSyncAt",
+  // [{ n, hash }] for recently processed blocks (chunk ends), newest first
+  checkpoints: (c: number) => `${chainKeyPrefix(c)}:sync:checkpoints`,
+  lock: (c: number) => `${chainKeyPrefix(c)}:sync:lock`,
 };
 
+type Checkpoint = { n: string; hash: `0x${string}` };
+
 export type SyncResult = {
+  chainId: number;
   ok: boolean;
   error?: string;
+  // Another sync held the lock; nothing was done.
+  skipped?: boolean;
   contract: string;
   fromBlock: string;
   toBlock: string;
   logsProcessed: number;
   usersTouched: number;
+  // Set when a reorg was detected and ingested logs were rolled back.
+  reorg?: { rolledBackTo: string; logsRolledBack: number };
 };
 
+function confirmations() {
+  const raw = process.env.SYNC_CONFIRMATIONS;
+  const n = raw ? Number(raw) : NaN;
+  return Number.isInteger(n) && n >= 0 ? BigInt(n) : DEFAULT_CONFIRMATIONS;
+}
+
+/** Newest block with SYNC_CONFIRMATIONS on top of it. */
+export async function confirmedBlockNumber(chainId: number) {
+  const latest = await publicClientFor(chainId).getBlockNumber();
+  return latest > confirmations() ? latest - confirmations() : 0n;
+}
+
+async function readCheckpoints(chainId: number): Promise<Checkpoint[]> {
+  const v = await getJson<Checkpoint[]>(KEYS.checkpoints(chainId));
+  return Array.isArray(v) ? v.filter((c) => c && typeof c.n === "string" && typeof c.hash === "string") : [];
+}
+
+async function writeCheckpoints(chainId: number, list: Checkpoint[]) {
+  const sorted = [...list].sort((a, b) => (BigInt(b.n) > BigInt(a.n) ? 1 : BigInt(b.n) < BigInt(a.n) ? -1 : 0));
+  await setJson(KEYS.checkpoints(chainId), sorted.slice(0, MAX_CHECKPOINTS));
+}
+
 /**
- * Scans the blockchain for ScoreSubmitted events and ingests them
- * into the weekly leaderboard. Tracks the last processed block
- * in Redis to avoid re-processing.
+ * Walks back through the stored block hashes to the newest one the chain still
+ * agrees with, undoes every log above it and rewinds the cursor there.
  */
-export async function syncLeaderboardFromChain(
-  redis: Redis,
-  opts?: { maxBlocks?: bigint }
-): Promise<SyncResult> {
-  const contract = process.env.NEXT_PUBLIC_SCOREBOARD_ADDRESS;
+async function handleReorg(chainId: number, checkpoints: Checkpoint[]) {
+  let ancestor: bigint | null = null;
+  for (const c of checkpoints) {
+    const block = await publicClientFor(chainId).getBlock({ blockNumber: BigInt(c.n) });
+    if (block.hash === c.hash) {
+      ancestor = BigInt(c.n);
+      break;
+    }
+  }
+  // Deeper than our window: rewind to just before the oldest block we know about.
+  if (ancestor === null) {
+    const oldest = checkpoints.length ? BigInt(checkpoints[checkpoints.length - 1].n) : 0n;
+    ancestor = oldest > 0n ? oldest - 1n : 0n;
+  }
+
+  const logsRolledBack = await rollbackLogsAbove(chainId, Number(ancestor));
+  await writeCheckpoints(chainId, checkpoints.filter((c) => BigInt(c.n) <= ancestor!));
+  await getStorage().set(KEYS.lastBlock(chainId), String(ancestor));
+  console.warn(`[sync] chain ${chainId} reorg: rewound to block ${ancestor}, rolled back ${logsRolledBack} log(s)`);
+  return { rolledBackTo: String(ancestor), logsRolledBack };
+}
+
+/**
+ * Scans one chain for ScoreSubmitted events and ingests them into that
+ * chain's weekly and all-time leaderboards. Tracks the last processed block
+ * in storage to avoid re-processing.
+ * - Only blocks with SYNC_CONFIRMATIONS on top are processed.
+ * - Before moving on, checks the next block builds on the last processed one
+ *   (parent hash); on a mismatch, rolls back to the common ancestor.
+ * - Logs are ingested idempotently (txHash:logIndex), so a chunk that failed
+ *   half-way is simply processed again.
+ */
+export async function syncLeaderboardFromChain(chainId: number, opts?: { maxBlocks?: bigint }): Promise<SyncResult> {
+  const contract = scoreboardAddressFor(chainId);
   if (!contract) {
     return {
+      chainId,
       ok: false,
-      error: "Missing NEXT_PUBLIC_SCOREBOARD_ADDRESS",
+      error: `No scoreboard address configured for chain ${chainId}`,
       contract: "",
       fromBlock: "0",
       toBlock: "0",
@@ -46,21 +124,66 @@ export async function syncLeaderboardFromChain(
     };
   }
 
-  const latest = await publicClient.getBlockNumber();
+  const res = await withLease(KEYS.lock(chainId), SYNC_LOCK_TTL_MS, () => runSync(chainId, contract, opts));
+  if (res.acquired) return res.value;
+  return { chainId, ok: true, skipped: true, contract, fromBlock: "0", toBlock: "0", logsProcessed: 0, usersTouched: 0 };
+}
 
-  const last = await redis.get<number | string>(KEYS.lastBlock);
+/** Syncs every supported chain in turn; one failing chain doesn't stop the others. */
+export async function syncAllChains(opts?: { maxBlocks?: bigint }): Promise<SyncResult[]> {
+  const results: SyncResult[] = [];
+  for (const c of supportedChains()) {
+    try {
+      results.push(await syncLeaderboardFromChain(c.id, opts));
+    } catch (err) {
+      console.error(`[sync] chain ${c.id} failed:`, err);
+      results.push({
+        chainId: c.id,
+        ok: false,
+        error: err instanceof Error ? err.message : String(err),
+        contract: c.scoreboardAddress ?? "",
+        fromBlock: "0",
+        toBlock: "0",
+        logsProcessed: 0,
+        usersTouched: 0,
+      });
+    }
+  }
+  return results;
+}
+
+async function runSync(chainId: number, contract: `0x${string}`, opts?: { maxBlocks?: bigint }): Promise<SyncResult> {
+  const storage = getStorage();
+  const client = publicClientFor(chainId);
+  const confirmed = await confirmedBlockNumber(chainId);
+
+  const last = await storage.get<number | string>(KEYS.lastBlock(chainId));
 
   let fromBlock: bigint;
 
   if (last === null || last === undefined) {
     // First run: only scan the last 1200 blocks to avoid RPC rate limits.
     const MAX_LOOKBACK = 1200n;
-    fromBlock = latest > MAX_LOOKBACK ? latest - MAX_LOOKBACK : 0n;
+    fromBlock = confirmed > MAX_LOOKBACK ? confirmed - MAX_LOOKBACK : 0n;
   } else {
     fromBlock = BigInt(last) + 1n;
   }
 
-  let toBlock = latest;
+  // Reorg check: the next block must build on the last one we processed.
+  let reorg: SyncResult["reorg"];
+  if (last !== null && last !== undefined && fromBlock <= confirmed) {
+    const checkpoints = await readCheckpoints(chainId);
+    const tip = checkpoints.find((c) => c.n === String(last));
+    if (tip) {
+      const next = await client.getBlock({ blockNumber: fromBlock });
+      if (next.parentHash !== tip.hash) {
+        reorg = await handleReorg(chainId, checkpoints);
+        fromBlock = BigInt(reorg.rolledBackTo) + 1n;
+      }
+    }
+  }
+
+  let toBlock = confirmed;
 
   if (opts?.maxBlocks && opts.maxBlocks > 0n) {
     const maxTo = fromBlock + opts.maxBlocks - 1n;
@@ -69,12 +192,14 @@ export async function syncLeaderboardFromChain(
 
   if (fromBlock > toBlock) {
     return {
+      chainId,
       ok: true,
       contract,
       fromBlock: String(fromBlock),
       toBlock: String(toBlock),
       logsProcessed: 0,
       usersTouched: 0,
+      reorg,
     };
   }
 
@@ -84,68 +209,75 @@ export async function syncLeaderboardFromChain(
   for (let start = fromBlock; start <= toBlock; start += CHUNK) {
     const end = start + CHUNK - 1n > toBlock ? toBlock : start + CHUNK - 1n;
 
-    const logs = await publicClient.getLogs({
-      address: contract as `0x${string}`,
+    const logs = await client.getLogs({
+      address: contract,
       event: scoreSubmittedEvent,
       fromBlock: start,
       toBlock: end,
     });
 
-    if (logs.length) {
-      for (const log of logs as any[]) {
-        const player = String(log.args.player).toLowerCase() as `0x${string}`;
-        const score = Number(log.args.score);
-        const tsSec = Number(log.args.timestamp);
-        const tsMs = tsSec * 1000;
-
-        // Get the tx hash from the log
-        const txHash = (log.transactionHash || "0x") as `0x${string}`;
-
-        // Upsert into the correct week based on the onchain timestamp
-        await upsertWeeklyBest({
-          tsMs,
-          address: player,
-          score,
-          txHash,
-        });
-
-        touched.add(player);
-      }
-      logsProcessed += logs.length;
+    const ordered = [...(logs as any[])].sort(
+      (a, b) => Number(a.blockNumber - b.blockNumber) || Number(a.logIndex) - Number(b.logIndex)
+    );
+    const seen = new Set<string>();
+
+    for (const log of ordered) {
+      const scoreLog = toScoreLog(chainId, log);
+      // Anti-cheat runs inside; rejected scores are quarantined instead of ingested.
+      const res = await ingestScoreLog(scoreLog, "sync");
+      seen.add(res.id);
+      if (res.outcome === "ingested") touched.add(scoreLog.player);
     }
+    logsProcessed += logs.length;
 
-    await redis.set(KEYS.lastBlock, String(end));
+    // Logs ingested early by the POST route that this range no longer has were reorged out.
+    await rollbackMissingLogs(chainId, Number(start), Number(end), seen);
+
+    const endBlock = await client.getBlock({ blockNumber: end });
+    await writeCheckpoints(chainId, [{ n: String(end), hash: endBlock.hash }, ...(await readCheckpoints(chainId))]);
+    await storage.set(KEYS.lastBlock(chainId), String(end));
   }
 
+  await trimRecentLogs(chainId, Number(toBlock - REORG_WINDOW_BLOCKS));
+
   return {
+    chainId,
     ok: true,
     contract,
     fromBlock: String(fromBlock),
     toBlock: String(toBlock),
     logsProcessed,
     usersTouched: touched.size,
+    reorg,
   };
 }
 
+/** Last block the sync has processed, or null before its first run. */
+export async function readSyncCursor(chainId: number): Promise<bigint | null> {
+  const last = await getStorage().get<number | string>(KEYS.lastBlock(chainId));
+  return last === null || last === undefined ? null : BigInt(last);
+}
+
+/**
+ * Starts the sync at `block` + 1 unless it already has a cursor (used by the
+ * backfill, which covers everything up to `block`). Returns the cursor in effect.
+ */
+export async function initSyncCursor(chainId: number, block: bigint): Promise<bigint> {
+  if (await getStorage().setnx(KEYS.lastBlock(chainId), String(block))) return block;
+  return (await readSyncCursor(chainId)) ?? block;
+}
+
 /**
  * Run auto-sync if 3 minutes have passed since the last run.
  * Designed to be called from the GET handler (piggyback on user traffic).
  */
-export async function autoSyncIfDue(): Promise<SyncResult | null> {
-  const redis = getRedis();
-  if (!redis) return null;
-
-  const now = Date.now();
-  const lastSync = Number((await redis.get<number | string>(KEYS.lastAutoSyncAt)) ?? 0);
-
-  if (lastSync && now - lastSync < 3 * 60_000) {
-    return null; // Not due yet
-  }
-
-  await redis.set(KEYS.lastAutoSyncAt, String(now));
+export async function autoSyncIfDue(): Promise<SyncResult[] | null> {
+  // The key expires when the next run is due; only the request that re-creates it syncs.
+  const due = await getStorage().setnx(KEYS.lastAutoSyncAt, String(Date.now()), { ttlMs: AUTO_SYNC_EVERY_MS });
+  if (!due) return null; // Not due yet
 
   try {
-    return await syncLeaderboardFromChain(redis, { maxBlocks: 1200n });
+    return await syncAllChains({ maxBlocks: 1200n });
   } catch (err) {
     console.error("[autoSync] Error scanning blockchain:", err);
     return null; // Non-fatal
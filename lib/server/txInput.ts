@@ -0,0 +1,16 @@
+import "server-only";
+
+import { publicClientFor } from "./chainClient";
+
+/**
+ * Input of a transaction, for the tags the app puts in submitScore calldata
+ * (difficulty, ERC-8021 builder codes). Null when the tx can't be fetched.
+ */
+export async function readTxInput(chainId: number, txHash: `0x${string}`): Promise<`0x${string}` | null> {
+  try {
+    const tx = await publicClientFor(chainId).getTransaction({ hash: txHash });
+    return tx.input;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,161 @@
+// Zero-copy read path for the engine state. GameEngine.write_frame() fills flat
+// f32 buffers inside WASM memory (layout documented next to FRAME_LAYOUT_VERSION
+// in wasm-engine/src/lib.rs); this module keeps Float32Array views over them,
+// so a frame costs no serde conversion and no per-entity JS objects.
+//
+// Engines built before write_frame() existed don't have it: createStateReader
+// returns null and callers stay on get_state().
+
+import { GAME_STATE_ENUMS } from "./gameState.generated";
+import type { EnemyType, Phase, PowerupType } from "./gameState";
+import type { GameEngineInstance } from "./wasmLoader";
+
+export const FRAME_LAYOUT_VERSION = 1;
+
+export const HEADER = {
+  version: 0,
+  phase: 1,
+  score: 2,
+  px: 3,
+  py: 4,
+  tx: 5,
+  w: 6,
+  h: 7,
+  dpr: 8,
+  shake: 9,
+  flame: 10,
+  drones: 11,
+  enemyCount: 12,
+  bulletCount: 13,
+  particleCount: 14,
+  powerupCount: 15,
+  length: 16,
+} as const;
+
+// Field offsets within one entity record, and the record size.
+export const ENEMY = { id: 0, t: 1, x: 2, y: 3, vx: 4, vy: 5, r: 6, hp: 7, max_hp: 8, stride: 9 } as const;
+export const BULLET = { id: 0, x: 1, y: 2, vx: 3, vy: 4, stride: 5 } as const;
+export const PARTICLE = { x: 0, y: 1, vx: 2, vy: 3, life: 4, max_life: 5, stride: 6 } as const;
+export const POWERUP = { id: 0, t: 1, x: 2, y: 3, vy: 4, stride: 5 } as const;
+
+// Enum codes are declaration indices, the same order the generated types keep.
+export const PHASES: readonly Phase[] = GAME_STATE_ENUMS.Phase;
+export const ENEMY_TYPES: readonly EnemyType[] = GAME_STATE_ENUMS.EnemyType;
+export const POWERUP_TYPES: readonly PowerupType[] = GAME_STATE_ENUMS.PowerupType;
+
+/**
+ * One frame as flat views. The scalar fields mirror GameState; entity `i` of a
+ * buffer starts at `i * STRIDE`. Views and this object are reused by the next
+ * read(), so don't keep them across frames.
+ */
+export type FlatGameState = {
+  phase: Phase;
+  score: number;
+  px: number;
+  py: number;
+  tx: number;
+  w: number;
+  h: number;
+  dpr: number;
+  shake: number;
+  flame: boolean;
+  drones: boolean;
+  enemies: Float32Array;
+  enemyCount: number;
+  bullets: Float32Array;
+  bulletCount: number;
+  particles: Float32Array;
+  particleCount: number;
+  powerups: Float32Array;
+  powerupCount: number;
+};
+
+export type StateReader = {
+  // Runs write_frame() and returns the refreshed views.
+  read(): FlatGameState;
+};
+
+type FlatEngine = Required<
+  Pick<
+    GameEngineInstance,
+    | "write_frame"
+    | "frame_header_ptr"
+    | "frame_enemies_ptr"
+    | "frame_enemies_capacity"
+    | "frame_bullets_ptr"
+    | "frame_bullets_capacity"
+    | "frame_particles_ptr"
+    | "frame_particles_capacity"
+    | "frame_powerups_ptr"
+    | "frame_powerups_capacity"
+  >
+>;
+
+export function isFlatFrame(state: object): state is FlatGameState {
+  return (state as FlatGameState).enemies instanceof Float32Array;
+}
+
+/** Null when the engine or its memory doesn't support flat frames (or the layout differs). */
+export function createStateReader(
+  engine: GameEngineInstance,
+  memory: WebAssembly.Memory | undefined
+): StateReader | null {
+  if (!memory || typeof engine.write_frame !== "function") return null;
+  const e = engine as GameEngineInstance & FlatEngine;
+
+  // A view is rebuilt only when its buffer moved: memory grew (the old
+  // ArrayBuffer is detached) or the Vec reallocated.
+  const view = (prev: Float32Array | null, ptr: number, len: number) =>
+    prev && prev.buffer === memory.buffer && prev.byteOffset === ptr && prev.length === len
+      ? prev
+      : new Float32Array(memory.buffer, ptr, len);
+
+  let header: Float32Array | null = null;
+  let enemies: Float32Array | null = null;
+  let bullets: Float32Array | null = null;
+  let particles: Float32Array | null = null;
+  let powerups: Float32Array | null = null;
+
+  const refresh = () => {
+    e.write_frame();
+    header = view(header, e.frame_header_ptr(), HEADER.length);
+    enemies = view(enemies, e.frame_enemies_ptr(), e.frame_enemies_capacity());
+    bullets = view(bullets, e.frame_bullets_ptr(), e.frame_bullets_capacity());
+    particles = view(particles, e.frame_particles_ptr(), e.frame_particles_capacity());
+    powerups = view(powerups, e.frame_powerups_ptr(), e.frame_powerups_capacity());
+    return header;
+  };
+
+  const version = refresh()[HEADER.version];
+  if (version !== FRAME_LAYOUT_VERSION) {
+    console.warn(`[stateBuffers] engine frame layout v${version}, expected v${FRAME_LAYOUT_VERSION}; using get_state()`);
+    return null;
+  }
+
+  const flat = {} as FlatGameState;
+  return {
+    read() {
+      const h = refresh();
+      flat.phase = PHASES[h[HEADER.phase]];
+      flat.score = h[HEADER.score];
+      flat.px = h[HEADER.px];
+      flat.py = h[HEADER.py];
+      flat.tx = h[HEADER.tx];
+      flat.w = h[HEADER.w];
+      flat.h = h[HEADER.h];
+      flat.dpr = h[HEADER.dpr];
+      flat.shake = h[HEADER.shake];
+      flat.flame = h[HEADER.flame] !== 0;
+      flat.drones = h[HEADER.drones] !== 0;
+      flat.enemies = enemies!;
+      flat.enemyCount = h[HEADER.enemyCount];
+      flat.bullets = bullets!;
+      flat.bulletCount = h[HEADER.bulletCount];
+      flat.particles = particles!;
+      flat.particleCount = h[HEADER.particleCount];
+      flat.powerups = powerups!;
+      flat.powerupCount = h[HEADER.powerupCount];
+      return flat;
+    },
+  };
+}
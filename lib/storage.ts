@@ -1,13 +1,72 @@
 import "server-only";
 
+import { randomUUID } from "crypto";
+
+// Single storage layer for everything server-side (leaderboard, sync cursor,
+// rollover, anti-cheat). One `StorageBackend` shape, three implementations:
+// Upstash (personal), Vercel KV, and an in-memory fallback for local dev.
+// Tests (or scripts) can swap the backend with `setStorageBackend`.
+
 type Mode = "upstash" | "vercel_kv" | "memory";
 
-declare global {
-  // eslint-disable-next-line no-var
-  var __dwStorageMem: Map<string, string> | undefined;
-}
+export type StorageSetOptions = {
+  ttlMs?: number;
+};
 
-const mem = globalThis.__dwStorageMem || (globalThis.__dwStorageMem = new Map());
+export type ZMember = { member: string; score: number };
+
+export type StorageBackend = {
+  readonly mode: Mode;
+  get<T>(key: string): Promise<T | null>;
+  set(key: string, value: unknown, opts?: StorageSetOptions): Promise<void>;
+  del(key: string): Promise<void>;
+  /** Deletes only while the key still holds `value` (compare-and-delete). */
+  delIfEquals(key: string, value: string): Promise<boolean>;
+  /** (Re)sets a key's TTL. No-op for missing keys. */
+  expire(key: string, ttlMs: number): Promise<void>;
+  /** Increments an integer counter by `by` (default 1). `ttlMs` applies when the counter is created. */
+  incr(key: string, opts?: StorageSetOptions & { by?: number }): Promise<number>;
+  /** Decrements an integer counter (e.g. to hand back a reserved slot). Keeps its TTL. */
+  decr(key: string, opts?: { by?: number }): Promise<number>;
+  /** Sets only if the key is absent. Returns true when this call wrote it. */
+  setnx(key: string, value: unknown, opts?: StorageSetOptions): Promise<boolean>;
+  /**
+   * Adds/updates a sorted-set member. With `gt`, only raises an existing score
+   * (ZADD GT). Returns true when the member was added or its score changed.
+   */
+  zadd(key: string, score: number, member: string, opts?: { gt?: boolean }): Promise<boolean>;
+  /**
+   * zadd plus the member's field in a metadata hash, as one atomic step, so a
+   * ranking and its metadata never disagree. With `gt` the field is written
+   * only when the score changed; without it, always. Returns what zadd would.
+   */
+  zaddWithMeta(
+    key: string,
+    score: number,
+    member: string,
+    metaKey: string,
+    meta: unknown,
+    opts?: { gt?: boolean }
+  ): Promise<boolean>;
+  /** Adds `by` to a member's score (created at 0). Returns the new score. */
+  zincrby(key: string, by: number, member: string): Promise<number>;
+  /** Inclusive rank range (Redis semantics, negative indexes allowed). */
+  zrange(key: string, start: number, stop: number, opts?: { rev?: boolean }): Promise<ZMember[]>;
+  /** 0-based rank from the highest score, or null if absent (ZREVRANK). */
+  zrevrank(key: string, member: string): Promise<number | null>;
+  zcard(key: string): Promise<number>;
+  zscore(key: string, member: string): Promise<number | null>;
+  zrem(key: string, member: string): Promise<void>;
+  /** Members with min <= score <= max, lowest score first (ZRANGE BYSCORE). */
+  zrangeByScore(key: string, min: number, max: number): Promise<ZMember[]>;
+  zremRangeByScore(key: string, min: number, max: number): Promise<void>;
+  hset(key: string, fields: Record<string, unknown>): Promise<void>;
+  hmget<T>(key: string, fields: string[]): Promise<Array<T | null>>;
+  hgetall<T>(key: string): Promise<Record<string, T>>;
+  hdel(key: string, field: string): Promise<void>;
+  /** Adds `by` to an integer hash field (created at 0). Returns the new value. */
+  hincrby(key: string, field: string, by: number): Promise<number>;
+};
 
 function hasUpstashEnv() {
   return Boolean((process.env.UPSTASH_REDIS_REST_URL || "").trim() && (process.env.UPSTASH_REDIS_REST_TOKEN || "").trim());
@@ -18,25 +77,12 @@ function hasVercelKvEnv() {
 }
 
 export function storageMode(): Mode {
+  if (override) return override.mode;
   if (hasUpstashEnv()) return "upstash";
   if (hasVercelKvEnv()) return "vercel_kv";
   return "memory";
 }
 
-let upstashClient: any | null = null;
-async function getUpstashClient() {
-  if (upstashClient) return upstashClient;
-  const { Redis } = await import("@upstash/redis");
-  const url = (process.env.UPSTASH_REDIS_REST_URL || "").trim();
-  const token = (process.env.UPSTASH_REDIS_REST_TOKEN || "").trim();
-  if (!url || !token) throw new Error("Missing UPSTASH_REDIS_REST_URL/UPSTASH_REDIS_REST_TOKEN");
-  if (!/^https:\/\//i.test(url)) {
-    throw new Error("UPSTASH_REDIS_REST_URL must start with https:// (REST URL, not rediss://)");
-  }
-  upstashClient = new Redis({ url, token });
-  return upstashClient;
-}
-
 export function storageDebugInfo() {
   const mode = storageMode();
   const url = (process.env.UPSTASH_REDIS_REST_URL || "").trim();
@@ -54,14 +100,6 @@ export function storageDebugInfo() {
   };
 }
 
-let vercelKvClient: any | null = null;
-async function getVercelKvClient() {
-  if (vercelKvClient) return vercelKvClient;
-  const mod: any = await import("@vercel/kv");
-  vercelKvClient = mod.kv;
-  return vercelKvClient;
-}
-
 function safeJsonParse(s: string | null) {
   if (!s) return null;
   try {
@@ -71,72 +109,459 @@ function safeJsonParse(s: string | null) {
   }
 }
 
-export async function getJson<T>(key: string): Promise<T | null> {
-  const mode = storageMode();
+// ---------------------------------------------------------------------------
+// Redis-compatible backends (Upstash + Vercel KV share the @upstash/redis API)
 
-  if (mode === "upstash") {
-    const redis = await getUpstashClient();
-    // NOTE: @upstash/redis does **automatic deserialization** by default.
-    // That means if we stored JSON (object/array/number/bool), redis.get(key)
-    // can return a non-string value (e.g. an object), even if we originally
-    // stored a JSON string.
-    const raw = (await redis.get(key)) as any;
-    if (raw === null || raw === undefined) return null;
-    if (typeof raw === "string") {
-      const parsed = safeJsonParse(raw);
-      return (parsed ?? (raw as any)) as T | null;
-    }
-    // object | number | boolean
-    return raw as T;
+let upstashClient: any | null = null;
+async function getUpstashClient() {
+  if (upstashClient) return upstashClient;
+  const { Redis } = await import("@upstash/redis");
+  const url = (process.env.UPSTASH_REDIS_REST_URL || "").trim();
+  const token = (process.env.UPSTASH_REDIS_REST_TOKEN || "").trim();
+  if (!url || !token) throw new Error("Missing UPSTASH_REDIS_REST_URL/UPSTASH_REDIS_REST_TOKEN");
+  if (!/^https:\/\//i.test(url)) {
+    throw new Error("UPSTASH_REDIS_REST_URL must start with https:// (REST URL, not rediss://)");
   }
+  upstashClient = new Redis({ url, token });
+  return upstashClient;
+}
+
+let vercelKvClient: any | null = null;
+async function getVercelKvClient() {
+  if (vercelKvClient) return vercelKvClient;
+  const mod: any = await import("@vercel/kv");
+  vercelKvClient = mod.kv;
+  return vercelKvClient;
+}
+
+const DEL_IF_EQUALS_SCRIPT = `if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) else return 0 end`;
+
+// KEYS: rank zset, meta hash. ARGV: score, member, meta (JSON), "1" for GT.
+const ZADD_WITH_META_SCRIPT = `local n
+if ARGV[4] == "1" then
+  n = redis.call("zadd", KEYS[1], "GT", "CH", ARGV[1], ARGV[2])
+else
+  n = redis.call("zadd", KEYS[1], "CH", ARGV[1], ARGV[2])
+end
+if n > 0 or ARGV[4] ~= "1" then redis.call("hset", KEYS[2], ARGV[2], ARGV[3]) end
+return n`;
+
+function createRedisBackend(mode: Mode, getClient: () => Promise<any>): StorageBackend {
+  return {
+    mode,
+
+    async get<T>(key: string) {
+      const redis = await getClient();
+      // NOTE: @upstash/redis does **automatic deserialization** by default.
+      // That means if we stored JSON (object/array/number/bool), redis.get(key)
+      // can return a non-string value (e.g. an object), even if we originally
+      // stored a JSON string.
+      const raw = (await redis.get(key)) as any;
+      if (raw === null || raw === undefined) return null;
+      if (typeof raw === "string") {
+        const parsed = safeJsonParse(raw);
+        return (parsed ?? (raw as any)) as T | null;
+      }
+      // object | number | boolean
+      return raw as T;
+    },
+
+    async set(key, value, opts) {
+      const redis = await getClient();
+      // Store as native value; the client serializes for us.
+      if (opts?.ttlMs) await redis.set(key, value, { px: opts.ttlMs });
+      else await redis.set(key, value);
+    },
+
+    async del(key) {
+      const redis = await getClient();
+      await redis.del(key);
+    },
+
+    async delIfEquals(key, value) {
+      const redis = await getClient();
+      const n = await redis.eval(DEL_IF_EQUALS_SCRIPT, [key], [value]);
+      return Number(n) > 0;
+    },
+
+    async expire(key, ttlMs) {
+      const redis = await getClient();
+      await redis.pexpire(key, ttlMs);
+    },
+
+    async incr(key, opts) {
+      const redis = await getClient();
+      const by = opts?.by ?? 1;
+      const n = Number(await redis.incrby(key, by));
+      if (n === by && opts?.ttlMs) await redis.pexpire(key, opts.ttlMs);
+      return n;
+    },
+
+    async decr(key, opts) {
+      const redis = await getClient();
+      return Number(await redis.decrby(key, opts?.by ?? 1));
+    },
+
+    async setnx(key, value, opts) {
+      const redis = await getClient();
+      const res = await redis.set(key, value, opts?.ttlMs ? { nx: true, px: opts.ttlMs } : { nx: true });
+      return res === "OK";
+    },
+
+    async zadd(key, score, member, opts) {
+      const redis = await getClient();
+      const changed = await redis.zadd(key, opts?.gt ? { gt: true, ch: true } : { ch: true }, { score, member });
+      return Number(changed) > 0;
+    },
+
+    async zaddWithMeta(key, score, member, metaKey, meta, opts) {
+      const redis = await getClient();
+      const args = [String(score), member, JSON.stringify(meta), opts?.gt ? "1" : "0"];
+      const changed = await redis.eval(ZADD_WITH_META_SCRIPT, [key, metaKey], args);
+      return Number(changed) > 0;
+    },
+
+    async zincrby(key, by, member) {
+      const redis = await getClient();
+      return Number(await redis.zincrby(key, by, member));
+    },
 
-  if (mode === "vercel_kv") {
-    const kv = await getVercelKvClient();
-    const v = await kv.get(key);
-    if (typeof v === "string") {
-      const parsed = safeJsonParse(v);
-      return (parsed ?? (v as any)) as T | null;
+    async zrange(key, start, stop, opts) {
+      const redis = await getClient();
+      const flat = (await redis.zrange(key, start, stop, { rev: Boolean(opts?.rev), withScores: true })) as unknown[];
+      const out: ZMember[] = [];
+      for (let i = 0; i + 1 < flat.length; i += 2) {
+        out.push({ member: String(flat[i]), score: Number(flat[i + 1]) });
+      }
+      return out;
+    },
+
+    async zrevrank(key, member) {
+      const redis = await getClient();
+      const r = await redis.zrevrank(key, member);
+      return typeof r === "number" ? r : null;
+    },
+
+    async zcard(key) {
+      const redis = await getClient();
+      return Number(await redis.zcard(key)) || 0;
+    },
+
+    async zscore(key, member) {
+      const redis = await getClient();
+      const v = await redis.zscore(key, member);
+      return v === null || v === undefined ? null : Number(v);
+    },
+
+    async zrem(key, member) {
+      const redis = await getClient();
+      await redis.zrem(key, member);
+    },
+
+    async zrangeByScore(key, min, max) {
+      const redis = await getClient();
+      const flat = (await redis.zrange(key, min, max, { byScore: true, withScores: true })) as unknown[];
+      const out: ZMember[] = [];
+      for (let i = 0; i + 1 < flat.length; i += 2) {
+        out.push({ member: String(flat[i]), score: Number(flat[i + 1]) });
+      }
+      return out;
+    },
+
+    async zremRangeByScore(key, min, max) {
+      const redis = await getClient();
+      await redis.zremrangebyscore(key, min, max);
+    },
+
+    async hset(key, fields) {
+      const redis = await getClient();
+      await redis.hset(key, fields);
+    },
+
+    async hmget<T>(key: string, fields: string[]) {
+      if (!fields.length) return [];
+      const redis = await getClient();
+      // Returns { field: value } (auto-deserialized), or null when the hash is missing.
+      const res = ((await redis.hmget(key, ...fields)) ?? {}) as Record<string, unknown>;
+      return fields.map((f) => {
+        const v = res[f];
+        if (v === null || v === undefined) return null;
+        return (typeof v === "string" ? safeJsonParse(v) ?? v : v) as T;
+      });
+    },
+
+    async hgetall<T>(key: string) {
+      const redis = await getClient();
+      const res = ((await redis.hgetall(key)) ?? {}) as Record<string, unknown>;
+      const out: Record<string, T> = {};
+      for (const [f, v] of Object.entries(res)) {
+        out[f] = (typeof v === "string" ? safeJsonParse(v) ?? v : v) as T;
+      }
+      return out;
+    },
+
+    async hdel(key, field) {
+      const redis = await getClient();
+      await redis.hdel(key, field);
+    },
+
+    async hincrby(key, field, by) {
+      const redis = await getClient();
+      return Number(await redis.hincrby(key, field, by));
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// In-memory backend (local dev without env). Survives Next.js hot reloads.
+
+type MemEntry = { value?: string; zset?: Map<string, number>; hash?: Map<string, string>; expiresAt?: number };
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __dwStorageMem: Map<string, MemEntry> | undefined;
+}
+
+export function createMemoryBackend(store: Map<string, MemEntry> = new Map()): StorageBackend {
+  const live = (key: string) => {
+    const e = store.get(key);
+    if (e?.expiresAt && e.expiresAt <= Date.now()) {
+      store.delete(key);
+      return undefined;
     }
-    return (v ?? null) as T | null;
-  }
+    return e;
+  };
+  const expiry = (opts?: StorageSetOptions) => (opts?.ttlMs ? Date.now() + opts.ttlMs : undefined);
+
+  const sorted = (zset: Map<string, number>) =>
+    Array.from(zset, ([member, score]) => ({ member, score })).sort(
+      (a, b) => a.score - b.score || (a.member < b.member ? -1 : a.member > b.member ? 1 : 0)
+    );
+
+  return {
+    mode: "memory",
+
+    async get<T>(key: string) {
+      const e = live(key);
+      return (e?.value !== undefined ? safeJsonParse(e.value) : null) as T | null;
+    },
+
+    async set(key, value, opts) {
+      store.set(key, { value: JSON.stringify(value), expiresAt: expiry(opts) });
+    },
+
+    async del(key) {
+      store.delete(key);
+    },
+
+    async delIfEquals(key, value) {
+      const e = live(key);
+      if (e?.value === undefined || safeJsonParse(e.value) !== value) return false;
+      store.delete(key);
+      return true;
+    },
+
+    async expire(key, ttlMs) {
+      const e = live(key);
+      if (e) e.expiresAt = Date.now() + ttlMs;
+    },
+
+    async incr(key, opts) {
+      const e = live(key);
+      const n = (Number(e?.value !== undefined ? safeJsonParse(e.value) : 0) || 0) + (opts?.by ?? 1);
+      store.set(key, { value: JSON.stringify(n), expiresAt: e ? e.expiresAt : expiry(opts) });
+      return n;
+    },
+
+    async decr(key, opts) {
+      const e = live(key);
+      const n = (Number(e?.value !== undefined ? safeJsonParse(e.value) : 0) || 0) - (opts?.by ?? 1);
+      store.set(key, { value: JSON.stringify(n), expiresAt: e?.expiresAt });
+      return n;
+    },
+
+    async setnx(key, value, opts) {
+      if (live(key)) return false;
+      store.set(key, { value: JSON.stringify(value), expiresAt: expiry(opts) });
+      return true;
+    },
 
-  const raw = mem.get(key) ?? null;
-  return (safeJsonParse(raw) ?? null) as T | null;
+    async zadd(key, score, member, opts) {
+      const e = live(key);
+      const zset = e?.zset ?? new Map<string, number>();
+      const prev = zset.get(member);
+      if (prev !== undefined && (prev === score || (opts?.gt && prev > score))) return false;
+      zset.set(member, score);
+      store.set(key, { zset, expiresAt: e?.expiresAt });
+      return true;
+    },
+
+    async zaddWithMeta(key, score, member, metaKey, meta, opts) {
+      // No await between the two writes, so nothing can interleave.
+      const e = live(key);
+      const zset = e?.zset ?? new Map<string, number>();
+      const prev = zset.get(member);
+      const changed = !(prev !== undefined && (prev === score || (opts?.gt && prev > score)));
+      if (changed) {
+        zset.set(member, score);
+        store.set(key, { zset, expiresAt: e?.expiresAt });
+      }
+      if (changed || !opts?.gt) {
+        const m = live(metaKey);
+        const hash = m?.hash ?? new Map<string, string>();
+        hash.set(member, JSON.stringify(meta));
+        store.set(metaKey, { hash, expiresAt: m?.expiresAt });
+      }
+      return changed;
+    },
+
+    async zincrby(key, by, member) {
+      const e = live(key);
+      const zset = e?.zset ?? new Map<string, number>();
+      const n = (zset.get(member) ?? 0) + by;
+      zset.set(member, n);
+      store.set(key, { zset, expiresAt: e?.expiresAt });
+      return n;
+    },
+
+    async zrange(key, start, stop, opts) {
+      const zset = live(key)?.zset;
+      if (!zset) return [];
+      const arr = sorted(zset);
+      if (opts?.rev) arr.reverse();
+      const n = arr.length;
+      const from = start < 0 ? Math.max(0, n + start) : start;
+      const to = stop < 0 ? n + stop : Math.min(stop, n - 1);
+      return from > to ? [] : arr.slice(from, to + 1);
+    },
+
+    async zrevrank(key, member) {
+      const zset = live(key)?.zset;
+      if (!zset || !zset.has(member)) return null;
+      return sorted(zset)
+        .reverse()
+        .findIndex((m) => m.member === member);
+    },
+
+    async zcard(key) {
+      return live(key)?.zset?.size ?? 0;
+    },
+
+    async zscore(key, member) {
+      return live(key)?.zset?.get(member) ?? null;
+    },
+
+    async zrem(key, member) {
+      live(key)?.zset?.delete(member);
+    },
+
+    async zrangeByScore(key, min, max) {
+      const zset = live(key)?.zset;
+      return zset ? sorted(zset).filter((m) => m.score >= min && m.score <= max) : [];
+    },
+
+    async zremRangeByScore(key, min, max) {
+      const zset = live(key)?.zset;
+      if (!zset) return;
+      for (const [member, score] of zset) if (score >= min && score <= max) zset.delete(member);
+    },
+
+    async hset(key, fields) {
+      const e = live(key);
+      const hash = e?.hash ?? new Map<string, string>();
+      for (const [f, v] of Object.entries(fields)) hash.set(f, JSON.stringify(v));
+      store.set(key, { hash, expiresAt: e?.expiresAt });
+    },
+
+    async hmget<T>(key: string, fields: string[]) {
+      const hash = live(key)?.hash;
+      return fields.map((f) => {
+        const raw = hash?.get(f);
+        return (raw !== undefined ? safeJsonParse(raw) : null) as T | null;
+      });
+    },
+
+    async hgetall<T>(key: string) {
+      const out: Record<string, T> = {};
+      for (const [f, raw] of live(key)?.hash ?? []) out[f] = safeJsonParse(raw) as T;
+      return out;
+    },
+
+    async hdel(key, field) {
+      live(key)?.hash?.delete(field);
+    },
+
+    async hincrby(key, field, by) {
+      const e = live(key);
+      const hash = e?.hash ?? new Map<string, string>();
+      const n = (Number(safeJsonParse(hash.get(field) ?? null)) || 0) + by;
+      hash.set(field, JSON.stringify(n));
+      store.set(key, { hash, expiresAt: e?.expiresAt });
+      return n;
+    },
+  };
 }
 
-export async function setJson(key: string, value: any) {
-  const mode = storageMode();
+// ---------------------------------------------------------------------------
 
-  if (mode === "upstash") {
-    const redis = await getUpstashClient();
-    // Store as native value; the client serializes for us.
-    await redis.set(key, value);
-    return;
-  }
+let override: StorageBackend | null = null;
+const backends: Partial<Record<Mode, StorageBackend>> = {};
 
-  if (mode === "vercel_kv") {
-    const kv = await getVercelKvClient();
-    await kv.set(key, value);
-    return;
+/** Replaces the env-selected backend (tests, scripts). Pass null to restore. */
+export function setStorageBackend(backend: StorageBackend | null) {
+  override = backend;
+}
+
+export function getStorage(): StorageBackend {
+  if (override) return override;
+  const mode = storageMode();
+  if (!backends[mode]) {
+    backends[mode] =
+      mode === "upstash"
+        ? createRedisBackend("upstash", getUpstashClient)
+        : mode === "vercel_kv"
+          ? createRedisBackend("vercel_kv", getVercelKvClient)
+          : createMemoryBackend(globalThis.__dwStorageMem || (globalThis.__dwStorageMem = new Map()));
   }
+  return backends[mode]!;
+}
 
-  mem.set(key, JSON.stringify(value));
+/** True when data survives restarts (anything but the in-memory fallback). */
+export function isPersistentStorage() {
+  return storageMode() !== "memory";
 }
 
-export async function delKey(key: string) {
-  const mode = storageMode();
+// JSON helpers used across the server code.
 
-  if (mode === "upstash") {
-    const redis = await getUpstashClient();
-    await redis.del(key);
-    return;
-  }
+export async function getJson<T>(key: string): Promise<T | null> {
+  return getStorage().get<T>(key);
+}
 
-  if (mode === "vercel_kv") {
-    const kv = await getVercelKvClient();
-    await kv.del(key);
-    return;
-  }
+export async function setJson(key: string, value: any, opts?: StorageSetOptions) {
+  await getStorage().set(key, value, opts);
+}
+
+export async function delKey(key: string) {
+  await getStorage().del(key);
+}
 
-  mem.delete(key);
+/**
+ * Runs `fn` while holding a lease on `key`. The lease expires after `ttlMs`,
+ * so a crashed holder can't block others forever, and is released with a
+ * token check so a slow holder never frees someone else's lease.
+ * Returns `{ acquired: false }` without running `fn` when the lease is taken.
+ */
+export async function withLease<T>(
+  key: string,
+  ttlMs: number,
+  fn: () => Promise<T>
+): Promise<{ acquired: true; value: T } | { acquired: false }> {
+  const storage = getStorage();
+  const token = randomUUID();
+  if (!(await storage.setnx(key, token, { ttlMs }))) return { acquired: false };
+  try {
+    return { acquired: true, value: await fn() };
+  } finally {
+    await storage.delIfEquals(key, token);
+  }
 }
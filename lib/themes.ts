@@ -0,0 +1,165 @@
+// Visual themes for the canvas renderer. The game loop reads the active theme
+// every frame (through a ref), so switching applies mid-run. The same id is set
+// as `data-theme` on the app root for the CSS side (globals.css).
+
+import type { EnemyType, PowerupType } from "./gameState";
+
+export type ThemeId = "glass" | "neon" | "scifi";
+
+export const THEME_IDS: readonly ThemeId[] = ["glass", "neon", "scifi"];
+
+// Every engine enemy and power-up type needs colours (generated from wasm-engine).
+export type EnemyKind = EnemyType;
+export type PowerupKind = PowerupType;
+
+export type PlaneColors = { fill: string; stroke: string };
+
+// [hue, saturation %, lightness %]
+export type Hsl = readonly [number, number, number];
+
+export type Theme = {
+  id: ThemeId;
+  label: string;
+  description: string;
+  // Vertical gradient behind everything. The hue moves by `hueShift` degrees
+  // as the score climbs to 5000.
+  background: { top: Hsl; bottom: Hsl; hueShift: number };
+  stars: {
+    // "dots": square specks; "glow": soft round points; "streaks": fast vertical lines.
+    style: "dots" | "glow" | "streaks";
+    color: string;
+    count: number;
+    // Scroll speed, in canvas px per ms (before dpr).
+    speed: number;
+  };
+  // Outline width for planes, bullets, power-ups and particles.
+  lineWidth: number;
+  // shadowBlur for planes and bullets; 0 draws flat.
+  glow: number;
+  player: PlaneColors;
+  drones: PlaneColors;
+  cockpit: string;
+  flame: string;
+  trail: string;
+  enemies: Record<EnemyKind, PlaneColors>;
+  bossHp: { fill: string; track: string };
+  bullet: {
+    // "capsule": fat outlined ellipse; "laser": thin bright bar; "plasma": glowing orb.
+    style: "capsule" | "laser" | "plasma";
+    fill: string;
+    stroke: string;
+  };
+  powerups: Record<PowerupKind, string> & { label: string; stroke: string };
+  // Explosion sparks pick from these at random.
+  particles: readonly string[];
+};
+
+export const THEMES: Record<ThemeId, Theme> = {
+  glass: {
+    id: "glass",
+    label: "Doodle",
+    description: "Marker on paper",
+    background: { top: [54, 87, 73], bottom: [54, 87, 73], hueShift: -80 },
+    stars: { style: "dots", color: "#000", count: 30, speed: 0.03 },
+    lineWidth: 3,
+    glow: 0,
+    player: { fill: "#FFF", stroke: "#000" },
+    drones: { fill: "#9DFF3B", stroke: "#000" },
+    cockpit: "#FFF",
+    flame: "#FFE600",
+    trail: "rgba(0,0,0,0.4)",
+    enemies: {
+      Scout: { fill: "#3BEFFF", stroke: "#000" },
+      Zigzag: { fill: "#FF9B3B", stroke: "#000" },
+      Tank: { fill: "#9DFF3B", stroke: "#000" },
+      Boss: { fill: "#FF3B7C", stroke: "#000" },
+      Kamikaze: { fill: "#3BEFFF", stroke: "#000" },
+      Bomb: { fill: "#3BEFFF", stroke: "#000" },
+    },
+    bossHp: { fill: "#FF3B7C", track: "rgba(255,255,255,.10)" },
+    bullet: { style: "capsule", fill: "#FFF", stroke: "#000" },
+    powerups: { Overdrive: "#3BEFFF", Drones: "#9DFF3B", label: "#000", stroke: "#000" },
+    particles: ["#FF9B3B", "#FF3B7C"],
+  },
+  neon: {
+    id: "neon",
+    label: "Neon",
+    description: "Synthwave glow",
+    background: { top: [262, 70, 12], bottom: [318, 75, 22], hueShift: 40 },
+    stars: { style: "glow", color: "#F5D0FE", count: 40, speed: 0.05 },
+    lineWidth: 2,
+    glow: 14,
+    player: { fill: "#0B0B1A", stroke: "#22D3EE" },
+    drones: { fill: "#0B0B1A", stroke: "#A3E635" },
+    cockpit: "#F0ABFC",
+    flame: "#FB7185",
+    trail: "rgba(34,211,238,0.55)",
+    enemies: {
+      Scout: { fill: "#0B0B1A", stroke: "#38BDF8" },
+      Zigzag: { fill: "#0B0B1A", stroke: "#FACC15" },
+      Tank: { fill: "#0B0B1A", stroke: "#A3E635" },
+      Boss: { fill: "#1E0B2E", stroke: "#F472B6" },
+      Kamikaze: { fill: "#0B0B1A", stroke: "#FB7185" },
+      Bomb: { fill: "#0B0B1A", stroke: "#F97316" },
+    },
+    bossHp: { fill: "#F472B6", track: "rgba(244,114,182,.18)" },
+    bullet: { style: "laser", fill: "#E0F2FE", stroke: "#22D3EE" },
+    powerups: { Overdrive: "#22D3EE", Drones: "#A3E635", label: "#0B0B1A", stroke: "#F5D0FE" },
+    particles: ["#F472B6", "#22D3EE", "#FACC15"],
+  },
+  scifi: {
+    id: "scifi",
+    label: "Sci-fi",
+    description: "Deep space hull plating",
+    background: { top: [215, 45, 8], bottom: [205, 40, 20], hueShift: -25 },
+    stars: { style: "streaks", color: "rgba(186,230,253,0.7)", count: 45, speed: 0.12 },
+    lineWidth: 2,
+    glow: 6,
+    player: { fill: "#CBD5E1", stroke: "#0F172A" },
+    drones: { fill: "#94A3B8", stroke: "#0F172A" },
+    cockpit: "#38BDF8",
+    flame: "#60A5FA",
+    trail: "rgba(96,165,250,0.45)",
+    enemies: {
+      Scout: { fill: "#64748B", stroke: "#0F172A" },
+      Zigzag: { fill: "#B45309", stroke: "#0F172A" },
+      Tank: { fill: "#3F6212", stroke: "#0F172A" },
+      Boss: { fill: "#7F1D1D", stroke: "#FCA5A5" },
+      Kamikaze: { fill: "#9F1239", stroke: "#0F172A" },
+      Bomb: { fill: "#44403C", stroke: "#F59E0B" },
+    },
+    bossHp: { fill: "#EF4444", track: "rgba(148,163,184,.25)" },
+    bullet: { style: "plasma", fill: "#7DD3FC", stroke: "#0EA5E9" },
+    powerups: { Overdrive: "#38BDF8", Drones: "#84CC16", label: "#0F172A", stroke: "#E2E8F0" },
+    particles: ["#F59E0B", "#EF4444", "#FDE68A"],
+  },
+};
+
+const STORAGE_KEY = "dw:theme";
+
+export function isThemeId(v: unknown): v is ThemeId {
+  return typeof v === "string" && (THEME_IDS as readonly string[]).includes(v);
+}
+
+export function readStoredTheme(): ThemeId | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const v = window.localStorage.getItem(STORAGE_KEY);
+    return isThemeId(v) ? v : null;
+  } catch {
+    return null;
+  }
+}
+
+export function storeTheme(id: ThemeId) {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, id);
+  } catch {
+    // ignore
+  }
+}
+
+export function hsl([h, s, l]: Hsl, hueOffset = 0) {
+  return `hsl(${h + hueOffset}, ${s}%, ${l}%)`;
+}
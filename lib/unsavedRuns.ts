@@ -0,0 +1,58 @@
+import type { Difficulty } from "./difficulty";
+
+// Finished runs that haven't been saved onchain yet, so several can be saved
+// together in one batch ("Save all"). Kept in localStorage across reloads.
+
+export type UnsavedRun = {
+  id: string;
+  score: number;
+  difficulty: Difficulty;
+  // Encoded replay for server verification (null if recording failed or was dropped for space).
+  replay: string | null;
+  endedAt: number;
+};
+
+const STORAGE_KEY = "dw:unsavedRuns";
+// Newest runs win; a batch of this many calls stays well under wallet and bundler limits.
+export const MAX_UNSAVED_RUNS = 10;
+
+function read(): UnsavedRun[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const list = raw ? (JSON.parse(raw) as UnsavedRun[]) : [];
+    return Array.isArray(list) ? list : [];
+  } catch {
+    return [];
+  }
+}
+
+function write(runs: UnsavedRun[]) {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(runs));
+  } catch {
+    // Over quota: keep the scores, drop the replays.
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(runs.map((r) => ({ ...r, replay: null }))));
+    } catch {
+      // ignore
+    }
+  }
+}
+
+/** Unsaved runs, newest first. */
+export function readUnsavedRuns(): UnsavedRun[] {
+  return read().sort((a, b) => b.endedAt - a.endedAt);
+}
+
+export function addUnsavedRun(run: Omit<UnsavedRun, "id">): UnsavedRun {
+  const id = `${run.endedAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  const entry = { ...run, id };
+  write([entry, ...readUnsavedRuns()].slice(0, MAX_UNSAVED_RUNS));
+  return entry;
+}
+
+export function removeUnsavedRuns(ids: string[]) {
+  write(read().filter((r) => !ids.includes(r.id)));
+}
@@ -0,0 +1,171 @@
+import type { EIP1193Provider } from "./ethProvider";
+
+// EIP-5792 capability negotiation and call-bundle status, across the shapes
+// wallets actually return:
+// - v1 (`version: "1.0"`): `atomicBatch: { supported }`, string statuses
+//   ("PENDING" / "CONFIRMED"), wallet_sendCalls returns the bundle id.
+// - v2 (`version: "2.0.0"`): `atomic: { status: "supported" | "ready" | "unsupported" }`,
+//   numeric statuses (100 pending, 200 confirmed, 400 offchain failure,
+//   500 reverted, 600 partially reverted), wallet_sendCalls returns `{ id }`.
+// Capabilities under the "0x0" key apply to every chain; a chain's own entry wins.
+
+type Hex = `0x${string}`;
+
+export type AtomicStatus = "supported" | "ready" | "unsupported";
+
+export type WalletCapabilities = {
+  // "ready": the wallet can upgrade the account to batch atomically (asks the user first).
+  atomic: AtomicStatus;
+  paymasterService: boolean;
+  raw: Record<string, any>;
+};
+
+export type CallsStatusCode = 100 | 200 | 400 | 500 | 600;
+
+export type CallsStatus = {
+  code: CallsStatusCode;
+  pending: boolean;
+  // Transaction hashes of the bundle's receipts (wallets vary: one per call or one for all).
+  txHashes: Hex[];
+  atomic: boolean | null;
+};
+
+// EIP-5792 / EIP-1193 error codes worth telling apart.
+export const WALLET_ERRORS = {
+  userRejected: 4001,
+  unauthorized: 4100,
+  unsupportedMethod: 4200,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  unsupportedCapability: 5700,
+  unsupportedChain: 5710,
+  batchTooLarge: 5740,
+  upgradeRejected: 5750,
+  atomicityNotSupported: 5760,
+} as const;
+
+export function walletErrorCode(err: unknown): number | null {
+  const e = err as { code?: unknown; cause?: { code?: unknown } } | null;
+  const code = e?.code ?? e?.cause?.code;
+  return typeof code === "number" ? code : null;
+}
+
+export function isUserRejection(err: unknown) {
+  if (walletErrorCode(err) === WALLET_ERRORS.userRejected) return true;
+  return /user rejected|user denied|rejected by user/i.test(err instanceof Error ? err.message : String(err));
+}
+
+/** The wallet doesn't implement the method at all (as opposed to refusing this request). */
+export function isUnsupportedMethod(err: unknown) {
+  const code = walletErrorCode(err);
+  if (code === WALLET_ERRORS.unsupportedMethod || code === WALLET_ERRORS.methodNotFound) return true;
+  return /not supported|does not exist|not available|unknown method/i.test(err instanceof Error ? err.message : String(err));
+}
+
+function entryFor(caps: Record<string, any>, chainIdHex: Hex) {
+  const chainIdNum = Number.parseInt(chainIdHex, 16);
+  // Some stacks (e.g. wrapper libs) use numeric or non-padded keys.
+  const own = caps[chainIdHex] ?? caps[chainIdHex.toLowerCase()] ?? caps[chainIdNum] ?? caps[String(chainIdNum)];
+  const global = caps["0x0"] ?? caps[0];
+  if (!own && !global) {
+    // Flat shape: capabilities at the top level.
+    return "atomic" in caps || "atomicBatch" in caps || "paymasterService" in caps ? caps : null;
+  }
+  return { ...(global ?? {}), ...(own ?? {}) };
+}
+
+function normalize(caps: Record<string, any>, chainIdHex: Hex): WalletCapabilities | null {
+  const entry = entryFor(caps, chainIdHex);
+  if (!entry) return null;
+  const status = entry.atomic?.status;
+  const atomic: AtomicStatus =
+    status === "supported" || status === "ready"
+      ? status
+      : entry.atomic?.supported === true || entry.atomicBatch?.supported === true
+        ? "supported"
+        : "unsupported";
+  return { atomic, paymasterService: Boolean(entry.paymasterService?.supported), raw: entry };
+}
+
+const cache = new Map<string, WalletCapabilities | null>();
+
+/**
+ * Capabilities for `chainIdHex`, or null when the wallet doesn't implement
+ * wallet_getCapabilities. Tries the v2 params first ([account, [chainId]]),
+ * then the v1 ones ([account]), then none. Cached per account and chain.
+ */
+export async function getWalletCapabilities(
+  eth: EIP1193Provider,
+  account: Hex | undefined,
+  chainIdHex: Hex
+): Promise<WalletCapabilities | null> {
+  const key = `${account?.toLowerCase() ?? ""}:${chainIdHex}`;
+  if (cache.has(key)) return cache.get(key) ?? null;
+
+  const variants: unknown[][] = [
+    ...(account ? [[account, [chainIdHex]], [account]] : []),
+    [],
+  ];
+
+  let result: WalletCapabilities | null = null;
+  for (const params of variants) {
+    try {
+      const res = await eth.request({ method: "wallet_getCapabilities", params });
+      if (res && typeof res === "object") {
+        result = normalize(res as Record<string, any>, chainIdHex);
+        if (result) break;
+      }
+    } catch (err) {
+      if (isUnsupportedMethod(err)) break;
+      // try next variant
+    }
+  }
+
+  cache.set(key, result);
+  return result;
+}
+
+/** Forgets cached capabilities (e.g. after an account or chain switch). */
+export function clearWalletCapabilities() {
+  cache.clear();
+}
+
+const STRING_STATUS: Record<string, CallsStatusCode> = {
+  PENDING: 100,
+  CONFIRMED: 200,
+  FAILED: 400,
+  REVERTED: 500,
+};
+
+function isHex(x: unknown): x is Hex {
+  return typeof x === "string" && x.startsWith("0x");
+}
+
+/** Normalizes a wallet_getCallsStatus result (v1 or v2), or null when unreadable. */
+export function parseCallsStatus(res: unknown): CallsStatus | null {
+  if (!res || typeof res !== "object") return null;
+  const r = res as Record<string, any>;
+
+  let code: CallsStatusCode | undefined;
+  if (typeof r.status === "number") {
+    // Treat any 1xx/2xx/4xx/5xx/6xx as its class (wallets may add sub-codes).
+    const cls = Math.floor(r.status / 100) * 100;
+    code = ([100, 200, 400, 500, 600] as const).find((c) => c === cls);
+  } else if (typeof r.status === "string") {
+    code = STRING_STATUS[r.status.toUpperCase()];
+  }
+
+  const txHashes: Hex[] = [];
+  for (const receipt of Array.isArray(r.receipts) ? r.receipts : []) {
+    if (isHex(receipt?.transactionHash) && !txHashes.includes(receipt.transactionHash)) {
+      txHashes.push(receipt.transactionHash);
+    }
+  }
+  // Some wallets return the hash directly.
+  if (isHex(r.transactionHash) && !txHashes.includes(r.transactionHash)) txHashes.push(r.transactionHash);
+
+  // No status but a hash: the tx is out, which is all callers wait for.
+  if (code === undefined) code = txHashes.length ? 200 : 100;
+
+  return { code, pending: code === 100, txHashes, atomic: typeof r.atomic === "boolean" ? r.atomic : null };
+}
@@ -7,22 +7,61 @@
  *   const engine = new GameEngine();
  */
 
-type GameEngineClass = {
+import type { GameState } from "./gameState";
+
+export type GameEngineClass = {
   new (): GameEngineInstance;
+  prototype: GameEngineInstance;
 };
 
 export type GameEngineInstance = {
   free(): void;
-  get_state(): any;
-  reset(phase_str: string, diff_str: string, time: number): void;
+  /** Serde output of the Rust GameState; checked against the generated types in dev (lib/gameState.ts). */
+  get_state(): GameState;
+  /** `seed` drives every random draw in the run (see lib/replay.ts). */
+  reset(phase_str: string, diff_str: string, time: number, seed: number): void;
   resize(w: number, h: number, dpr: number): void;
   set_target_x(x: number): void;
   update(time: number): void;
+  // Flat frame buffers (lib/stateBuffers.ts). Missing on engines built before them.
+  write_frame?(): void;
+  frame_header_ptr?(): number;
+  frame_enemies_ptr?(): number;
+  frame_enemies_capacity?(): number;
+  frame_bullets_ptr?(): number;
+  frame_bullets_capacity?(): number;
+  frame_particles_ptr?(): number;
+  frame_particles_capacity?(): number;
+  frame_powerups_ptr?(): number;
+  frame_powerups_capacity?(): number;
+  // Gameplay event queue (lib/gameEvents.ts). Missing on older engines too.
+  drain_events?(): number;
+  events_ptr?(): number;
+};
+
+export type LoadedEngine = {
+  GameEngine: GameEngineClass;
+  // The engine's linear memory, for Float32Array views over its frame buffers.
+  memory: WebAssembly.Memory | undefined;
 };
 
-let cached: { GameEngine: GameEngineClass } | null = null;
+/**
+ * Engine features this tree relies on that `GameEngine` lacks, for builds that
+ * predate them. An engine whose reset() takes no seed still draws from
+ * Math.random, so its runs can't be replayed. Empty when the build is current.
+ */
+export function engineStaleness(GameEngine: GameEngineClass): string[] {
+  const proto = GameEngine.prototype as Partial<GameEngineInstance>;
+  const missing: string[] = [];
+  if (typeof proto.reset !== "function" || proto.reset.length < 4) missing.push("seeded reset()");
+  if (typeof proto.write_frame !== "function") missing.push("write_frame()");
+  if (typeof proto.drain_events !== "function") missing.push("drain_events()");
+  return missing;
+}
+
+let cached: LoadedEngine | null = null;
 
-export async function loadEngine(): Promise<{ GameEngine: GameEngineClass }> {
+export async function loadEngine(): Promise<LoadedEngine> {
   if (cached) return cached;
 
   // Dynamic import of the wasm-pack generated JS (lives in public/wasm/).
@@ -31,9 +70,16 @@ export async function loadEngine(): Promise<{ GameEngine: GameEngineClass }> {
   // @ts-ignore — runtime-only dynamic import from public directory
   const wasmModule = await import(/* webpackIgnore: true */ "/wasm/wasm_engine.js");
 
-  // init() fetches the .wasm binary from the same directory by default.
-  await wasmModule.default("/wasm/wasm_engine_bg.wasm");
+  // init() fetches the .wasm binary from the same directory by default,
+  // and resolves to the instance's exports (memory included).
+  const exports = await wasmModule.default("/wasm/wasm_engine_bg.wasm");
 
-  cached = { GameEngine: wasmModule.GameEngine };
+  cached = { GameEngine: wasmModule.GameEngine, memory: exports?.memory };
+  if (process.env.NODE_ENV !== "production") {
+    const missing = engineStaleness(cached.GameEngine);
+    if (missing.length) {
+      console.warn(`[wasm] public/wasm predates ${missing.join(", ")}; run \`npm run build:wasm\``);
+    }
+  }
   return cached;
 }
@@ -0,0 +1,76 @@
+#!/usr/bin/env node
+// Drives POST /api/admin/backfill until the backfill is done.
+//
+//   ADMIN_SECRET=... node scripts/backfill.mjs [--url http://localhost:3000] [--chain <id>] [--from <block>] [--reset] [--max-ms 20000]
+//
+// Against a local chain: start `anvil --chain-id 8453` (or hardhat with chainId
+// 8453, so the app treats it as Base), deploy Scoreboard, run `next dev` with
+// BASE_RPC_URL=http://127.0.0.1:8545 and NEXT_PUBLIC_SCOREBOARD_ADDRESS set,
+// then point this script at it.
+
+function arg(name, fallback) {
+  const i = process.argv.indexOf(`--${name}`);
+  if (i === -1) return fallback;
+  const v = process.argv[i + 1];
+  return v === undefined || v.startsWith("--") ? true : v;
+}
+
+const url = String(arg("url", "http://localhost:3000")).replace(/\/$/, "") + "/api/admin/backfill";
+const secret = process.env.ADMIN_SECRET;
+const chainId = arg("chain", undefined);
+const from = arg("from", undefined);
+const maxMs = Number(arg("max-ms", 20000));
+
+if (!secret) {
+  console.error("ADMIN_SECRET is not set");
+  process.exit(1);
+}
+
+async function call(body) {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "content-type": "application/json", authorization: `Bearer ${secret}` },
+    body: JSON.stringify({ chainId, ...body }),
+  });
+  const data = await res.json().catch(() => ({ ok: false, error: `HTTP ${res.status}` }));
+  return { status: res.status, data };
+}
+
+function progress(s) {
+  const from = BigInt(s.fromBlock);
+  const span = BigInt(s.toBlock) - from + 1n;
+  const done = BigInt(s.nextBlock) - from;
+  const pct = span > 0n ? Number((done * 1000n) / span) / 10 : 100;
+  return `${Math.min(100, pct)}% next=${s.nextBlock}/${s.toBlock} chunk=${s.chunk} logs=${s.logsProcessed} ingested=${s.logsIngested} weeks=${s.weeksRebuilt.length}`;
+}
+
+if (arg("reset", false)) {
+  await call({ action: "reset" });
+  console.log("backfill reset");
+}
+
+const started = await call({ action: "start", fromBlock: from });
+if (started.status === 409) {
+  console.log("resuming backfill in progress");
+} else if (!started.data.ok) {
+  console.error("start failed:", started.data.error);
+  process.exit(1);
+}
+
+let failures = 0;
+for (;;) {
+  const { data } = await call({ action: "step", maxMs });
+  if (data.state) console.log(progress(data.state));
+  if (!data.ok) {
+    console.error("step failed:", data.error);
+    // Progress is checkpointed server-side; retry a few times before giving up.
+    if (++failures >= 5) process.exit(1);
+    await new Promise((r) => setTimeout(r, 2000 * failures));
+    continue;
+  }
+  failures = 0;
+  if (data.busy) await new Promise((r) => setTimeout(r, 2000));
+  if (data.state?.done) break;
+}
+
+console.log("backfill done");
@@ -0,0 +1,107 @@
+#!/usr/bin/env node
+// Compares the two ways the render loop can read engine state per frame:
+// get_state() (serde -> JS objects) vs write_frame() + Float32Array views over
+// WASM memory (lib/stateBuffers.ts). Runs the prebuilt engine in public/wasm/.
+//
+//   node scripts/bench-state.mjs [--frames 5000] [--difficulty hard] [--seed 1]
+//
+// Each sample covers reading the frame and touching every entity's position,
+// which is what the renderer does.
+
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+function arg(name, fallback) {
+  const i = process.argv.indexOf(`--${name}`);
+  if (i === -1) return fallback;
+  const v = process.argv[i + 1];
+  return v === undefined || v.startsWith("--") ? true : v;
+}
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const frames = Number(arg("frames", 5000));
+const difficulty = String(arg("difficulty", "hard"));
+const seed = Number(arg("seed", 1));
+
+// Same layout as lib/stateBuffers.ts (kept in sync by hand; this script runs without a TS build).
+const FRAME_LAYOUT_VERSION = 1;
+const HEADER_LEN = 16;
+const COUNTS = { enemies: 12, bullets: 13, particles: 14, powerups: 15 };
+const STRIDES = { enemies: 9, bullets: 5, particles: 6, powerups: 5 };
+const XY = { enemies: 2, bullets: 1, particles: 0, powerups: 2 };
+
+const wasm = await import(pathToFileURL(join(root, "public/wasm/wasm_engine.js")).href);
+const { memory } = wasm.initSync({ module: readFileSync(join(root, "public/wasm/wasm_engine_bg.wasm")) });
+
+// Steps a fresh engine through `frames` frames of a run, weaving the player
+// across the screen, and times `read(engine)` after each update.
+function run(read) {
+  const engine = new wasm.GameEngine();
+  engine.reset("play", difficulty, 0, seed);
+  engine.resize(1170, 2532, 3);
+  const samples = new Float64Array(frames);
+  let sink = 0;
+  for (let i = 0; i < frames; i++) {
+    const t = i * 16;
+    engine.set_target_x(Math.round(585 + Math.sin(t / 700) * 500));
+    engine.update(t);
+    const start = performance.now();
+    sink += read(engine);
+    samples[i] = performance.now() - start;
+  }
+  engine.free();
+  return { samples, sink };
+}
+
+function readSerde(engine) {
+  const s = engine.get_state();
+  let sum = s.px + s.py;
+  for (const list of [s.enemies, s.bullets, s.particles, s.powerups]) {
+    for (const e of list) sum += e.x + e.y;
+  }
+  return sum;
+}
+
+function readFlat(engine) {
+  engine.write_frame();
+  const h = new Float32Array(memory.buffer, engine.frame_header_ptr(), HEADER_LEN);
+  let sum = h[3] + h[4];
+  for (const kind of Object.keys(COUNTS)) {
+    const buf = new Float32Array(memory.buffer, engine[`frame_${kind}_ptr`](), engine[`frame_${kind}_capacity`]());
+    const stride = STRIDES[kind];
+    for (let i = 0, o = XY[kind]; i < h[COUNTS[kind]]; i++, o += stride) sum += buf[o] + buf[o + 1];
+  }
+  return sum;
+}
+
+function report(label, { samples }) {
+  const sorted = Array.from(samples).sort((a, b) => a - b);
+  const pct = (p) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+  const mean = sorted.reduce((a, b) => a + b, 0) / sorted.length;
+  const us = (ms) => `${(ms * 1000).toFixed(1)}µs`;
+  console.log(
+    `${label.padEnd(12)} mean ${us(mean)}  p50 ${us(pct(0.5))}  p95 ${us(pct(0.95))}  max ${us(sorted[sorted.length - 1])}`
+  );
+}
+
+// Without the flat path there is nothing to compare: fail instead of reporting half a benchmark.
+function fail(msg) {
+  console.error(`bench-state: ${msg}`);
+  process.exit(1);
+}
+
+if (typeof wasm.GameEngine.prototype.write_frame !== "function") {
+  fail("public/wasm has no write_frame() (the engine build predates it); run `npm run build:wasm` first");
+}
+const probe = new wasm.GameEngine();
+probe.write_frame();
+const version = new Float32Array(memory.buffer, probe.frame_header_ptr(), HEADER_LEN)[0];
+probe.free();
+if (version !== FRAME_LAYOUT_VERSION) {
+  fail(`public/wasm writes frame layout v${version}, this script reads v${FRAME_LAYOUT_VERSION}`);
+}
+
+console.log(`${frames} frames, difficulty ${difficulty}, seed ${seed}`);
+report("get_state", run(readSerde));
+report("write_frame", run(readFlat));
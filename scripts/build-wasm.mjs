@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+// Builds wasm-engine/ into both places the app loads it from, then regenerates
+// the state types:
+//   public/wasm/  --target web      (the browser via /wasm/, and the server's replay verifier)
+//   lib/wasm/     --target bundler  (bundler-style imports)
+//
+//   node scripts/build-wasm.mjs
+//
+// Fails if the fresh build is missing anything the app expects from the engine
+// (see engineStaleness in lib/wasmLoader.ts), so a half-built engine never gets
+// committed.
+
+import { spawnSync } from "node:child_process";
+import { existsSync, readFileSync, rmSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+
+const TARGETS = [
+  { target: "web", outDir: "public/wasm" },
+  { target: "bundler", outDir: "lib/wasm" },
+];
+
+function run(cmd, args) {
+  const r = spawnSync(cmd, args, { cwd: root, stdio: "inherit" });
+  if (r.error) {
+    console.error(`build-wasm: ${cmd} failed to start: ${r.error.message}`);
+    process.exit(1);
+  }
+  if (r.status !== 0) process.exit(r.status ?? 1);
+}
+
+// Check the toolchain up front, so a missing piece fails before any output is touched.
+function preflight() {
+  const problems = [];
+  if (spawnSync("wasm-pack", ["--version"], { stdio: "ignore" }).status !== 0) {
+    problems.push("wasm-pack is not installed (https://rustwasm.github.io/wasm-pack/installer/)");
+  }
+  const libdir = spawnSync("rustc", ["--print", "target-libdir", "--target", "wasm32-unknown-unknown"], {
+    encoding: "utf8",
+  });
+  if (libdir.status !== 0 || !existsSync(libdir.stdout.trim())) {
+    problems.push("the wasm32-unknown-unknown target is missing (rustup target add wasm32-unknown-unknown)");
+  }
+  if (problems.length) {
+    for (const p of problems) console.error(`build-wasm: ${p}`);
+    process.exit(1);
+  }
+}
+
+preflight();
+
+for (const { target, outDir } of TARGETS) {
+  run("wasm-pack", ["build", "wasm-engine", "--target", target, "--out-dir", `../${outDir}`]);
+  // wasm-pack ignores everything it writes; the builds are committed.
+  rmSync(join(root, outDir, ".gitignore"), { force: true });
+}
+
+// Same checks as engineStaleness() in lib/wasmLoader.ts (this script runs without a TS build).
+const wasm = await import(pathToFileURL(join(root, "public/wasm/wasm_engine.js")).href);
+wasm.initSync({ module: readFileSync(join(root, "public/wasm/wasm_engine_bg.wasm")) });
+const proto = wasm.GameEngine.prototype;
+const missing = [];
+if (proto.reset.length < 4) missing.push("seeded reset()");
+if (typeof proto.write_frame !== "function") missing.push("write_frame()");
+if (typeof proto.drain_events !== "function") missing.push("drain_events()");
+if (missing.length) {
+  console.error(`build-wasm: public/wasm is missing ${missing.join(", ")}`);
+  process.exit(1);
+}
+
+run(process.execPath, [join(root, "scripts/gen-state-types.mjs")]);
@@ -0,0 +1,130 @@
+#!/usr/bin/env node
+// Generates lib/gameState.generated.ts from the serde types in wasm-engine/src/lib.rs:
+// a TypeScript type per struct/enum reachable from GameState, plus a runtime
+// description of the same shapes for the dev-mode validator (lib/gameState.ts).
+//
+//   node scripts/gen-state-types.mjs           # write the file
+//   node scripts/gen-state-types.mjs --check   # exit 1 if it's out of date
+//
+// Runs after `npm run build:wasm`. Only the subset of Rust serde uses here is
+// understood (plain structs, unit enums, no #[serde] attributes); anything
+// else fails loudly rather than producing wrong types.
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const SRC = join(root, "wasm-engine/src/lib.rs");
+const OUT = join(root, "lib/gameState.generated.ts");
+const ROOT_TYPE = "GameState";
+
+const NUMBER_TYPES = new Set(["f32", "f64", "u8", "u16", "u32", "i8", "i16", "i32", "usize", "isize"]);
+
+function fail(msg) {
+  console.error(`gen-state-types: ${msg}`);
+  process.exit(1);
+}
+
+function stripComments(src) {
+  return src.replace(/\/\*[\s\S]*?\*\//g, "").replace(/\/\/[^\n]*/g, "");
+}
+
+/** Serialize-derived items: { name -> { kind: "struct", fields } | { kind: "enum", variants } }. */
+function parseItems(src) {
+  const items = new Map();
+  const re = /#\[derive\(([^)]*)\)\]\s*pub\s+(struct|enum)\s+(\w+)\s*\{([^}]*)\}/g;
+  for (const m of src.matchAll(re)) {
+    const [, derives, kind, name, body] = m;
+    if (!derives.split(",").map((d) => d.trim()).includes("Serialize")) continue;
+    if (body.includes("#[")) fail(`${name}: attributes inside serde types aren't supported`);
+    const parts = body.split(",").map((p) => p.trim()).filter(Boolean);
+    if (kind === "enum") {
+      for (const v of parts) if (!/^\w+$/.test(v)) fail(`${name}::${v}: only unit variants are supported`);
+      items.set(name, { kind, variants: parts });
+    } else {
+      const fields = parts.map((p) => {
+        const f = /^pub\s+(\w+)\s*:\s*(.+)$/.exec(p);
+        if (!f) fail(`${name}: can't parse field "${p}"`);
+        return { name: f[1], type: f[2].replace(/\s+/g, "") };
+      });
+      items.set(name, { kind, fields });
+    }
+  }
+  return items;
+}
+
+// Rust type -> { ts, schema } where schema is the runtime descriptor string.
+function mapType(rust, items, owner) {
+  const vec = /^Vec<(.+)>$/.exec(rust);
+  if (vec) {
+    const inner = mapType(vec[1], items, owner);
+    return { ts: `${inner.ts}[]`, schema: `${inner.schema}[]`, refs: inner.refs };
+  }
+  if (NUMBER_TYPES.has(rust)) return { ts: "number", schema: "number", refs: [] };
+  if (rust === "bool") return { ts: "boolean", schema: "boolean", refs: [] };
+  if (rust === "String") return { ts: "string", schema: "string", refs: [] };
+  if (items.has(rust)) return { ts: rust, schema: rust, refs: [rust] };
+  return fail(`${owner}: unsupported field type ${rust}`);
+}
+
+function generate(src) {
+  const items = parseItems(stripComments(src));
+  if (!items.has(ROOT_TYPE)) fail(`${ROOT_TYPE} not found in ${SRC}`);
+
+  // Reachable types, root first, then in order of first use.
+  const order = [];
+  const visit = (name) => {
+    if (order.includes(name)) return;
+    order.push(name);
+    const item = items.get(name);
+    if (item.kind === "struct") for (const f of item.fields) mapType(f.type, items, name).refs.forEach(visit);
+  };
+  visit(ROOT_TYPE);
+
+  const types = [];
+  const structs = [];
+  const enums = [];
+  for (const name of order) {
+    const item = items.get(name);
+    if (item.kind === "enum") {
+      types.push(`export type ${name} = ${item.variants.map((v) => JSON.stringify(v)).join(" | ")};`);
+      enums.push(`  ${name}: [${item.variants.map((v) => JSON.stringify(v)).join(", ")}],`);
+      continue;
+    }
+    const fields = item.fields.map((f) => ({ ...f, ...mapType(f.type, items, name) }));
+    types.push(`export type ${name} = {\n${fields.map((f) => `  ${f.name}: ${f.ts};`).join("\n")}\n};`);
+    structs.push(`  ${name}: {\n${fields.map((f) => `    ${f.name}: ${JSON.stringify(f.schema)},`).join("\n")}\n  },`);
+  }
+
+  return `// Generated by scripts/gen-state-types.mjs from wasm-engine/src/lib.rs. Do not edit.
+// Regenerate after changing the engine's serde types: npm run gen:state-types
+
+${types.join("\n\n")}
+
+// Field types per struct ("number", "boolean", "string", a type name, or "<type>[]").
+export const GAME_STATE_STRUCTS = {
+${structs.join("\n")}
+} as const;
+
+export const GAME_STATE_ENUMS = {
+${enums.join("\n")}
+} as const;
+`;
+}
+
+const out = generate(readFileSync(SRC, "utf8"));
+
+if (process.argv.includes("--check")) {
+  let current = "";
+  try {
+    current = readFileSync(OUT, "utf8");
+  } catch {
+    // missing counts as stale
+  }
+  if (current !== out) fail("lib/gameState.generated.ts is out of date; run npm run gen:state-types");
+  console.log("gen-state-types: up to date");
+} else {
+  writeFileSync(OUT, out);
+  console.log(`gen-state-types: wrote ${OUT}`);
+}
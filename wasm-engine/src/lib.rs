@@ -1,12 +1,6 @@
 use wasm_bindgen::prelude::*;
 use serde::{Serialize, Deserialize};
 
-#[wasm_bindgen]
-extern "C" {
-    #[wasm_bindgen(js_namespace = Math)]
-    fn random() -> f64;
-}
-
 fn clamp(n: f64, a: f64, b: f64) -> f64 {
     n.max(a).min(b)
 }
@@ -22,6 +16,27 @@ fn dist2(ax: f64, ay: f64, bx: f64, by: f64) -> f64 {
     dx * dx + dy * dy
 }
 
+// Seeded PRNG (mulberry32). Every random draw in a run comes from here, so the
+// same seed + the same recorded inputs reproduce the exact same run (replays).
+#[derive(Clone, Copy)]
+struct Rng {
+    state: u32,
+}
+
+impl Rng {
+    fn new(seed: u32) -> Self {
+        Rng { state: seed }
+    }
+
+    fn next_f64(&mut self) -> f64 {
+        self.state = self.state.wrapping_add(0x6D2B_79F5);
+        let mut t = self.state;
+        t = (t ^ (t >> 15)).wrapping_mul(t | 1);
+        t = t.wrapping_add((t ^ (t >> 7)).wrapping_mul(t | 61)) ^ t;
+        ((t ^ (t >> 14)) as f64) / 4_294_967_296.0
+    }
+}
+
 #[derive(Serialize, Deserialize, Clone, Copy, PartialEq)]
 pub enum Phase {
     Menu,
@@ -116,6 +131,85 @@ pub struct GameState {
     pub drones: bool,
 }
 
+// Flat f32 copy of the drawable state, written by write_frame() into buffers
+// that stay in WASM memory. The render loop reads them through Float32Array
+// views (lib/stateBuffers.ts) instead of a fresh serde object graph per frame.
+// Any layout change must bump FRAME_LAYOUT_VERSION and update the TS side.
+//
+// header: version, phase, score, px, py, tx, w, h, dpr, shake, flame, drones,
+//         enemy count, bullet count, particle count, powerup count
+// enemy:    id, type, x, y, vx, vy, r, hp, max_hp
+// bullet:   id, x, y, vx, vy
+// particle: x, y, vx, vy, life, max_life
+// powerup:  id, type, x, y, vy
+// Enums are their declaration index; bools are 0/1. Ids are exact up to 2^24.
+const FRAME_LAYOUT_VERSION: f32 = 1.0;
+const HEADER_LEN: usize = 16;
+const ENEMY_STRIDE: usize = 9;
+const BULLET_STRIDE: usize = 5;
+const PARTICLE_STRIDE: usize = 6;
+const POWERUP_STRIDE: usize = 5;
+// Initial room, in entities; buffers still grow past it (JS re-creates its views then).
+const FRAME_RESERVE: usize = 256;
+
+struct FrameBuffers {
+    header: Vec<f32>,
+    enemies: Vec<f32>,
+    bullets: Vec<f32>,
+    particles: Vec<f32>,
+    powerups: Vec<f32>,
+}
+
+impl FrameBuffers {
+    fn new() -> Self {
+        FrameBuffers {
+            header: vec![0.0; HEADER_LEN],
+            enemies: Vec::with_capacity(FRAME_RESERVE * ENEMY_STRIDE),
+            bullets: Vec::with_capacity(FRAME_RESERVE * BULLET_STRIDE),
+            particles: Vec::with_capacity(FRAME_RESERVE * PARTICLE_STRIDE),
+            powerups: Vec::with_capacity(FRAME_RESERVE * POWERUP_STRIDE),
+        }
+    }
+}
+
+fn powerup_code(t: &PowerupType) -> f32 {
+    match t {
+        PowerupType::Overdrive => 0.0,
+        PowerupType::Drones => 1.0,
+    }
+}
+
+fn flag(b: bool) -> f32 {
+    if b { 1.0 } else { 0.0 }
+}
+
+// Gameplay events for the client (sounds, haptics, stats), queued during
+// update() and handed over by drain_events() as flat f32 records:
+//   kind, detail, time
+// detail is the EnemyType for EnemyKilled and PlayerHit, the PowerupType for
+// PowerupCollected, -1 otherwise; time is the update() time. The kind order is
+// mirrored in lib/gameEvents.ts.
+#[derive(Clone, Copy)]
+enum GameEventKind {
+    EnemyKilled,
+    BossSpawned,
+    BossKilled,
+    PowerupCollected,
+    PlayerHit,
+    Died,
+}
+
+const EVENT_STRIDE: usize = 3;
+// Nothing drains headless runs (replay verification), so cap the queue.
+const MAX_PENDING_EVENTS: usize = 512;
+
+fn push_event(events: &mut Vec<f32>, kind: GameEventKind, detail: f32, t: f64) {
+    if events.len() >= MAX_PENDING_EVENTS * EVENT_STRIDE {
+        return;
+    }
+    events.extend_from_slice(&[kind as u8 as f32, detail, t as f32]);
+}
+
 struct DiffConfig {
     ramp_ms: f64,
     spawn_base_ms: f64,
@@ -197,6 +291,11 @@ pub struct GameEngine {
     overdrive_until: f64,
     drones_until: f64,
     next_id: u32,
+    rng: Rng,
+    frame: FrameBuffers,
+    // Queued since the last drain_events(), and the batch it last handed out.
+    events: Vec<f32>,
+    drained_events: Vec<f32>,
 }
 
 #[wasm_bindgen]
@@ -231,6 +330,10 @@ impl GameEngine {
             overdrive_until: 0.0,
             drones_until: 0.0,
             next_id: 1,
+            rng: Rng::new(1),
+            frame: FrameBuffers::new(),
+            events: Vec::with_capacity(64 * EVENT_STRIDE),
+            drained_events: Vec::with_capacity(64 * EVENT_STRIDE),
         }
     }
 
@@ -247,7 +350,7 @@ impl GameEngine {
         }
     }
 
-    pub fn reset(&mut self, phase_str: &str, diff_str: &str, time: f64) {
+    pub fn reset(&mut self, phase_str: &str, diff_str: &str, time: f64, seed: u32) {
         self.phase = match phase_str {
             "menu" => Phase::Menu,
             "play" => Phase::Play,
@@ -267,6 +370,10 @@ impl GameEngine {
         self.next_id = 1;
         self.score = 0.0;
         self.overdrive_until = 0.0;
+        self.drones_until = 0.0;
+        self.rng = Rng::new(seed);
+        self.events.clear();
+        self.drained_events.clear();
         
         let d = DiffConfig::get(self.diff);
         self.start_at = time;
@@ -308,7 +415,7 @@ impl GameEngine {
             if !boss_alive && time >= self.next_boss_at {
                 self.spawn_boss(time);
             }
-            if boss_alive && random() < 0.035 {
+            if boss_alive && self.rng.next_f64() < 0.035 {
                 let mut bx = 0.0;
                 let mut by = 0.0;
                 for e in &self.enemies {
@@ -322,7 +429,7 @@ impl GameEngine {
                     self.enemies.push(Enemy {
                         id: self.next_id,
                         t: EnemyType::Bomb,
-                        x: bx + (random() - 0.5) * 40.0 * self.dpr,
+                        x: bx + (self.rng.next_f64() - 0.5) * 40.0 * self.dpr,
                         y: by + 30.0 * self.dpr,
                         vx: 0.0,
                         vy: 220.0 * self.dpr,
@@ -359,6 +466,106 @@ impl GameEngine {
         };
         serde_wasm_bindgen::to_value(&state).unwrap()
     }
+
+    /// Writes the current state into the flat frame buffers (layout above).
+    pub fn write_frame(&mut self) {
+        let f = &mut self.frame;
+
+        f.enemies.clear();
+        for e in &self.enemies {
+            f.enemies.extend_from_slice(&[
+                e.id as f32,
+                e.t as u8 as f32,
+                e.x as f32,
+                e.y as f32,
+                e.vx as f32,
+                e.vy as f32,
+                e.r as f32,
+                e.hp as f32,
+                e.max_hp as f32,
+            ]);
+        }
+        f.bullets.clear();
+        for b in &self.bullets {
+            f.bullets.extend_from_slice(&[b.id as f32, b.x as f32, b.y as f32, b.vx as f32, b.vy as f32]);
+        }
+        f.particles.clear();
+        for p in &self.particles {
+            f.particles.extend_from_slice(&[
+                p.x as f32,
+                p.y as f32,
+                p.vx as f32,
+                p.vy as f32,
+                p.life as f32,
+                p.max_life as f32,
+            ]);
+        }
+        f.powerups.clear();
+        for p in &self.powerups {
+            f.powerups.extend_from_slice(&[p.id as f32, powerup_code(&p.t), p.x as f32, p.y as f32, p.vy as f32]);
+        }
+
+        f.header.copy_from_slice(&[
+            FRAME_LAYOUT_VERSION,
+            self.phase as u8 as f32,
+            self.score as f32,
+            self.px as f32,
+            self.py as f32,
+            self.tx as f32,
+            self.w as f32,
+            self.h as f32,
+            self.dpr as f32,
+            self.shake as f32,
+            flag(self.phase == Phase::Play),
+            flag(self.last_at < self.drones_until),
+            self.enemies.len() as f32,
+            self.bullets.len() as f32,
+            self.particles.len() as f32,
+            self.powerups.len() as f32,
+        ]);
+    }
+
+    // Where each buffer lives in WASM memory and how many f32s it can hold
+    // before it moves. Stable between calls unless a buffer had to grow.
+    pub fn frame_header_ptr(&self) -> *const f32 {
+        self.frame.header.as_ptr()
+    }
+    pub fn frame_enemies_ptr(&self) -> *const f32 {
+        self.frame.enemies.as_ptr()
+    }
+    pub fn frame_enemies_capacity(&self) -> usize {
+        self.frame.enemies.capacity()
+    }
+    pub fn frame_bullets_ptr(&self) -> *const f32 {
+        self.frame.bullets.as_ptr()
+    }
+    pub fn frame_bullets_capacity(&self) -> usize {
+        self.frame.bullets.capacity()
+    }
+    pub fn frame_particles_ptr(&self) -> *const f32 {
+        self.frame.particles.as_ptr()
+    }
+    pub fn frame_particles_capacity(&self) -> usize {
+        self.frame.particles.capacity()
+    }
+    pub fn frame_powerups_ptr(&self) -> *const f32 {
+        self.frame.powerups.as_ptr()
+    }
+    pub fn frame_powerups_capacity(&self) -> usize {
+        self.frame.powerups.capacity()
+    }
+
+    /// Hands the events queued since the last call to JS (see EVENT_STRIDE)
+    /// and returns how many there are. They stay readable at events_ptr()
+    /// until the next call.
+    pub fn drain_events(&mut self) -> usize {
+        std::mem::swap(&mut self.events, &mut self.drained_events);
+        self.events.clear();
+        self.drained_events.len() / EVENT_STRIDE
+    }
+    pub fn events_ptr(&self) -> *const f32 {
+        self.drained_events.as_ptr()
+    }
 }
 
 // Internal logic
@@ -426,14 +633,14 @@ impl GameEngine {
         
         self.next_spawn_at = t + spawn_ms;
         
-        let r_val = random();
+        let r_val = self.rng.next_f64();
         let et = match self.diff {
             Difficulty::Easy => if r_val < 0.60 { EnemyType::Scout } else if r_val < 0.80 { EnemyType::Zigzag } else if r_val < 0.92 { EnemyType::Kamikaze } else { EnemyType::Tank },
             Difficulty::Medium => if r_val < 0.50 { EnemyType::Scout } else if r_val < 0.75 { EnemyType::Zigzag } else if r_val < 0.88 { EnemyType::Kamikaze } else { EnemyType::Tank },
             Difficulty::Hard => if r_val < 0.40 { EnemyType::Scout } else if r_val < 0.68 { EnemyType::Zigzag } else if r_val < 0.85 { EnemyType::Kamikaze } else { EnemyType::Tank },
         };
         
-        let x = clamp(random() * self.w, 30.0 * self.dpr, self.w - 30.0 * self.dpr);
+        let x = clamp(self.rng.next_f64() * self.w, 30.0 * self.dpr, self.w - 30.0 * self.dpr);
         let mut hp = 1.0;
         let mut r = 14.0 * self.dpr;
         let mut vy = (220.0 + 180.0 * ramp) * self.dpr * d.speed_mul;
@@ -448,7 +655,7 @@ impl GameEngine {
                 hp = (1.0 * d.hp_mul).round().max(1.0);
                 r = 15.0 * self.dpr;
                 vy *= 0.95;
-                vx = if random() < 0.5 { -1.0 } else { 1.0 } * (120.0 + 100.0 * ramp) * self.dpr * d.speed_mul;
+                vx = if self.rng.next_f64() < 0.5 { -1.0 } else { 1.0 } * (120.0 + 100.0 * ramp) * self.dpr * d.speed_mul;
             },
             EnemyType::Tank => {
                 hp = (2.0 * d.hp_mul).round().max(2.0);
@@ -494,6 +701,7 @@ impl GameEngine {
             max_hp: hp,
         });
         self.next_id += 1;
+        push_event(&mut self.events, GameEventKind::BossSpawned, -1.0, t);
     }
 
     fn move_entities(&mut self, t: f64, dt: f64) {
@@ -551,6 +759,7 @@ impl GameEngine {
         for e in &self.enemies {
             if e.y + e.r >= self.h {
                 self.phase = Phase::Over;
+                push_event(&mut self.events, GameEventKind::Died, -1.0, t);
                 break;
             }
         }
@@ -579,15 +788,21 @@ impl GameEngine {
                         // Spawn particles
                         for _ in 0..10 {
                             self.particles.push(Particle {
-                                x: e.x + (random() - 0.5) * 20.0 * self.dpr,
-                                y: e.y + (random() - 0.5) * 20.0 * self.dpr,
-                                vx: (random() - 0.5) * 350.0 * self.dpr,
-                                vy: (random() - 0.5) * 350.0 * self.dpr,
-                                life: 0.2 + random() * 0.3,
+                                x: e.x + (self.rng.next_f64() - 0.5) * 20.0 * self.dpr,
+                                y: e.y + (self.rng.next_f64() - 0.5) * 20.0 * self.dpr,
+                                vx: (self.rng.next_f64() - 0.5) * 350.0 * self.dpr,
+                                vy: (self.rng.next_f64() - 0.5) * 350.0 * self.dpr,
+                                life: 0.2 + self.rng.next_f64() * 0.3,
                                 max_life: 0.5,
                             });
                         }
                         
+                        if e.t == EnemyType::Boss {
+                            push_event(&mut self.events, GameEventKind::BossKilled, -1.0, t);
+                        } else {
+                            push_event(&mut self.events, GameEventKind::EnemyKilled, e.t as u8 as f32, t);
+                        }
+
                         if e.t == EnemyType::Boss {
                             self.score += 520.0;
                             self.overdrive_until = t + 6500.0;
@@ -600,13 +815,13 @@ impl GameEngine {
                         }
                         
                         // Drop powerup
-                        if random() < 0.08 {
+                        if self.rng.next_f64() < 0.08 {
                             self.powerups.push(Powerup {
                                 id: self.next_id,
                                 x: e.x,
                                 y: e.y,
                                 vy: 80.0,
-                                t: if random() < 0.5 { PowerupType::Overdrive } else { PowerupType::Drones },
+                                t: if self.rng.next_f64() < 0.5 { PowerupType::Overdrive } else { PowerupType::Drones },
                             });
                             self.next_id += 1;
                         }
@@ -632,6 +847,8 @@ impl GameEngine {
             if dist2(self.px, self.py, e.x, e.y) <= rr * rr {
                 self.phase = Phase::Over;
                 self.shake += 15.0;
+                push_event(&mut self.events, GameEventKind::PlayerHit, e.t as u8 as f32, t);
+                push_event(&mut self.events, GameEventKind::Died, -1.0, t);
                 break;
             }
         }
@@ -647,6 +864,7 @@ impl GameEngine {
                 }
                 self.score += 50.0;
                 self.shake += 5.0;
+                push_event(&mut self.events, GameEventKind::PowerupCollected, powerup_code(&p.t), t);
             }
         }
     }